@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+import { createServer } from 'node:http';
+import { createSocket } from 'node:dgram';
+import { parseArgs } from 'node:util';
+import {
+  liveCuesToChannels,
+  parseLiveFrame,
+  parseLiveMessage,
+  UNIVERSE_SIZE,
+  type LivePatchMessage,
+} from '../src/core';
+import { acceptWebSockets } from './websocket';
+import {
+  ARTNET_PORT,
+  DDP_PORT,
+  E131_PORT,
+  createArtDmxPacket,
+  createDdpPackets,
+  createE131Packet,
+  getE131MulticastAddress,
+} from './protocols';
+
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: griswold-bridge [options]
+
+Receive the editor's live output over WebSocket and relay it to lighting controllers,
+or just log the frames.
+
+Options:
+  -p, --port <port>     Port to listen on (default 8765)
+      --host <address>  Address to listen on (default localhost)
+  -r, --relay           Send frames to the project's E1.31, Art-Net and DDP controllers
+  -l, --log             Print every frame (the default without --relay)
+  -h, --help            Show this help
+`;
+
+// Lit channels printed per logged frame
+const LOG_CHANNELS = 16;
+
+function fail(message: string, code: number): never {
+  process.stderr.write(`griswold-bridge: ${message}\n`);
+  process.exit(code);
+}
+
+function main() {
+  let args: ReturnType<typeof parseCommandLine>;
+  try {
+    args = parseCommandLine();
+  } catch (err) {
+    fail(`${(err as Error).message}\n\n${USAGE}`, EXIT_USAGE);
+  }
+  const { values } = args;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) fail(`invalid --port "${values.port}"`, EXIT_USAGE);
+  const shouldLog = values.log || !values.relay;
+  const relay = values.relay ? createRelay() : null;
+
+  const server = createServer((_, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Connect with a WebSocket from the Griswold editor (Live in the toolbar).\n');
+  });
+
+  acceptWebSockets(server, (client) => {
+    console.log(`${client.address} connected`);
+    let patch: LivePatchMessage | null = null;
+
+    const handleMessage = (data: Buffer, isBinary: boolean) => {
+      let time: number;
+      let channels: Uint8Array;
+      if (isBinary) {
+        const frame = parseLiveFrame(data);
+        if (!frame) return;
+        ({ time, channels } = frame);
+      } else {
+        const message = parseLiveMessage(data.toString('utf8'));
+        if (!message) return;
+        if (message.type === 'patch') {
+          patch = message;
+          console.log(`patch: ${message.controllers.length} controller(s), ${message.channelCount} channel(s)`);
+          for (const c of message.controllers) {
+            console.log(`  ${c.name}: ${c.protocol}, channels ${c.start}-${c.start + c.channelCount - 1}${c.host ? ` at ${c.host}` : ''}`);
+          }
+          return;
+        }
+        if (message.type !== 'frame' || !patch) return;
+        time = message.t;
+        channels = liveCuesToChannels(message.cues, patch);
+      }
+
+      // Logged as channel:value for every channel that isn't dark
+      if (shouldLog) {
+        const lit = Array.from(channels).flatMap((value, i) => (value > 0 ? [`${i + 1}:${value}`] : []));
+        const shown = lit.slice(0, LOG_CHANNELS).join(' ') + (lit.length > LOG_CHANNELS ? ' …' : '');
+        console.log(`${time.toFixed(3)}s  ${lit.length}/${channels.length} lit  ${shown}`);
+      }
+      if (relay && patch) relay(patch, channels);
+    };
+    client.onMessage = (data, isBinary) => {
+      // A message that still breaks something is dropped, never the bridge
+      try {
+        handleMessage(data, isBinary);
+      } catch (err) {
+        console.warn(`${client.address}: dropped a message (${(err as Error).message})`);
+      }
+    };
+    client.onClose = () => console.log(`${client.address} disconnected`);
+  });
+
+  server.on('error', (err) => fail(err.message, EXIT_USAGE));
+  server.listen(port, values.host, () => {
+    console.log(`Listening on ws://${values.host}:${port}${values.relay ? ', relaying to controllers' : ''}`);
+  });
+}
+
+/**
+ * Send each controller its slice of the frame over UDP. Controllers without a host get
+ * E1.31 multicast or Art-Net broadcast; DMX interfaces and pins can't be reached from here.
+ */
+function createRelay() {
+  const udp = createSocket('udp4');
+  udp.bind(() => udp.setBroadcast(true));
+  const sequences = new Map<string, number>();
+  const warned = new Set<string>();
+
+  const nextSequence = (key: string) => {
+    const sequence = ((sequences.get(key) ?? -1) + 1) & 0xff;
+    sequences.set(key, sequence);
+    return sequence;
+  };
+  const warnOnce = (message: string) => {
+    if (warned.has(message)) return;
+    warned.add(message);
+    console.warn(message);
+  };
+  const send = (packet: Buffer, port: number, host: string) =>
+    udp.send(packet, port, host, (err) => err && warnOnce(`cannot send to ${host}: ${err.message}`));
+
+  return (patch: LivePatchMessage, channels: Uint8Array) => {
+    for (const controller of patch.controllers) {
+      // Frames stop at the last channel in use, the rest of a controller stays dark
+      const data = new Uint8Array(controller.channelCount);
+      data.set(channels.subarray(controller.start - 1, controller.start - 1 + controller.channelCount));
+
+      switch (controller.protocol) {
+        case 'e131':
+        case 'artnet':
+          for (let offset = 0; offset < data.length; offset += UNIVERSE_SIZE) {
+            const universe = controller.startUniverse + offset / UNIVERSE_SIZE;
+            const slots = data.subarray(offset, offset + UNIVERSE_SIZE);
+            const sequence = nextSequence(`${controller.protocol}:${universe}`);
+            if (controller.protocol === 'e131') {
+              send(createE131Packet(universe, sequence, slots), E131_PORT, controller.host || getE131MulticastAddress(universe));
+            } else {
+              send(createArtDmxPacket(universe, sequence, slots), ARTNET_PORT, controller.host || '255.255.255.255');
+            }
+          }
+          break;
+        case 'ddp':
+          if (!controller.host) {
+            warnOnce(`${controller.name}: DDP needs a host, not relayed`);
+            break;
+          }
+          for (const packet of createDdpPackets(nextSequence(`ddp:${controller.name}`), data)) {
+            send(packet, DDP_PORT, controller.host);
+          }
+          break;
+        default:
+          warnOnce(`${controller.name}: ${controller.protocol} controllers are not relayed`);
+      }
+    }
+  };
+}
+
+function parseCommandLine() {
+  return parseArgs({
+    options: {
+      port: { type: 'string', short: 'p', default: '8765' },
+      host: { type: 'string', default: 'localhost' },
+      relay: { type: 'boolean', short: 'r' },
+      log: { type: 'boolean', short: 'l' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+main();
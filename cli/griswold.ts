@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  CUE_FORMATS,
+  DEFAULT_TICK_RATE,
+  formatCues,
+  generateCues,
+  getConstraintViolations,
+  parseGrisFile,
+  validateGrisFile,
+  type CueFormat,
+} from '../src/core';
+
+// Exit codes
+const EXIT_INVALID_FILE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: griswold <project.gris> [options]
+
+Compile a Griswold project into the same cues the editor exports.
+
+Options:
+  -t, --tick-rate <s>   Seconds between cues on smooth tracks (default 0.1)
+  -d, --duration <s>    Song length in seconds (default: saved in the project,
+                        or keyframes only if it was never saved)
+  -f, --format <fmt>    ${CUE_FORMATS.join(' | ')} (default json)
+  -o, --output <file>   Write cues to a file instead of stdout
+      --enforce-constraints
+                        Delay or drop switches that break an actor's output
+                        constraints (otherwise they are only reported)
+  -h, --help            Show this help
+`;
+
+function fail(message: string, code: number): never {
+  process.stderr.write(`griswold: ${message}\n`);
+  process.exit(code);
+}
+
+function parseSeconds(name: string, raw: string | undefined, isValid: (value: number) => boolean): number | undefined {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || !isValid(value)) fail(`invalid --${name} "${raw}"`, EXIT_USAGE);
+  return value;
+}
+
+function main() {
+  let args: ReturnType<typeof parseCommandLine>;
+  try {
+    args = parseCommandLine();
+  } catch (err) {
+    fail(`${(err as Error).message}\n\n${USAGE}`, EXIT_USAGE);
+  }
+  const { values, positionals } = args;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail(`expected one project file\n\n${USAGE}`, EXIT_USAGE);
+
+  const format = values.format as CueFormat;
+  if (!CUE_FORMATS.includes(format)) fail(`unknown --format "${values.format}"`, EXIT_USAGE);
+  const tickRate = parseSeconds('tick-rate', values['tick-rate'], (v) => v > 0) ?? DEFAULT_TICK_RATE;
+  const durationOverride = parseSeconds('duration', values.duration, (v) => v >= 0);
+
+  const [inputPath] = positionals;
+  let text: string;
+  try {
+    text = readFileSync(inputPath, 'utf8');
+  } catch (err) {
+    fail(`cannot read ${inputPath}: ${(err as Error).message}`, EXIT_USAGE);
+  }
+
+  let file: ReturnType<typeof parseGrisFile>;
+  try {
+    file = parseGrisFile(text);
+  } catch (err) {
+    fail(`${inputPath}: ${(err as Error).message}`, EXIT_INVALID_FILE);
+  }
+
+  const problems = validateGrisFile(file);
+  if (problems.length > 0) {
+    fail(`${inputPath} has ${problems.length} problem(s):\n${problems.map((p) => `  - ${p}`).join('\n')}`, EXIT_INVALID_FILE);
+  }
+
+  const duration = durationOverride ?? file.project.duration ?? 0;
+  const options = {
+    duration,
+    tickRate,
+    controllers: file.project.controllers,
+    enforceConstraints: values['enforce-constraints'],
+  };
+  // Switches a relay can't follow are exported as they are, with a warning
+  if (!options.enforceConstraints) {
+    for (const violation of getConstraintViolations(file.actors, options)) {
+      process.stderr.write(`griswold: warning: ${violation.message}\n`);
+    }
+  }
+  const output = formatCues(generateCues(file.actors, options), format);
+
+  if (values.output) {
+    try {
+      writeFileSync(values.output, output);
+    } catch (err) {
+      fail(`cannot write ${values.output}: ${(err as Error).message}`, EXIT_USAGE);
+    }
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+function parseCommandLine() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      'tick-rate': { type: 'string', short: 't' },
+      duration: { type: 'string', short: 'd' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      output: { type: 'string', short: 'o' },
+      'enforce-constraints': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+main();
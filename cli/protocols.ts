@@ -0,0 +1,100 @@
+import { randomUUID } from 'node:crypto';
+
+// Packet builders for the network lighting protocols the bridge relays to
+
+export const E131_PORT = 5568;
+export const ARTNET_PORT = 6454;
+export const DDP_PORT = 4048;
+
+const DMX_SLOTS = 512;
+const DDP_MAX_DATA = 1440;  // Keeps each packet inside a standard Ethernet frame
+const SOURCE_NAME = 'Griswold bridge';
+// E1.31 senders identify themselves with a component id, fixed for the life of the process
+const E131_CID = Buffer.from(randomUUID().replace(/-/g, ''), 'hex');
+
+/**
+ * Multicast group an E1.31 universe is sent to when the controller has no address
+ */
+export function getE131MulticastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
+
+/**
+ * E1.31 (sACN) data packet for one universe (ANSI E1.31-2016)
+ */
+export function createE131Packet(universe: number, sequence: number, data: Uint8Array): Buffer {
+  const slots = data.subarray(0, DMX_SLOTS);
+  const packet = Buffer.alloc(126 + slots.length);
+
+  // Root layer
+  packet.writeUInt16BE(0x0010, 0);  // preamble size
+  packet.writeUInt16BE(0x0000, 2);  // postamble size
+  packet.write('ASC-E1.17\0\0\0', 4, 'latin1');
+  packet.writeUInt16BE(0x7000 | (packet.length - 16), 16);
+  packet.writeUInt32BE(0x00000004, 18);  // VECTOR_ROOT_E131_DATA
+  E131_CID.copy(packet, 22);
+
+  // Framing layer
+  packet.writeUInt16BE(0x7000 | (packet.length - 38), 38);
+  packet.writeUInt32BE(0x00000002, 40);  // VECTOR_E131_DATA_PACKET
+  packet.write(SOURCE_NAME, 44, 63, 'utf8');
+  packet.writeUInt8(100, 108);  // priority
+  packet.writeUInt16BE(0, 109);  // synchronization address
+  packet.writeUInt8(sequence & 0xff, 111);
+  packet.writeUInt8(0, 112);  // options
+  packet.writeUInt16BE(universe, 113);
+
+  // DMP layer
+  packet.writeUInt16BE(0x7000 | (packet.length - 115), 115);
+  packet.writeUInt8(0x02, 117);  // VECTOR_DMP_SET_PROPERTY
+  packet.writeUInt8(0xa1, 118);  // address and data type
+  packet.writeUInt16BE(0, 119);  // first property address
+  packet.writeUInt16BE(1, 121);  // address increment
+  packet.writeUInt16BE(slots.length + 1, 123);
+  packet.writeUInt8(0, 125);  // DMX start code
+  packet.set(slots, 126);
+
+  return packet;
+}
+
+/**
+ * Art-Net ArtDmx packet for one universe (the 15-bit port address)
+ */
+export function createArtDmxPacket(universe: number, sequence: number, data: Uint8Array): Buffer {
+  const slots = data.subarray(0, DMX_SLOTS);
+  const length = Math.max(2, slots.length + (slots.length % 2));  // even, at least 2
+  const packet = Buffer.alloc(18 + length);
+
+  packet.write('Art-Net\0', 0, 'latin1');
+  packet.writeUInt16LE(0x5000, 8);  // OpDmx
+  packet.writeUInt16BE(14, 10);  // protocol version
+  packet.writeUInt8(sequence & 0xff, 12);
+  packet.writeUInt8(0, 13);  // physical port
+  packet.writeUInt8(universe & 0xff, 14);  // SubUni
+  packet.writeUInt8((universe >> 8) & 0x7f, 15);  // Net
+  packet.writeUInt16BE(length, 16);
+  packet.set(slots, 18);
+
+  return packet;
+}
+
+/**
+ * DDP packets carrying a controller's channels, the last one telling it to show them
+ */
+export function createDdpPackets(sequence: number, data: Uint8Array): Buffer[] {
+  const packets: Buffer[] = [];
+  for (let offset = 0; offset < data.length || packets.length === 0; offset += DDP_MAX_DATA) {
+    const chunk = data.subarray(offset, offset + DDP_MAX_DATA);
+    const isLast = offset + DDP_MAX_DATA >= data.length;
+    const packet = Buffer.alloc(10 + chunk.length);
+    packet.writeUInt8(0x40 | (isLast ? 0x01 : 0), 0);  // version 1, push on the last packet
+    packet.writeUInt8((sequence % 15) + 1, 1);  // 1-15, 0 means unsequenced
+    packet.writeUInt8(0x0b, 2);  // data type: RGB, 8 bits per channel
+    packet.writeUInt8(1, 3);  // destination: the default output device
+    packet.writeUInt32BE(offset, 4);
+    packet.writeUInt16BE(chunk.length, 8);
+    packet.set(chunk, 10);
+    packets.push(packet);
+  }
+  return packets;
+}
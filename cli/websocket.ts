@@ -0,0 +1,129 @@
+import { createHash } from 'node:crypto';
+import type { Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+// Just enough of RFC 6455 for the bridge: accepting browser connections and reading their
+// text and binary messages, without pulling in a WebSocket package
+
+export interface WebSocketClient {
+  address: string;
+  onMessage: (data: Buffer, isBinary: boolean) => void;
+  onClose: () => void;
+}
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Messages larger than this close the connection (a frame of 1M channels is plenty)
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Accept WebSocket upgrades on an HTTP server, handing each connection to `onConnection`
+ * to set its message and close handlers
+ */
+export function acceptWebSockets(server: Server, onConnection: (client: WebSocketClient) => void): void {
+  server.on('upgrade', (req, socket: Duplex) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(
+      ['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n')
+    );
+
+    const client: WebSocketClient = {
+      address: `${req.socket.remoteAddress}:${req.socket.remotePort}`,
+      onMessage: () => {},
+      onClose: () => {},
+    };
+    onConnection(client);
+    readFrames(socket, client);
+  });
+}
+
+function readFrames(socket: Duplex, client: WebSocketClient) {
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentOpcode = OPCODE_TEXT;
+  let closed = false;
+
+  const close = (code: number) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    client.onClose();
+  };
+
+  const handleFrame = (fin: boolean, opcode: number, payload: Buffer) => {
+    if (opcode === OPCODE_CLOSE) return close(1000);
+    if (opcode === OPCODE_PING) return void socket.write(encodeFrame(OPCODE_PONG, payload));
+    if (opcode !== OPCODE_TEXT && opcode !== OPCODE_BINARY && opcode !== OPCODE_CONTINUATION) return;
+
+    // Fragmented messages arrive as a text or binary frame and continuations up to a final one
+    if (opcode !== OPCODE_CONTINUATION) {
+      fragments = [];
+      fragmentOpcode = opcode;
+    }
+    fragments.push(payload);
+    if (fragments.reduce((size, f) => size + f.length, 0) > MAX_MESSAGE_BYTES) return close(1009);
+    if (fin) {
+      client.onMessage(Buffer.concat(fragments), fragmentOpcode === OPCODE_BINARY);
+      fragments = [];
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (!closed && buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE_BYTES) return close(1009);
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      // Browsers mask every frame they send
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i & 3)];
+      }
+      buffer = buffer.subarray(offset + length);
+      handleFrame(fin, opcode, payload);
+    }
+  });
+
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    client.onClose();
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+// Server frames are unmasked; only control frames (close, pong) are ever sent
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0x80 | opcode, payload.length]), payload]);
+}
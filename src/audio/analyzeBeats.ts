@@ -0,0 +1,26 @@
+import { detectBeats, mixdownForAnalysis } from './beatDetection';
+import type { BeatGrid } from '../types';
+
+/**
+ * Detect the beat grid of a decoded song, in a Web Worker where available
+ */
+export function analyzeBeats(buffer: AudioBuffer, beatsPerBar = 4): Promise<BeatGrid | null> {
+  const { samples, sampleRate } = mixdownForAnalysis(buffer);
+
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(detectBeats(samples, sampleRate, beatsPerBar));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./beatDetection.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<BeatGrid | null>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Beat detection failed'));
+    };
+    worker.postMessage({ samples, sampleRate, beatsPerBar }, [samples.buffer]);
+  });
+}
@@ -0,0 +1,165 @@
+import type { BeatGrid } from '../types';
+
+// Analysis runs on a mono mixdown at roughly this rate
+export const ANALYSIS_SAMPLE_RATE = 11025;
+
+const HOP_SIZE = 128;       // samples between onset frames (~11.6ms)
+const WINDOW_SIZE = 512;    // samples per energy window
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;  // Octave errors are resolved towards this tempo
+
+/**
+ * Mix an audio buffer down to mono at about ANALYSIS_SAMPLE_RATE
+ */
+export function mixdownForAnalysis(buffer: AudioBuffer): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_SAMPLE_RATE));
+  const length = Math.floor(buffer.length / factor);
+  const samples = new Float32Array(length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  // Averaging each block doubles as a crude anti-aliasing filter
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let j = 0; j < factor; j++) sum += data[i * factor + j];
+    }
+    samples[i] = sum / (factor * channels.length);
+  }
+
+  return { samples, sampleRate: buffer.sampleRate / factor };
+}
+
+/**
+ * Estimate tempo and downbeat position from mono samples
+ */
+export function detectBeats(samples: Float32Array, sampleRate: number, beatsPerBar = 4): BeatGrid | null {
+  const { full, low } = getOnsetEnvelopes(samples, sampleRate);
+  if (full.length < 2) return null;
+
+  const frameRate = sampleRate / HOP_SIZE;
+  const period = estimateBeatPeriod(full, frameRate);
+  if (!period) return null;
+
+  // Beat phase: the offset whose comb of beats lands on the most onset energy
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    const score = sumAtBeats(full, phase, period, 1);
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  // Downbeat: the beat of the bar with the strongest low end (kick drums)
+  let downbeat = 0;
+  let downbeatScore = -Infinity;
+  for (let b = 0; b < beatsPerBar; b++) {
+    const score = sumAtBeats(low, bestPhase + b * period, period * beatsPerBar, 1);
+    if (score > downbeatScore) {
+      downbeatScore = score;
+      downbeat = b;
+    }
+  }
+
+  const beatLength = period / frameRate;
+  const barLength = beatLength * beatsPerBar;
+  const offset = ((bestPhase + downbeat * period) / frameRate) % barLength;
+
+  return {
+    bpm: Math.round((60 / beatLength) * 100) / 100,
+    offset: Math.round(offset * 1000) / 1000,
+    beatsPerBar,
+  };
+}
+
+/**
+ * Half-wave rectified log-energy flux, for the whole signal and for its low band
+ */
+function getOnsetEnvelopes(samples: Float32Array, sampleRate: number): { full: Float32Array; low: Float32Array } {
+  const frameCount = Math.max(0, Math.floor((samples.length - WINDOW_SIZE) / HOP_SIZE) + 1);
+
+  // One-pole low-pass at ~150Hz isolates kicks and bass
+  const lowBand = new Float32Array(samples.length);
+  const alpha = 1 - Math.exp((-2 * Math.PI * 150) / sampleRate);
+  let state = 0;
+  for (let i = 0; i < samples.length; i++) {
+    state += alpha * (samples[i] - state);
+    lowBand[i] = state;
+  }
+
+  const flux = (signal: Float32Array) => {
+    const envelope = new Float32Array(frameCount);
+    let previous = 0;
+    for (let f = 0; f < frameCount; f++) {
+      let energy = 0;
+      const start = f * HOP_SIZE;
+      for (let i = start; i < start + WINDOW_SIZE; i++) energy += signal[i] * signal[i];
+      const level = Math.log1p(1000 * energy / WINDOW_SIZE);
+      envelope[f] = f > 0 ? Math.max(0, level - previous) : 0;
+      previous = level;
+    }
+    return envelope;
+  };
+
+  return { full: flux(samples), low: flux(lowBand) };
+}
+
+/**
+ * Beat period in (fractional) frames, from the autocorrelation of the onset envelope
+ */
+function estimateBeatPeriod(envelope: Float32Array, frameRate: number): number | null {
+  const mean = envelope.reduce((sum, v) => sum + v, 0) / envelope.length;
+  const centered = envelope.map((v) => v - mean);
+
+  const minLag = Math.floor((60 / MAX_BPM) * frameRate);
+  const maxLag = Math.min(Math.ceil((60 / MIN_BPM) * frameRate), centered.length - 1);
+  if (maxLag <= minLag) return null;
+
+  const correlation = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    if (lag < 1 || lag >= centered.length) continue;
+    let sum = 0;
+    for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag];
+    correlation[lag] = sum / (centered.length - lag);
+  }
+
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    // Log-Gaussian tempo prior, one octave wide, around the preferred tempo
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    const score = correlation[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestScore <= 0) return null;
+
+  // Parabolic interpolation between neighbouring lags for a sub-frame period
+  const a = correlation[bestLag - 1];
+  const b = correlation[bestLag];
+  const c = correlation[bestLag + 1];
+  const denominator = a - 2 * b + c;
+  const shift = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+  return bestLag + shift;
+}
+
+/**
+ * Sum an envelope at evenly spaced (fractional) frame positions, within +/- `tolerance` frames
+ */
+function sumAtBeats(envelope: Float32Array, start: number, spacing: number, tolerance: number): number {
+  let sum = 0;
+  for (let position = start; position < envelope.length; position += spacing) {
+    const center = Math.round(position);
+    let peak = 0;
+    for (let i = Math.max(0, center - tolerance); i <= Math.min(envelope.length - 1, center + tolerance); i++) {
+      peak = Math.max(peak, envelope[i]);
+    }
+    sum += peak;
+  }
+  return sum;
+}
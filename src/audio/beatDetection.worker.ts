@@ -0,0 +1,7 @@
+import { detectBeats } from './beatDetection';
+
+// Runs tempo analysis off the main thread: receives a mono mixdown, replies with the beat grid
+self.onmessage = (e: MessageEvent<{ samples: Float32Array; sampleRate: number; beatsPerBar: number }>) => {
+  const { samples, sampleRate, beatsPerBar } = e.data;
+  self.postMessage(detectBeats(samples, sampleRate, beatsPerBar));
+};
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { useStore } from 'zustand';
+import { useProjectStore } from '../store';
+
+export default function HistoryPanel() {
+  const historyLabel = useProjectStore((state) => state.historyLabel);
+  const { pastStates, futureStates, undo, redo } = useStore(useProjectStore.temporal);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  // Close the history list when clicking outside it or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  // Open scrolled to the latest entries
+  useEffect(() => {
+    if (isOpen) listEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isOpen]);
+
+  // Oldest first: undone entries sit below the current state, nearest first
+  const entries = [
+    ...pastStates.map((state) => state.historyLabel ?? 'Edit'),
+    historyLabel,
+    ...[...futureStates].reverse().map((state) => state.historyLabel ?? 'Edit'),
+  ];
+  const currentIndex = pastStates.length;
+
+  const jumpTo = (index: number) => {
+    if (index < currentIndex) undo(currentIndex - index);
+    else if (index > currentIndex) redo(index - currentIndex);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded hover:bg-[var(--color-bg-tertiary)] transition-colors ${
+          isOpen ? 'text-[var(--color-accent)]' : ''
+        }`}
+        title="History"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-1/2 -translate-x-1/2 mt-1 z-50 w-72 max-h-80 overflow-y-auto
+                        bg-[var(--color-bg-secondary)] rounded-lg shadow-xl border border-[var(--color-border)] py-1">
+          {entries.map((label, index) => (
+            <button
+              key={index}
+              onClick={() => jumpTo(index)}
+              className={`w-full text-left px-3 py-1 text-xs truncate transition-colors ${
+                index === currentIndex
+                  ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)]'
+                  : index > currentIndex
+                    ? 'text-[var(--color-text-secondary)] opacity-60 hover:bg-[var(--color-bg-tertiary)]'
+                    : 'hover:bg-[var(--color-bg-tertiary)]'
+              }`}
+              title={index === currentIndex ? 'Current state' : 'Jump to this state'}
+            >
+              {label}
+            </button>
+          ))}
+          <div ref={listEndRef} />
+        </div>
+      )}
+    </div>
+  );
+}
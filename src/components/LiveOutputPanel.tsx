@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { useProjectStore } from '../store';
+import { getTestActors, LIVE_FRAME_FORMAT_OPTIONS, type LiveFrameFormat } from '../core';
+import { connectLiveOutput, type LiveOutput, type LiveOutputStatus } from '../live/liveOutput';
+
+const LIVE_OUTPUT_STORAGE_KEY = 'griswold-live-output';
+const DEFAULT_URL = 'ws://localhost:8765';
+
+const STATUS_COLORS: Record<LiveOutputStatus, string> = {
+  connecting: 'bg-yellow-400',
+  connected: 'bg-green-400',
+  closed: 'bg-[var(--color-text-secondary)]',
+  error: 'bg-red-400',
+};
+
+// Endpoint settings belong to this machine, not the project
+function loadSettings(): { url: string; format: LiveFrameFormat } {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LIVE_OUTPUT_STORAGE_KEY) ?? '{}');
+    return {
+      url: typeof saved.url === 'string' ? saved.url : DEFAULT_URL,
+      format: saved.format === 'json' ? 'json' : 'binary',
+    };
+  } catch {
+    return { url: DEFAULT_URL, format: 'binary' };
+  }
+}
+
+export default function LiveOutputPanel() {
+  const [settings, setSettings] = useState(loadSettings);
+  const [isOpen, setIsOpen] = useState(false);
+  const [output, setOutput] = useState<LiveOutput | null>(null);
+  const [status, setStatus] = useState<LiveOutputStatus>('closed');
+  const [error, setError] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the settings when clicking outside them or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  // Stream a frame whenever the playhead moves (every animation frame while playing) or the
+  // show changes, so edits show up on the props while paused too. A running channel test
+  // replaces the show.
+  useEffect(() => {
+    if (!output || status !== 'connected') return;
+    const send = ({ actors, project, playback, testMode }: ReturnType<typeof useProjectStore.getState>) => {
+      if (testMode) output.send(getTestActors(actors, testMode), project.controllers, 0);
+      else output.send(actors, project.controllers, playback.currentTime);
+    };
+    send(useProjectStore.getState());
+    return useProjectStore.subscribe((state, prev) => {
+      if (
+        state.playback.currentTime !== prev.playback.currentTime ||
+        state.actors !== prev.actors ||
+        state.project.controllers !== prev.project.controllers ||
+        state.testMode !== prev.testMode
+      ) {
+        send(state);
+      }
+    });
+  }, [output, status]);
+
+  useEffect(() => () => output?.close(), [output]);
+
+  const handleConnect = () => {
+    if (output) {
+      output.close();
+      setOutput(null);
+      setStatus('closed');
+      return;
+    }
+    localStorage.setItem(LIVE_OUTPUT_STORAGE_KEY, JSON.stringify(settings));
+    setError('');
+    try {
+      setOutput(connectLiveOutput(settings.url, settings.format, (next, message) => {
+        setStatus(next);
+        if (message) setError(message);
+      }));
+    } catch (err) {
+      // Malformed URLs throw straight away
+      setStatus('error');
+      setError((err as Error).message);
+    }
+  };
+
+  const isActive = output !== null && status !== 'error' && status !== 'closed';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-4 py-2 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                    hover:border-[var(--color-accent)] hover:text-[var(--color-accent)] transition-colors text-sm ${
+                      isOpen ? 'text-[var(--color-accent)]' : ''
+                    }`}
+        title="Stream every actor's value to real props while editing"
+      >
+        <span className={`w-2 h-2 rounded-full ${output ? STATUS_COLORS[status] : STATUS_COLORS.closed}`} />
+        Live
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-72 p-3 space-y-3
+                        bg-[var(--color-bg-secondary)] rounded-lg shadow-xl border border-[var(--color-border)] text-sm">
+          <label className="block text-[var(--color-text-secondary)]">
+            Bridge URL
+            <input
+              value={settings.url}
+              disabled={output !== null}
+              onChange={(e) => setSettings({ ...settings, url: e.target.value })}
+              className="w-full mt-1 px-2 py-1 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                         focus:border-[var(--color-accent)] outline-none disabled:opacity-50"
+            />
+          </label>
+          <label className="block text-[var(--color-text-secondary)]">
+            Frames
+            <select
+              value={settings.format}
+              disabled={output !== null}
+              onChange={(e) => setSettings({ ...settings, format: e.target.value as LiveFrameFormat })}
+              className="w-full mt-1 px-2 py-1 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                         focus:border-[var(--color-accent)] outline-none disabled:opacity-50"
+            >
+              {LIVE_FRAME_FORMAT_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </label>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <button
+            onClick={handleConnect}
+            className={`w-full px-3 py-1.5 rounded transition-colors ${
+              output
+                ? 'bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-border)]'
+                : 'bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-dim)]'
+            }`}
+          >
+            {output ? (isActive ? 'Disconnect' : 'Reset') : 'Connect'}
+          </button>
+          <p className="text-xs text-[var(--color-text-secondary)] opacity-70">
+            Sends the patch, then every actor's value each frame. Run <code>griswold-bridge --relay</code> to
+            pass frames on to E1.31 and Art-Net controllers.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
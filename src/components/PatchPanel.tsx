@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useProjectStore, withTransaction } from '../store';
+import {
+  autoPatch,
+  formatOutputRange,
+  getActorFootprint,
+  getPatchConflicts,
+  getUniverseRange,
+  usesUniverses,
+} from '../core';
+import { OUTPUT_PROTOCOL_OPTIONS, type Actor, type OutputController, type OutputProtocol } from '../types';
+
+export default function PatchPanel() {
+  const { project, actors, addController, removeController, updateController, setActorPatch } = useProjectStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const controllers = project.controllers ?? [];
+  const conflicts = getPatchConflicts(actors, controllers);
+  const conflictActors = new Set(conflicts.flatMap((c) => c.actorIds));
+  const conflictControllers = new Set(conflicts.flatMap((c) => c.controllerIds));
+
+  // New controllers pick up after the last universe in use
+  const handleAddController = () => {
+    const lastUniverse = Math.max(0, ...controllers.filter((c) => usesUniverses(c.protocol)).map((c) => getUniverseRange(c)[1]));
+    addController({
+      name: `Controller ${controllers.length + 1}`,
+      protocol: 'e131',
+      startUniverse: lastUniverse + 1,
+      channelCount: 512,
+    });
+  };
+
+  const handleAutoPatch = (controller: OutputController) => {
+    const patches = autoPatch(actors, controllers, controller);
+    if (patches.size === 0) {
+      alert(`No unpatched actors fit on ${controller.name}.`);
+      return;
+    }
+    withTransaction(`Patch ${patches.size} actor${patches.size === 1 ? '' : 's'} to ${controller.name}`, () => {
+      for (const [actorId, patch] of patches) setActorPatch(actorId, patch);
+    });
+  };
+
+  // Moving an actor to another controller lands it on that controller's first free address
+  const handleControllerChange = (actor: Actor, controllerId: string) => {
+    const controller = controllers.find((c) => c.id === controllerId);
+    if (!controller) {
+      setActorPatch(actor.id, undefined);
+      return;
+    }
+    const others = actors.map((a) => (a.id === actor.id ? { ...a, patch: undefined } : a));
+    setActorPatch(actor.id, autoPatch(others, controllers, controller).get(actor.id) ?? { controllerId, address: 1 });
+  };
+
+  const setNumber = (raw: string, apply: (value: number) => void) => {
+    const parsed = parseInt(raw);
+    if (parsed >= 1) apply(parsed);
+  };
+
+  const inputClass = `w-full px-2 py-1 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                      focus:border-[var(--color-accent)] outline-none`;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-4 py-2 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                   hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                   transition-colors text-sm"
+        title="Which controller and address each actor is wired to"
+      >
+        Patch
+        {conflicts.length > 0 && <span className="ml-1.5 text-red-400">({conflicts.length})</span>}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-[var(--color-bg-secondary)] rounded-lg p-6 shadow-xl border border-[var(--color-border)] max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">Output Patch</h3>
+
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm text-[var(--color-text-secondary)]">Controllers</span>
+                <button onClick={handleAddController} className="text-xs text-[var(--color-accent)] hover:underline">
+                  + Add controller
+                </button>
+              </div>
+              {controllers.length === 0 ? (
+                <p className="text-xs text-[var(--color-text-secondary)] opacity-70">
+                  No controllers yet. Unpatched actors are laid out one after another in exports.
+                </p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-[var(--color-text-secondary)]">
+                    <tr>
+                      <th className="text-left font-normal pb-1">Name</th>
+                      <th className="text-left font-normal pb-1">Protocol</th>
+                      <th className="text-left font-normal pb-1 w-20">Universe</th>
+                      <th className="text-left font-normal pb-1 w-20">Channels</th>
+                      <th className="text-left font-normal pb-1">Host</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {controllers.map((controller) => (
+                      <tr key={controller.id} className={conflictControllers.has(controller.id) ? 'text-red-400' : ''}>
+                        <td className="pr-1 py-0.5">
+                          <input
+                            value={controller.name}
+                            onChange={(e) => updateController(controller.id, { name: e.target.value })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="pr-1 py-0.5">
+                          <select
+                            value={controller.protocol}
+                            onChange={(e) => updateController(controller.id, { protocol: e.target.value as OutputProtocol })}
+                            className={inputClass}
+                          >
+                            {OUTPUT_PROTOCOL_OPTIONS.map((opt) => (
+                              <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="pr-1 py-0.5">
+                          <input
+                            type="number"
+                            min="1"
+                            value={controller.startUniverse}
+                            disabled={!usesUniverses(controller.protocol)}
+                            onChange={(e) => setNumber(e.target.value, (startUniverse) => updateController(controller.id, { startUniverse }))}
+                            className={`${inputClass} disabled:opacity-30`}
+                            title="First universe"
+                          />
+                        </td>
+                        <td className="pr-1 py-0.5">
+                          <input
+                            type="number"
+                            min="1"
+                            value={controller.channelCount}
+                            onChange={(e) => setNumber(e.target.value, (channelCount) => updateController(controller.id, { channelCount }))}
+                            className={inputClass}
+                            title={controller.protocol === 'pins' ? 'Highest pin' : 'Channels driven'}
+                          />
+                        </td>
+                        <td className="pr-1 py-0.5">
+                          <input
+                            value={controller.host ?? ''}
+                            disabled={controller.protocol === 'dmx' || controller.protocol === 'pins'}
+                            placeholder={controller.protocol === 'e131' ? 'multicast' : ''}
+                            onChange={(e) => updateController(controller.id, { host: e.target.value || undefined })}
+                            className={`${inputClass} disabled:opacity-30`}
+                          />
+                        </td>
+                        <td className="py-0.5 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => handleAutoPatch(controller)}
+                            className="px-1 text-[var(--color-text-secondary)] hover:text-[var(--color-accent)]"
+                            title="Patch every unpatched actor to the first free addresses"
+                          >
+                            Auto
+                          </button>
+                          <button
+                            onClick={() => removeController(controller.id)}
+                            className="px-1 text-[var(--color-text-secondary)] hover:text-red-400"
+                            title="Remove controller (its actors become unpatched)"
+                          >
+                            ✕
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <div className="text-sm text-[var(--color-text-secondary)] mb-1">Actors</div>
+              <div className="max-h-64 overflow-y-auto rounded border border-[var(--color-border)] divide-y divide-[var(--color-border)]">
+                {actors.map((actor) => {
+                  const controller = controllers.find((c) => c.id === actor.patch?.controllerId);
+                  const footprint = getActorFootprint(actor);
+                  const address = actor.patch?.address ?? 1;
+                  return (
+                    <div
+                      key={actor.id}
+                      className={`flex items-center gap-2 px-2 py-1 text-xs ${conflictActors.has(actor.id) ? 'bg-red-500/10 text-red-400' : ''}`}
+                    >
+                      <span className="flex-1 truncate">{actor.label}</span>
+                      <span className="text-[var(--color-text-secondary)] w-12">{footprint} ch</span>
+                      <select
+                        value={actor.patch?.controllerId ?? ''}
+                        onChange={(e) => handleControllerChange(actor, e.target.value)}
+                        className="w-36 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
+                      >
+                        <option value="">Unpatched</option>
+                        {actor.patch && !controller && <option value={actor.patch.controllerId}>(missing)</option>}
+                        {controllers.map((c) => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        value={actor.patch ? address : ''}
+                        disabled={!controller}
+                        onChange={(e) => setNumber(e.target.value, (value) => setActorPatch(actor.id, { ...actor.patch!, address: value }))}
+                        className="w-16 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)] disabled:opacity-30"
+                        title={controller?.protocol === 'pins' ? 'Pin' : 'First channel on the controller'}
+                      />
+                      <span className="w-24 text-right font-mono text-[var(--color-text-secondary)]">
+                        {controller ? formatOutputRange(controller, address, footprint) : 'auto'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+              {conflicts.length === 0 ? (
+                <p className="text-sm text-[var(--color-text-secondary)]">No conflicts.</p>
+              ) : (
+                <ul className="text-sm text-red-400 list-disc pl-4">
+                  {conflicts.map((conflict, i) => (
+                    <li key={i}>{conflict.message}</li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                An actor takes one channel per lane, three for RGB actors and color channels, starting at its address.
+                Sequence exports place controllers one after another; cue exports tag patched lanes with their universe and address.
+              </p>
+            </div>
+
+            <button
+              onClick={() => setIsOpen(false)}
+              className="w-full px-4 py-2 rounded bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-border)] transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { useProjectStore } from '../store';
+import { getCircuitLoads, getPowerOverloads, POWER_SAMPLE_STEP } from '../core';
+
+// A common 15A household breaker at 120V
+const DEFAULT_CIRCUIT_WATTS = 1800;
+
+export default function PowerPanel() {
+  const { project, actors, playback, addCircuit, removeCircuit, updateCircuit, setActorPower } = useProjectStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const circuits = useMemo(() => project.circuits ?? [], [project.circuits]);
+  const loads = useMemo(() => getCircuitLoads(actors, circuits, playback.duration), [actors, circuits, playback.duration]);
+  const overloads = useMemo(() => getPowerOverloads(loads), [loads]);
+  const overloadedCircuits = new Set(overloads.map((o) => o.circuitId));
+
+  const handleAddCircuit = () => {
+    addCircuit({ name: `Circuit ${circuits.length + 1}`, maxWatts: DEFAULT_CIRCUIT_WATTS });
+  };
+
+  const setNumber = (raw: string, apply: (value: number) => void) => {
+    const parsed = parseFloat(raw);
+    if (parsed >= 0) apply(parsed);
+  };
+
+  const inputClass = `w-full px-2 py-1 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                      focus:border-[var(--color-accent)] outline-none`;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-4 py-2 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                   hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                   transition-colors text-sm"
+        title="What each prop draws and which circuit feeds it"
+      >
+        Power
+        {overloads.length > 0 && <span className="ml-1.5 text-red-400">({overloads.length})</span>}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-[var(--color-bg-secondary)] rounded-lg p-6 shadow-xl border border-[var(--color-border)] max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">Power Budget</h3>
+
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm text-[var(--color-text-secondary)]">Circuits</span>
+                <button onClick={handleAddCircuit} className="text-xs text-[var(--color-accent)] hover:underline">
+                  + Add circuit
+                </button>
+              </div>
+              {circuits.length === 0 ? (
+                <p className="text-xs text-[var(--color-text-secondary)] opacity-70">
+                  No circuits yet. Add the breakers your props are plugged into to check their load.
+                </p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-[var(--color-text-secondary)]">
+                    <tr>
+                      <th className="text-left font-normal pb-1">Name</th>
+                      <th className="text-left font-normal pb-1 w-24">Limit (W)</th>
+                      <th className="text-right font-normal pb-1 w-24">Peak</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loads.map(({ circuit, peak }) => (
+                      <tr key={circuit.id} className={overloadedCircuits.has(circuit.id) ? 'text-red-400' : ''}>
+                        <td className="pr-1 py-0.5">
+                          <input
+                            value={circuit.name}
+                            onChange={(e) => updateCircuit(circuit.id, { name: e.target.value })}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="pr-1 py-0.5">
+                          <input
+                            type="number"
+                            min="1"
+                            value={circuit.maxWatts}
+                            onChange={(e) => setNumber(e.target.value, (maxWatts) => maxWatts > 0 && updateCircuit(circuit.id, { maxWatts }))}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="py-0.5 text-right font-mono">
+                          {Math.round(peak)}W ({Math.round((peak / circuit.maxWatts) * 100)}%)
+                        </td>
+                        <td className="py-0.5 text-right">
+                          <button
+                            onClick={() => removeCircuit(circuit.id)}
+                            className="px-1 text-[var(--color-text-secondary)] hover:text-red-400"
+                            title="Remove circuit (its actors keep their wattage)"
+                          >
+                            ✕
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <div className="text-sm text-[var(--color-text-secondary)] mb-1">Actors</div>
+              <div className="max-h-64 overflow-y-auto rounded border border-[var(--color-border)] divide-y divide-[var(--color-border)]">
+                {actors.map((actor) => (
+                  <div key={actor.id} className="flex items-center gap-2 px-2 py-1 text-xs">
+                    <span className="flex-1 truncate">{actor.label}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={actor.power?.watts ?? ''}
+                      placeholder="0"
+                      onChange={(e) => setNumber(e.target.value || '0', (watts) => setActorPower(actor.id, { ...actor.power, watts }))}
+                      className="w-20 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
+                      title="Watts at full output"
+                    />
+                    <span className="text-[var(--color-text-secondary)]">W</span>
+                    <select
+                      value={actor.power?.circuitId ?? ''}
+                      onChange={(e) => setActorPower(actor.id, { watts: actor.power?.watts ?? 0, circuitId: e.target.value || undefined })}
+                      className="w-36 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
+                    >
+                      <option value="">No circuit</option>
+                      {circuits.map((c) => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+              {overloads.length === 0 ? (
+                <p className="text-sm text-[var(--color-text-secondary)]">No circuit goes over its limit.</p>
+              ) : (
+                <ul className="text-sm text-red-400 list-disc pl-4 max-h-32 overflow-y-auto">
+                  {overloads.map((overload) => (
+                    <li key={`${overload.circuitId}-${overload.start}`}>{overload.message}</li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                Each actor draws its wattage times its level (dimmers and strobes included; RGB props by how many
+                emitters the color lights), sampled every {POWER_SAMPLE_STEP * 1000}ms over the song.
+              </p>
+            </div>
+
+            <button
+              onClick={() => setIsOpen(false)}
+              className="w-full px-4 py-2 rounded bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-border)] transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
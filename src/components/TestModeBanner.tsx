@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+import { useProjectStore } from '../store';
+import { getChaseIndex } from '../core';
+import { TEST_PATTERN_OPTIONS } from '../types';
+
+// Shown under the toolbar for as long as a channel test drives the actors, and runs its clock
+export default function TestModeBanner() {
+  const { actors, testMode, setTestMode, stopTestMode } = useProjectStore();
+  const isTimed = testMode?.pattern === 'chase' || testMode?.pattern === 'blink';
+
+  // Chase and blink advance with the wall clock, picking up where the test is now
+  useEffect(() => {
+    if (!isTimed) return;
+    const start = performance.now() - (useProjectStore.getState().testMode?.time ?? 0) * 1000;
+    let frame = requestAnimationFrame(function tick(now) {
+      setTestMode({ time: (now - start) / 1000 });
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isTimed, setTestMode]);
+
+  if (!testMode) return null;
+
+  const pattern = TEST_PATTERN_OPTIONS.find((opt) => opt.value === testMode.pattern)?.label;
+  const target = actors.find((a) => a.id === testMode.actorId);
+  let detail = '';
+  if (testMode.pattern === 'chase' && actors.length > 0) {
+    const index = getChaseIndex(testMode, actors.length);
+    detail = `${actors[index].label} (${index + 1}/${actors.length})`;
+  } else if (testMode.pattern === 'solo') {
+    detail = target?.label ?? 'no actor';
+  } else if (testMode.pattern === 'blink') {
+    detail = `${target?.label ?? 'all actors'} at ${testMode.rate}/s`;
+  }
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-1.5 bg-yellow-400 text-black text-sm">
+      <span className="font-semibold">Channel test</span>
+      <span>
+        {pattern}
+        {detail && ` — ${detail}`}
+      </span>
+      <span className="opacity-70">The timeline is ignored until the test stops.</span>
+      <button
+        onClick={stopTestMode}
+        className="ml-auto px-3 py-0.5 rounded bg-black/20 hover:bg-black/30 transition-colors"
+      >
+        Stop
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { useProjectStore } from '../store';
+import { TEST_PATTERN_OPTIONS, type TestModeState, type TestPattern } from '../types';
+
+type TestSettings = Omit<TestModeState, 'time'>;
+
+export default function TestModePanel() {
+  const { actors, ui, testMode, startTestMode, setTestMode, stopTestMode } = useProjectStore();
+  const [isOpen, setIsOpen] = useState(false);
+  // Settings for the next test, while none is running
+  const [draft, setDraft] = useState<TestSettings>({ pattern: 'chase', rate: 1, actorId: null });
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside it or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const settings: TestSettings = testMode ?? draft;
+  const update = (updates: Partial<TestSettings>) => {
+    if (testMode) setTestMode(updates);
+    else setDraft({ ...draft, ...updates });
+  };
+
+  // Picking a pattern starts the test; solo needs an actor, so it begins with the selected one
+  const handlePattern = (pattern: TestPattern) => {
+    const actorId = pattern === 'solo' && !settings.actorId ? (ui.selectedActorId ?? actors[0]?.id ?? null) : settings.actorId;
+    if (testMode) setTestMode({ pattern, actorId });
+    else startTestMode({ ...draft, pattern, actorId });
+  };
+
+  const inputClass = `w-full mt-1 px-2 py-1 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                      focus:border-[var(--color-accent)] outline-none disabled:opacity-50`;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={actors.length === 0}
+        className={`px-4 py-2 rounded bg-[var(--color-bg-tertiary)] border transition-colors text-sm
+                    hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                    disabled:opacity-50 disabled:cursor-not-allowed ${
+                      testMode ? 'border-yellow-400 text-yellow-400' : 'border-[var(--color-border)]'
+                    } ${isOpen ? 'text-[var(--color-accent)]' : ''}`}
+        title="Drive the actors directly to check each one is wired to the right prop"
+      >
+        Test
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-72 p-3 space-y-3
+                        bg-[var(--color-bg-secondary)] rounded-lg shadow-xl border border-[var(--color-border)] text-sm">
+          <div className="grid grid-cols-3 gap-1">
+            {TEST_PATTERN_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                onClick={() => handlePattern(opt.value)}
+                className={`px-2 py-1 rounded transition-colors ${
+                  testMode?.pattern === opt.value
+                    ? 'bg-[var(--color-accent)] text-white'
+                    : 'bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-border)]'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+          <label className="block text-[var(--color-text-secondary)]">
+            {settings.pattern === 'blink' ? 'Blinks per second' : 'Chase steps per second'}
+            <input
+              type="number"
+              min={0.25}
+              step={0.25}
+              value={settings.rate}
+              disabled={settings.pattern !== 'chase' && settings.pattern !== 'blink'}
+              onChange={(e) => {
+                const rate = parseFloat(e.target.value);
+                if (rate > 0) update({ rate });
+              }}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-[var(--color-text-secondary)]">
+            Actor
+            <select
+              value={settings.actorId ?? ''}
+              disabled={settings.pattern !== 'solo' && settings.pattern !== 'blink'}
+              onChange={(e) => update({ actorId: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">{settings.pattern === 'solo' ? 'None' : 'All actors'}</option>
+              {actors.map((actor) => (
+                <option key={actor.id} value={actor.id}>{actor.label}</option>
+              ))}
+            </select>
+          </label>
+          {testMode && (
+            <button
+              onClick={stopTestMode}
+              className="w-full px-3 py-1.5 rounded bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-border)] transition-colors"
+            >
+              Stop Test
+            </button>
+          )}
+          <p className="text-xs text-[var(--color-text-secondary)] opacity-70">
+            Ignores the timeline and drives the actors on the canvas and any live output. Chase lights
+            one actor at a time in timeline order.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,137 +1,151 @@
-import { useState } from 'react';
-import { useProjectStore, getActorValueAtTime } from '../store';
-import { GRIS_FILE_VERSION } from '../types';
-import type { GrisFile, ExportedCue } from '../types';
+import { useMemo, useState } from 'react';
+import { useProjectStore } from '../store';
+import {
+  createGrisFile,
+  getShowDuration,
+  generateCues,
+  getConstraintViolations,
+  getCircuitLoads,
+  getPowerOverloads,
+  estimateCueCount,
+  DEFAULT_TICK_RATE,
+  formatCues,
+  isSteppedActor,
+  createFseqFile,
+  getChannelMap,
+  getChannelCount,
+  formatOutputRange,
+  getFseqFrameCount,
+  FSEQ_COMPRESSION_OPTIONS,
+  FSEQ_STEP_TIME_OPTIONS,
+  createXlightsSequence,
+  createXlightsLayout,
+  createFirmwareHeader,
+  getFirmwareHeaderFilename,
+  getPinMap,
+  createMidiFile,
+  getMidiNote,
+  getMidiNoteName,
+  type FseqCompression,
+} from '../core';
+import HistoryPanel from './HistoryPanel';
+import PatchPanel from './PatchPanel';
+import PowerPanel from './PowerPanel';
+import LiveOutputPanel from './LiveOutputPanel';
+import TestModePanel from './TestModePanel';
 
 interface ToolbarProps {
   onHome: () => void;
 }
 
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 export default function Toolbar({ onHome }: ToolbarProps) {
   const { project, actors, backgrounds, markers, playback, setProject } = useProjectStore();
   const { undo, redo, pastStates, futureStates } = useProjectStore.temporal.getState();
   
   const [showExportModal, setShowExportModal] = useState(false);
-  const [tickRate, setTickRate] = useState(0.1); // Default 100ms
+  const [tickRate, setTickRate] = useState(DEFAULT_TICK_RATE);
+  const [exportFormat, setExportFormat] = useState<'cues' | 'fseq' | 'xlights' | 'firmware' | 'midi'>('cues');
+  const [stepTime, setStepTime] = useState(FSEQ_STEP_TIME_OPTIONS[0].value);
+  const [compression, setCompression] = useState<FseqCompression>('zstd');
+  const [isExporting, setIsExporting] = useState(false);
+  const [enforceConstraints, setEnforceConstraints] = useState(false);
 
   const canUndo = pastStates.length > 0;
   const canRedo = futureStates.length > 0;
 
   const handleExportGris = () => {
-    const data: GrisFile = {
-      version: GRIS_FILE_VERSION,
-      project,
-      actors,
-      backgrounds,
-      markers,
-    };
+    const data = createGrisFile(project, actors, backgrounds, markers, playback.duration);
     const json = JSON.stringify(data, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.name || 'project'}.gris`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${project.name || 'project'}.gris`);
   };
 
   const handleExportCues = () => {
     setShowExportModal(true);
   };
 
-  const generateCues = (): ExportedCue[] => {
-    const cues: ExportedCue[] = [];
-    const duration = playback.duration || 0;
-    
-    for (const actor of actors) {
-      if (actor.interpolation === 'step') {
-        // Step interpolation: only export keyframe times (value holds until next keyframe)
-        // Add initial state at t=0
-        cues.push({
-          t: 0,
-          id: actor.label,
-          state: getActorValueAtTime(actor, 0),
-        });
-        
-        // Add each keyframe
-        for (const kf of actor.keyframes) {
-          cues.push({
-            t: Math.round(kf.time * 1000) / 1000,
-            id: actor.label,
-            state: kf.value,
-          });
-        }
-      } else {
-        // Linear interpolation: need to generate values at tick rate intervals
-        if (duration === 0) {
-          // No audio - just export keyframes
-          cues.push({
-            t: 0,
-            id: actor.label,
-            state: getActorValueAtTime(actor, 0),
-          });
-          for (const kf of actor.keyframes) {
-            cues.push({
-              t: Math.round(kf.time * 1000) / 1000,
-              id: actor.label,
-              state: kf.value,
-            });
-          }
-        } else {
-          // Generate at tick rate for smooth interpolation
-          for (let t = 0; t <= duration; t += tickRate) {
-            const value = getActorValueAtTime(actor, t);
-            cues.push({
-              t: Math.round(t * 1000) / 1000,
-              id: actor.label,
-              state: Math.round(value * 1000) / 1000,
-            });
-          }
-        }
-      }
+  // Every export runs for the same length
+  const showDuration = getShowDuration(project, playback.duration);
+  // Shared by the exports built from cues
+  const cueOptions = { duration: showDuration, tickRate, enforceConstraints };
+  const usesCues = exportFormat === 'cues' || exportFormat === 'firmware' || exportFormat === 'midi';
+  const violations = showExportModal && usesCues ? getConstraintViolations(actors, cueOptions) : [];
+  const hasConstrainedActors = actors.some((a) => a.constraints);
+  const powerOverloads = useMemo(
+    () => (showExportModal ? getPowerOverloads(getCircuitLoads(actors, project.circuits ?? [], showDuration)) : []),
+    [showExportModal, actors, project.circuits, showDuration]
+  );
+
+  const handleDownloadCues = () => {
+    const cues = generateCues(actors, { ...cueOptions, controllers: project.controllers });
+    const json = formatCues(cues, 'json');
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${project.name || 'project'}-cues.json`);
+    setShowExportModal(false);
+  };
+
+  const handleDownloadFseq = async () => {
+    setIsExporting(true);
+    try {
+      const fseq = await createFseqFile(actors, {
+        duration: showDuration,
+        stepTime,
+        compression,
+        mediaFilename: project.songFilename || undefined,
+        controllers: project.controllers,
+      });
+      downloadBlob(
+        new Blob([fseq as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' }),
+        `${project.name || 'project'}.fseq`
+      );
+      setShowExportModal(false);
+    } catch (err) {
+      console.error('FSEQ export failed:', err);
+      alert('FSEQ export failed.');
+    } finally {
+      setIsExporting(false);
     }
-    
-    // Sort by time, then by id
-    cues.sort((a, b) => a.t - b.t || a.id.localeCompare(b.id));
-    
-    return cues;
   };
 
-  // Calculate estimated cue count for the modal
-  const getEstimatedCueCount = (): number => {
-    const duration = playback.duration || 0;
-    let count = 0;
-    
-    for (const actor of actors) {
-      if (actor.interpolation === 'step') {
-        // Step: 1 initial + number of keyframes
-        count += 1 + actor.keyframes.length;
-      } else {
-        // Linear: ticks over duration (or keyframes if no duration)
-        if (duration === 0) {
-          count += 1 + actor.keyframes.length;
-        } else {
-          count += Math.ceil(duration / tickRate) + 1;
-        }
-      }
+  const handleDownloadXlights = () => {
+    const options = { duration: showDuration, stepTime };
+    downloadBlob(
+      new Blob([createXlightsSequence(project, actors, options)], { type: 'application/xml' }),
+      `${project.name || 'project'}.xsq`
+    );
+    downloadBlob(new Blob([createXlightsLayout(project, actors)], { type: 'application/xml' }), 'xlights_rgbeffects.xml');
+    setShowExportModal(false);
+  };
+
+  const handleDownloadFirmware = () => {
+    let header: string;
+    try {
+      header = createFirmwareHeader(project, actors, cueOptions);
+    } catch (err) {
+      console.error('Arduino export failed:', err);
+      alert(`Arduino export failed: ${(err as Error).message}`);
+      return;
     }
-    
-    return count;
+    downloadBlob(new Blob([header], { type: 'text/x-c' }), getFirmwareHeaderFilename(project));
+    setShowExportModal(false);
   };
 
-  const handleDownloadCues = () => {
-    const cues = generateCues();
-    const json = JSON.stringify(cues, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.name || 'project'}-cues.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleDownloadMidi = () => {
+    const midi = createMidiFile(project, actors, cueOptions);
+    downloadBlob(new Blob([midi as Uint8Array<ArrayBuffer>], { type: 'audio/midi' }), `${project.name || 'project'}.mid`);
     setShowExportModal(false);
   };
 
+  const channelMap = getChannelMap(actors, project.controllers);
+  const pinMap = getPinMap(actors, project.controllers);
+
   const handleProjectNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setProject({ name: e.target.value });
   };
@@ -159,7 +173,7 @@ export default function Toolbar({ onHome }: ToolbarProps) {
           />
         </div>
 
-        {/* Center section - Undo/Redo */}
+        {/* Center section - Undo/Redo and history */}
         <div className="flex items-center gap-2">
           <button
             onClick={() => undo()}
@@ -183,10 +197,15 @@ export default function Toolbar({ onHome }: ToolbarProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2M21 10l-6 6m6-6l-6-6" />
             </svg>
           </button>
+          <HistoryPanel />
         </div>
 
         {/* Right section - Export buttons */}
         <div className="flex items-center gap-2">
+          <TestModePanel />
+          <LiveOutputPanel />
+          <PatchPanel />
+          <PowerPanel />
           <button
             onClick={handleExportCues}
             disabled={actors.length === 0}
@@ -195,7 +214,7 @@ export default function Toolbar({ onHome }: ToolbarProps) {
                        disabled:opacity-50 disabled:cursor-not-allowed
                        transition-colors text-sm"
           >
-            Export Cues
+            Export
           </button>
           <button
             onClick={handleExportGris}
@@ -211,39 +230,292 @@ export default function Toolbar({ onHome }: ToolbarProps) {
       {showExportModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-[var(--color-bg-secondary)] rounded-lg p-6 shadow-xl border border-[var(--color-border)] max-w-md w-full mx-4">
-            <h3 className="text-lg font-semibold mb-4">Export Cues</h3>
-            
-            <div className="mb-4">
-              <label className="block text-sm text-[var(--color-text-secondary)] mb-2">
-                Tick Rate (seconds)
-              </label>
-              <input
-                type="number"
-                min="0.001"
-                max="1"
-                step="0.001"
-                value={tickRate}
-                onChange={(e) => setTickRate(parseFloat(e.target.value) || 0.1)}
-                className="w-full px-3 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
-                           focus:border-[var(--color-accent)] outline-none"
-              />
-              <p className="text-xs text-[var(--color-text-secondary)] mt-1">
-                Smaller values = more precision, larger file size
-              </p>
-            </div>
+            <h3 className="text-lg font-semibold mb-4">Export</h3>
 
-            <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
-              <p className="text-sm text-[var(--color-text-secondary)]">
-                <strong>Actors:</strong> {actors.length} 
-                ({actors.filter(a => a.interpolation === 'step').length} step, {actors.filter(a => a.interpolation === 'linear').length} linear)<br />
-                <strong>Duration:</strong> {playback.duration.toFixed(2)}s<br />
-                <strong>Estimated cues:</strong> ~{getEstimatedCueCount()}
-              </p>
-              <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
-                Step actors export only keyframes. Linear actors export at tick rate.
-              </p>
+            <div className="flex mb-4 rounded border border-[var(--color-border)] overflow-hidden text-sm">
+              {([['cues', 'Cues (JSON)'], ['fseq', 'FSEQ'], ['xlights', 'xLights'], ['firmware', 'Arduino'], ['midi', 'MIDI']] as const).map(([format, label]) => (
+                <button
+                  key={format}
+                  onClick={() => setExportFormat(format)}
+                  className={`flex-1 px-3 py-1.5 transition-colors ${
+                    exportFormat === format
+                      ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)]'
+                      : 'bg-[var(--color-bg-tertiary)] hover:text-[var(--color-accent)]'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
-            
+
+            {exportFormat === 'cues' && (
+              <>
+                <div className="mb-4">
+                  <label className="block text-sm text-[var(--color-text-secondary)] mb-2">
+                    Tick Rate (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.001"
+                    max="1"
+                    step="0.001"
+                    value={tickRate}
+                    onChange={(e) => setTickRate(parseFloat(e.target.value) || DEFAULT_TICK_RATE)}
+                    className="w-full px-3 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                               focus:border-[var(--color-accent)] outline-none"
+                  />
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                    Smaller values = more precision, larger file size
+                  </p>
+                </div>
+
+                <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+                  <p className="text-sm text-[var(--color-text-secondary)]">
+                    <strong>Actors:</strong> {actors.length} 
+                    ({actors.filter(isSteppedActor).length} step, {actors.filter(a => !isSteppedActor(a)).length} interpolated)<br />
+                    <strong>Duration:</strong> {showDuration.toFixed(2)}s<br />
+                    <strong>Estimated cues:</strong> ~{estimateCueCount(actors, { duration: showDuration, tickRate })}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                    Step actors export only keyframes. Linear and eased actors export at tick rate.
+                    {actors.some(a => a.kind === 'rgb') && ' RGB actors include r, g, b per cue.'}
+                    {actors.some(a => a.channels.length > 0) && ' Channel lanes export as separate cues tagged with their channel name.'}
+                  </p>
+                </div>
+              </>
+            )}
+
+            {exportFormat === 'fseq' && (
+              <>
+                <div className="mb-4 grid grid-cols-2 gap-2">
+                  <label className="block text-sm text-[var(--color-text-secondary)]">
+                    Frame timing
+                    <select
+                      value={stepTime}
+                      onChange={(e) => setStepTime(parseInt(e.target.value))}
+                      className="w-full mt-1 px-2 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                                 focus:border-[var(--color-accent)] outline-none"
+                    >
+                      {FSEQ_STEP_TIME_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block text-sm text-[var(--color-text-secondary)]">
+                    Compression
+                    <select
+                      value={compression}
+                      onChange={(e) => setCompression(e.target.value as FseqCompression)}
+                      className="w-full mt-1 px-2 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                                 focus:border-[var(--color-accent)] outline-none"
+                    >
+                      {FSEQ_COMPRESSION_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="mb-4">
+                  <div className="text-sm text-[var(--color-text-secondary)] mb-1">Channels</div>
+                  <div className="max-h-48 overflow-y-auto rounded border border-[var(--color-border)] divide-y divide-[var(--color-border)]">
+                    {actors.map((actor) => {
+                      const lanes = channelMap.filter((m) => m.actor === actor);
+                      const first = lanes[0];
+                      const last = lanes[lanes.length - 1].start + lanes[lanes.length - 1].width - 1;
+                      return (
+                        <div key={actor.id} className="flex items-center gap-2 px-2 py-1 text-xs">
+                          <span className="flex-1 truncate">{actor.label}</span>
+                          <span className="text-[var(--color-text-secondary)]">
+                            {first.controller && first.address
+                              ? `${first.controller.name} ${formatOutputRange(first.controller, first.address, last - first.start + 1)}`
+                              : 'unpatched'}
+                          </span>
+                          <span className="w-20 text-right font-mono">
+                            {last > first.start ? `${first.start}-${last}` : first.start}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+                  <p className="text-sm text-[var(--color-text-secondary)]">
+                    <strong>Channels:</strong> {getChannelCount(channelMap)}<br />
+                    <strong>Frames:</strong> {getFseqFrameCount(actors, { duration: showDuration, stepTime })}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                    Each lane outputs 0-255 on one channel, or three (r, g, b) for RGB actors and color channels.
+                    Controllers follow each other in patch order, with unpatched actors after them. Set addresses under Patch.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {exportFormat === 'xlights' && (
+              <>
+                <div className="mb-4">
+                  <label className="block text-sm text-[var(--color-text-secondary)]">
+                    Sequence timing
+                    <select
+                      value={stepTime}
+                      onChange={(e) => setStepTime(parseInt(e.target.value))}
+                      className="w-full mt-1 px-2 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                                 focus:border-[var(--color-accent)] outline-none"
+                    >
+                      {FSEQ_STEP_TIME_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+                  <p className="text-sm text-[var(--color-text-secondary)]">
+                    <strong>Models:</strong> {actors.reduce((count, actor) => count + 1 + actor.channels.length, 0)}<br />
+                    <strong>Audio:</strong> {project.songFilename || 'none'}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                    Downloads a sequence (.xsq) and a layout (xlights_rgbeffects.xml) to merge into your show folder.
+                    Each actor becomes a poly line model tracing its shapes, and each channel lane a model of its own,
+                    with keyframes as On effects and effect clips sampled every frame.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {exportFormat === 'firmware' && (
+              <>
+                <div className="mb-4">
+                  <label className="block text-sm text-[var(--color-text-secondary)] mb-2">
+                    Tick Rate (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.001"
+                    max="1"
+                    step="0.001"
+                    value={tickRate}
+                    onChange={(e) => setTickRate(parseFloat(e.target.value) || DEFAULT_TICK_RATE)}
+                    className="w-full px-3 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                               focus:border-[var(--color-accent)] outline-none"
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <div className="text-sm text-[var(--color-text-secondary)] mb-1">Pins</div>
+                  <div className="max-h-48 overflow-y-auto rounded border border-[var(--color-border)] divide-y divide-[var(--color-border)]">
+                    {actors.map((actor) => (
+                      <div key={actor.id} className="flex items-center gap-2 px-2 py-1 text-xs">
+                        <span className="flex-1 truncate">{actor.label}</span>
+                        <span className="text-[var(--color-text-secondary)]">
+                          {isSteppedActor(actor) ? 'relay' : 'PWM'}
+                        </span>
+                        <span className="w-12 text-right font-mono">{pinMap.get(actor.id)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+                  <p className="text-sm text-[var(--color-text-secondary)]">
+                    <strong>Estimated events:</strong> up to ~{estimateCueCount(actors, { duration: showDuration, tickRate })}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                    A C++ header with a PROGMEM event table per actor and a player to call from loop().
+                    Step actors switch at their keyframes, smooth actors step at the tick rate. Only the main lane drives each pin.
+                    Actors patched to a pin controller use their address as the pin, the rest take the next free pin.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {exportFormat === 'midi' && (
+              <>
+                <div className="mb-4">
+                  <label className="block text-sm text-[var(--color-text-secondary)] mb-2">
+                    Controller Rate (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.001"
+                    max="1"
+                    step="0.001"
+                    value={tickRate}
+                    onChange={(e) => setTickRate(parseFloat(e.target.value) || DEFAULT_TICK_RATE)}
+                    className="w-full px-3 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                               focus:border-[var(--color-accent)] outline-none"
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <div className="text-sm text-[var(--color-text-secondary)] mb-1">Notes</div>
+                  <div className="max-h-48 overflow-y-auto rounded border border-[var(--color-border)] divide-y divide-[var(--color-border)]">
+                    {actors.map((actor, index) => (
+                      <div key={actor.id} className="flex items-center gap-2 px-2 py-1 text-xs">
+                        <span className="flex-1 truncate">{actor.label}</span>
+                        <span className="font-mono text-[var(--color-text-secondary)]">
+                          {getMidiNoteName(getMidiNote(index))} ({getMidiNote(index)})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+                  <p className="text-sm text-[var(--color-text-secondary)]">
+                    <strong>Tempo:</strong> {project.beatGrid ? `${project.beatGrid.bpm} BPM ${project.beatGrid.beatsPerBar}/4` : '120 BPM (no beat grid)'}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-2 opacity-70">
+                    Each actor gets a track and a note on channel 1. Step actors play notes with their level as velocity;
+                    smooth actors hold the note while lit and send their level on the controller with the note's number.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {powerOverloads.length > 0 && (
+              <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded text-sm">
+                <p className="text-xs text-red-400">
+                  {powerOverloads.length} circuit overload{powerOverloads.length === 1 ? '' : 's'} (see Power):
+                </p>
+                <ul className="text-xs text-[var(--color-text-secondary)] mt-1 max-h-24 overflow-y-auto">
+                  {powerOverloads.map((o) => (
+                    <li key={`${o.circuitId}-${o.start}`}>{o.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {usesCues && hasConstrainedActors && (
+              <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded text-sm">
+                <label className="flex items-center gap-2 text-[var(--color-text-secondary)]">
+                  <input
+                    type="checkbox"
+                    checked={enforceConstraints}
+                    onChange={(e) => setEnforceConstraints(e.target.checked)}
+                  />
+                  Fix output constraints (delay or drop switches a relay can't follow)
+                </label>
+                {violations.length === 0 ? (
+                  <p className="text-xs text-green-400 mt-2">Every constrained actor switches within its limits.</p>
+                ) : (
+                  <>
+                    <p className={`text-xs mt-2 ${enforceConstraints ? 'text-[var(--color-text-secondary)]' : 'text-red-400'}`}>
+                      {violations.length} switch{violations.length === 1 ? '' : 'es'} too fast
+                      {enforceConstraints ? ', fixed in the export:' : ', exported as they are:'}
+                    </p>
+                    <ul className="text-xs text-[var(--color-text-secondary)] mt-1 max-h-24 overflow-y-auto">
+                      {violations.map((v) => (
+                        <li key={`${v.actorId}-${v.kind}-${v.start}`}>{v.message}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+
             <div className="flex gap-2">
               <button
                 onClick={() => setShowExportModal(false)}
@@ -252,10 +524,18 @@ export default function Toolbar({ onHome }: ToolbarProps) {
                 Cancel
               </button>
               <button
-                onClick={handleDownloadCues}
-                className="flex-1 px-4 py-2 rounded bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-dim)] transition-colors"
+                onClick={
+                  exportFormat === 'cues' ? handleDownloadCues
+                    : exportFormat === 'fseq' ? handleDownloadFseq
+                      : exportFormat === 'xlights' ? handleDownloadXlights
+                        : exportFormat === 'firmware' ? handleDownloadFirmware
+                          : handleDownloadMidi
+                }
+                disabled={isExporting}
+                className="flex-1 px-4 py-2 rounded bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-dim)]
+                           disabled:opacity-50 transition-colors"
               >
-                Download
+                {isExporting ? 'Exporting…' : 'Download'}
               </button>
             </div>
           </div>
@@ -1,5 +1,6 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
-import { useProjectStore, getActorValueAtTime, interpolateColor } from '../../store';
+import { useProjectStore } from '../../store';
+import { getActorOutputAtTime, getTestActors, interpolateColor, rgbToCss, rgbToHex } from '../../core';
 import type { Polygon, RectanglePolygon, ArbitraryPolygon, Shape } from '../../types';
 
 interface DrawingState {
@@ -53,6 +54,7 @@ export default function CanvasPanel() {
     backgrounds, 
     playback,
     ui,
+    testMode,
     addBackground,
     selectActor,
     selectBackground,
@@ -171,18 +173,26 @@ export default function CanvasPanel() {
     }
     ctx.globalAlpha = 1; // Reset to full opacity for other elements
 
-    // Draw actor shapes
-    for (const actor of actors) {
+    // Draw actor shapes (as the channel test drives them while one is running)
+    for (const actor of testMode ? getTestActors(actors, testMode) : actors) {
       if (actor.shapes.length === 0) continue;
 
-      const value = getActorValueAtTime(actor, playback.currentTime);
+      const output = getActorOutputAtTime(actor, testMode ? 0 : playback.currentTime);
+      const { value } = output;
       const isSelected = ui.selectedActorId === actor.id;
       
+      // RGB actors paint their keyframed color directly instead of blending off/on
+      const actorColor = actor.kind === 'rgb' && output.color
+        ? rgbToCss(output.color)
+        : null;
+      
       // Draw all shapes for this actor
       let labelBounds: { centerX: number; centerY: number } | null = null;
       
       for (const shape of actor.shapes) {
-        const color = interpolateColor(shape.offColor, shape.onColor, value);
+        // A color channel replaces the shape's on color
+        const onColor = output.color ? rgbToHex(output.color) : shape.onColor;
+        const color = actorColor ?? interpolateColor(shape.offColor, onColor, value);
         
         ctx.fillStyle = color;
         ctx.strokeStyle = isSelected ? '#ff6b35' : '#ffffff';
@@ -196,6 +206,25 @@ export default function CanvasPanel() {
         }
       }
 
+      // Draw pan/tilt channels as a beam pointing out of the first shape
+      if (labelBounds && (output.pan !== null || output.tilt !== null)) {
+        const angle = (output.pan ?? 0.25) * Math.PI * 2 - Math.PI / 2;
+        const length = 40 + (output.tilt ?? 0.5) * 120;
+        ctx.save();
+        ctx.strokeStyle = output.color ? rgbToCss(output.color) : '#ffffff';
+        ctx.globalAlpha = 0.3 + value * 0.7;
+        ctx.lineWidth = 3;
+        ctx.setLineDash([8, 4]);
+        ctx.beginPath();
+        ctx.moveTo(labelBounds.centerX, labelBounds.centerY);
+        ctx.lineTo(
+          labelBounds.centerX + Math.cos(angle) * length,
+          labelBounds.centerY + Math.sin(angle) * length
+        );
+        ctx.stroke();
+        ctx.restore();
+      }
+
       // Draw actor label on first shape
       if (labelBounds) {
         ctx.fillStyle = '#ffffff';
@@ -257,7 +286,7 @@ export default function CanvasPanel() {
         ctx.stroke();
       }
     }
-  }, [project.canvasSize, backgrounds, actors, playback.currentTime, ui.selectedActorId, ui.selectedBackgroundId, ui.backgroundOpacity, ui.tool, drawingState]);
+  }, [project.canvasSize, backgrounds, actors, playback.currentTime, testMode, ui.selectedActorId, ui.selectedBackgroundId, ui.backgroundOpacity, ui.tool, drawingState]);
 
   // Redraw on state changes
   useEffect(() => {
@@ -800,61 +829,69 @@ export default function CanvasPanel() {
           </div>
           
           <div className="space-y-3">
-            {/* Off color */}
-            <div className="flex items-center gap-3">
-              <label className="text-xs text-[var(--color-text-secondary)] w-12">Off:</label>
-              <div className="flex items-center gap-2 flex-1">
-                <input
-                  type="color"
-                  value={selectedActor.shapes[0].offColor}
-                  onChange={(e) => handleColorChange('off', e.target.value)}
-                  className="w-8 h-8 rounded cursor-pointer border border-[var(--color-border)]"
-                />
-                <input
-                  type="text"
-                  value={selectedActor.shapes[0].offColor}
-                  onChange={(e) => handleColorChange('off', e.target.value)}
-                  className="flex-1 px-2 py-1 text-xs bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
-                />
-              </div>
-            </div>
+            {selectedActor.kind === 'rgb' ? (
+              <p className="text-xs text-[var(--color-text-secondary)]">
+                Colors come from this actor's RGB keyframes on the timeline.
+              </p>
+            ) : (
+              <>
+                {/* Off color */}
+                <div className="flex items-center gap-3">
+                  <label className="text-xs text-[var(--color-text-secondary)] w-12">Off:</label>
+                  <div className="flex items-center gap-2 flex-1">
+                    <input
+                      type="color"
+                      value={selectedActor.shapes[0].offColor}
+                      onChange={(e) => handleColorChange('off', e.target.value)}
+                      className="w-8 h-8 rounded cursor-pointer border border-[var(--color-border)]"
+                    />
+                    <input
+                      type="text"
+                      value={selectedActor.shapes[0].offColor}
+                      onChange={(e) => handleColorChange('off', e.target.value)}
+                      className="flex-1 px-2 py-1 text-xs bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
+                    />
+                  </div>
+                </div>
             
-            {/* On color */}
-            <div className="flex items-center gap-3">
-              <label className="text-xs text-[var(--color-text-secondary)] w-12">On:</label>
-              <div className="flex items-center gap-2 flex-1">
-                <input
-                  type="color"
-                  value={selectedActor.shapes[0].onColor}
-                  onChange={(e) => handleColorChange('on', e.target.value)}
-                  className="w-8 h-8 rounded cursor-pointer border border-[var(--color-border)]"
-                />
-                <input
-                  type="text"
-                  value={selectedActor.shapes[0].onColor}
-                  onChange={(e) => handleColorChange('on', e.target.value)}
-                  className="flex-1 px-2 py-1 text-xs bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
-                />
-              </div>
-            </div>
-
-            {/* Color preview */}
-            <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
-              <span className="text-xs text-[var(--color-text-secondary)]">Preview:</span>
-              <div 
-                className="w-8 h-8 rounded border border-[var(--color-border)]"
-                style={{ backgroundColor: selectedActor.shapes[0].offColor }}
-                title="Off state"
-              />
-              <svg className="w-4 h-4 text-[var(--color-text-secondary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
-              </svg>
-              <div 
-                className="w-8 h-8 rounded border border-[var(--color-border)]"
-                style={{ backgroundColor: selectedActor.shapes[0].onColor }}
-                title="On state"
-              />
-            </div>
+                {/* On color */}
+                <div className="flex items-center gap-3">
+                  <label className="text-xs text-[var(--color-text-secondary)] w-12">On:</label>
+                  <div className="flex items-center gap-2 flex-1">
+                    <input
+                      type="color"
+                      value={selectedActor.shapes[0].onColor}
+                      onChange={(e) => handleColorChange('on', e.target.value)}
+                      className="w-8 h-8 rounded cursor-pointer border border-[var(--color-border)]"
+                    />
+                    <input
+                      type="text"
+                      value={selectedActor.shapes[0].onColor}
+                      onChange={(e) => handleColorChange('on', e.target.value)}
+                      className="flex-1 px-2 py-1 text-xs bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]"
+                    />
+                  </div>
+                </div>
+
+                {/* Color preview */}
+                <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
+                  <span className="text-xs text-[var(--color-text-secondary)]">Preview:</span>
+                  <div 
+                    className="w-8 h-8 rounded border border-[var(--color-border)]"
+                    style={{ backgroundColor: selectedActor.shapes[0].offColor }}
+                    title="Off state"
+                  />
+                  <svg className="w-4 h-4 text-[var(--color-text-secondary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
+                  </svg>
+                  <div 
+                    className="w-8 h-8 rounded border border-[var(--color-border)]"
+                    style={{ backgroundColor: selectedActor.shapes[0].onColor }}
+                    title="On state"
+                  />
+                </div>
+              </>
+            )}
             
             {/* Remove all shapes button */}
             <button
@@ -1,26 +1,75 @@
-import { useCallback, useState, useRef, useEffect } from 'react';
-import { useProjectStore, getActorValueAtTime } from '../../store';
-import type { Actor, KeyFrame } from '../../types';
+import { useCallback, useState, useRef, useEffect, useMemo } from 'react';
+import { useProjectStore, snapTime, SNAP_DISTANCE_PX } from '../../store';
+import {
+  getActorValueAtTime,
+  getActorColorAtTime,
+  getSegmentCurve,
+  getKeyframeColor,
+  getColorBrightness,
+  parseHexColor,
+  rgbToHex,
+  rgbToCss,
+  getConstraintViolations,
+  DEFAULT_TICK_RATE,
+} from '../../core';
+import BezierEditor from './BezierEditor';
+import EffectClipEditor from './EffectClipEditor';
+import { INTERPOLATION_OPTIONS, EFFECT_TYPE_OPTIONS } from '../../types';
+import type {
+  Actor,
+  ActorChannel,
+  KeyframeLane,
+  KeyFrame,
+  KeyframeRef,
+  InterpolationType,
+  BezierCurve,
+  EffectClip,
+  EffectType,
+} from '../../types';
 
 interface ActorTrackProps {
   actor: Actor;
+  channel?: ActorChannel;  // Edit this channel lane instead of the actor's main keyframes
   width: number;
   zoom: number;
 }
 
 interface DragState {
   isDragging: boolean;
-  keyframeTime: number;
+  isGroup: boolean;  // Dragging the whole keyframe selection along with this keyframe
+  keyframeId: string;
   startX: number;
   originalTime: number;
 }
 
-export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
+interface EffectDragState {
+  effectId: string;
+  mode: 'move' | 'start' | 'end';  // Drag the whole clip or one of its edges
+  startX: number;
+  originalStart: number;
+  originalEnd: number;
+}
+
+// Length of a newly placed effect clip (seconds)
+const DEFAULT_EFFECT_LENGTH = 2;
+
+export default function ActorTrack({ actor, channel, width, zoom }: ActorTrackProps) {
   const { 
     ui, 
     selectActor, 
     addKeyframe, 
     removeKeyframe,
+    updateKeyframe,
+    moveKeyframes,
+    selectKeyframes,
+    toggleKeyframeSelection,
+    addEffect,
+    updateEffect,
+    removeEffect,
+    bakeEffect,
+    beginTransaction,
+    commitTransaction,
+    cancelTransaction,
     playback,
     seek,
   } = useProjectStore();
@@ -28,40 +77,62 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
   const trackRef = useRef<HTMLDivElement>(null);
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
-    keyframeTime: 0,
+    isGroup: false,
+    keyframeId: '',
     startX: 0,
     originalTime: 0,
   });
   const [editingKeyframe, setEditingKeyframe] = useState<KeyFrame | null>(null);
   const [editValue, setEditValue] = useState<string>('');
+  const [editColor, setEditColor] = useState<string>('#ffffff');
+  const [editInterpolation, setEditInterpolation] = useState<InterpolationType | ''>('');
+  const [editBezier, setEditBezier] = useState<BezierCurve | undefined>(undefined);
+  const [bezierAnchor, setBezierAnchor] = useState<{ x: number; y: number } | null>(null);
   const [hoverX, setHoverX] = useState<number | null>(null);
+  const [effectMenu, setEffectMenu] = useState<{ time: number; anchor: { x: number; y: number } } | null>(null);
+  const [editingEffect, setEditingEffect] = useState<{ id: string; anchor: { x: number; y: number } } | null>(null);
+  const [effectDrag, setEffectDrag] = useState<EffectDragState | null>(null);
 
   const isSelected = ui.selectedActorId === actor.id;
+  // The lane being edited: one of the actor's channels, or its main keyframes
+  const lane: KeyframeLane = channel ?? actor;
+  const channelId = channel?.id;
+  const isKeyframeSelected = (kf: KeyFrame) =>
+    ui.selectedKeyframes.some((r) => r.actorId === actor.id && r.channelId === channelId && r.keyframeId === kf.id);
+  const isColorActor = channel ? channel.type === 'color' : actor.kind === 'rgb';
   const playheadX = playback.currentTime * zoom;
+  // Switches the actor's prop can't follow, as the cue export would send them
+  const violations = useMemo(
+    () => (channel ? [] : getConstraintViolations([actor], { duration: playback.duration, tickRate: DEFAULT_TICK_RATE })),
+    [actor, channel, playback.duration]
+  );
   
   // Check if hovering near the playhead (within 15px)
   const ghostKeyframeThreshold = 15;
   const isNearPlayhead = hoverX !== null && Math.abs(hoverX - playheadX) < ghostKeyframeThreshold;
   
   // Check if there's already a keyframe at the current time (within small tolerance)
-  const hasKeyframeAtPlayhead = actor.keyframes.some(
+  const hasKeyframeAtPlayhead = lane.keyframes.some(
     kf => Math.abs(kf.time - playback.currentTime) < 0.01
   );
 
+  // Snap a time to the timeline's snap targets, unless Alt is held
+  const snap = useCallback((time: number, e: { altKey: boolean }) => {
+    if (e.altKey) return time;
+    return snapTime(time, useProjectStore.getState(), SNAP_DISTANCE_PX / zoom, { excludeActorId: actor.id });
+  }, [zoom, actor.id]);
+
   // Handle double-click to add keyframe
   const handleDoubleClick = useCallback((e: React.MouseEvent) => {
     if (editingKeyframe) return; // Don't add keyframe when editing
     
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
-    const time = Math.max(0, x / zoom);
+    const time = Math.max(0, snap(x / zoom, e));
     
     // Default to toggling between 0 and 1
-    const currentValue = getActorValueAtTime(actor, time);
-    const newValue = currentValue > 0.5 ? 0 : 1;
-    
-    addKeyframe(actor.id, { time, value: newValue });
-  }, [actor, zoom, addKeyframe, editingKeyframe]);
+    addKeyframe(actor.id, createToggledKeyframe(lane, time, isColorActor), channelId);
+  }, [lane, isColorActor, channelId, actor.id, zoom, addKeyframe, editingKeyframe, snap]);
 
   // Handle click to seek and select
   const handleClick = useCallback((e: React.MouseEvent) => {
@@ -71,7 +142,8 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
     const time = Math.max(0, x / zoom);
     seek(time);
     selectActor(actor.id);
-  }, [actor.id, selectActor, seek, zoom]);
+    if (!e.shiftKey) selectKeyframes([]);
+  }, [actor.id, selectActor, selectKeyframes, seek, zoom]);
 
   // Handle mouse move to track hover position
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -88,23 +160,27 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
   // Handle ghost keyframe click to add keyframe at playhead
   const handleGhostKeyframeClick = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
-    const currentValue = getActorValueAtTime(actor, playback.currentTime);
-    const newValue = currentValue > 0.5 ? 0 : 1;
-    addKeyframe(actor.id, { time: playback.currentTime, value: newValue });
-  }, [actor, playback.currentTime, addKeyframe]);
+    addKeyframe(actor.id, createToggledKeyframe(lane, playback.currentTime, isColorActor), channelId);
+  }, [lane, isColorActor, channelId, actor.id, playback.currentTime, addKeyframe]);
 
   // Handle keyframe mouse down for dragging
   const handleKeyframeMouseDown = useCallback((e: React.MouseEvent, keyframe: KeyFrame) => {
     e.stopPropagation();
     e.preventDefault();
+    if (e.button !== 0) return;
     
+    // The whole drag is one undo step
+    beginTransaction();
+    const { selectedKeyframes } = useProjectStore.getState().ui;
     setDragState({
       isDragging: true,
-      keyframeTime: keyframe.time,
+      isGroup: selectedKeyframes.length > 1 &&
+        selectedKeyframes.some((r) => r.actorId === actor.id && r.channelId === channelId && r.keyframeId === keyframe.id),
+      keyframeId: keyframe.id,
       startX: e.clientX,
       originalTime: keyframe.time,
     });
-  }, []);
+  }, [actor.id, channelId, beginTransaction]);
 
   // Handle mouse move for dragging
   useEffect(() => {
@@ -113,72 +189,205 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
     const handleMouseMove = (e: MouseEvent) => {
       const deltaX = e.clientX - dragState.startX;
       const deltaTime = deltaX / zoom;
-      const newTime = Math.max(0, Math.min(playback.duration, dragState.originalTime + deltaTime));
-      
-      // Update keyframe position
-      removeKeyframe(actor.id, dragState.keyframeTime);
-      const kf = actor.keyframes.find(k => k.time === dragState.keyframeTime);
-      if (kf) {
-        addKeyframe(actor.id, { time: newTime, value: kf.value });
+      const newTime = Math.max(0, Math.min(playback.duration, snap(dragState.originalTime + deltaTime, e)));
+
+      if (dragState.isGroup) {
+        // Shift every selected keyframe by however far this one moved since the last event
+        const kf = lane.keyframes.find(k => k.id === dragState.keyframeId);
+        if (kf && newTime !== kf.time) moveKeyframes(useProjectStore.getState().ui.selectedKeyframes, newTime - kf.time);
+        return;
       }
       
-      setDragState(prev => ({ ...prev, keyframeTime: newTime }));
+      // Update keyframe position
+      updateKeyframe(actor.id, dragState.keyframeId, { time: newTime }, channelId);
     };
 
+    const endDrag = () => setDragState({
+      isDragging: false,
+      isGroup: false,
+      keyframeId: '',
+      startX: 0,
+      originalTime: 0,
+    });
+
     const handleMouseUp = () => {
-      setDragState({
-        isDragging: false,
-        keyframeTime: 0,
-        startX: 0,
-        originalTime: 0,
-      });
+      commitTransaction();
+      endDrag();
+    };
+
+    // Escape puts everything back where the drag started
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      cancelTransaction();
+      endDrag();
     };
 
     window.addEventListener('mousemove', handleMouseMove);
     window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
 
     return () => {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [dragState.isDragging, dragState.startX, dragState.originalTime, dragState.keyframeTime, zoom, playback.duration, actor.id, actor.keyframes, removeKeyframe, addKeyframe]);
+  }, [dragState.isDragging, dragState.isGroup, dragState.startX, dragState.originalTime, dragState.keyframeId, zoom, playback.duration, actor.id, channelId, lane.keyframes, updateKeyframe, moveKeyframes, commitTransaction, cancelTransaction, snap]);
 
-  // Handle keyframe click to snap playhead to keyframe time
+  // Handle keyframe click to snap playhead to keyframe time (Shift-click toggles it in the selection)
   const handleKeyframeClick = useCallback((e: React.MouseEvent, keyframe: KeyFrame) => {
     e.stopPropagation();
+    const ref: KeyframeRef = { actorId: actor.id, channelId, keyframeId: keyframe.id };
+    if (e.shiftKey) {
+      toggleKeyframeSelection(ref);
+      return;
+    }
     seek(keyframe.time);
     selectActor(actor.id);
-  }, [seek, selectActor, actor.id]);
+    // Keep a multi-selection that was just dragged; otherwise select only this keyframe
+    const { selectedKeyframes } = useProjectStore.getState().ui;
+    const inSelection = selectedKeyframes.some((r) => r.actorId === ref.actorId && r.channelId === ref.channelId && r.keyframeId === ref.keyframeId);
+    if (!inSelection || selectedKeyframes.length <= 1) selectKeyframes([ref]);
+  }, [seek, selectActor, selectKeyframes, toggleKeyframeSelection, actor.id, channelId]);
 
   // Handle keyframe double-click to edit value
   const handleKeyframeDoubleClick = useCallback((e: React.MouseEvent, keyframe: KeyFrame) => {
     e.stopPropagation();
     setEditingKeyframe(keyframe);
     setEditValue(keyframe.value.toFixed(2));
+    setEditColor(rgbToHex(getKeyframeColor(keyframe)));
+    setEditInterpolation(keyframe.interpolation ?? '');
+    setEditBezier(keyframe.bezier);
   }, []);
 
   // Handle keyframe right-click to delete
   const handleKeyframeContextMenu = useCallback((e: React.MouseEvent, keyframe: KeyFrame) => {
     e.preventDefault();
     e.stopPropagation();
-    removeKeyframe(actor.id, keyframe.time);
-  }, [actor.id, removeKeyframe]);
+    removeKeyframe(actor.id, keyframe.id, channelId);
+  }, [actor.id, channelId, removeKeyframe]);
 
   // Handle value edit submit
   const handleValueSubmit = useCallback(() => {
     if (editingKeyframe) {
-      const newValue = Math.max(0, Math.min(1, parseFloat(editValue) || 0));
-      removeKeyframe(actor.id, editingKeyframe.time);
-      addKeyframe(actor.id, { time: editingKeyframe.time, value: newValue });
+      // Color keyframes carry their brightness as the scalar value
+      const color = isColorActor ? parseHexColor(editColor) : undefined;
+      const newValue = color
+        ? getColorBrightness(color)
+        : Math.max(0, Math.min(1, parseFloat(editValue) || 0));
+      updateKeyframe(actor.id, editingKeyframe.id, {
+        value: newValue,
+        color,
+        // Empty selection clears the override so the actor default applies
+        interpolation: editInterpolation || undefined,
+        bezier: editInterpolation === 'bezier' ? editBezier : undefined,
+      }, channelId);
       setEditingKeyframe(null);
+      setBezierAnchor(null);
     }
-  }, [editingKeyframe, editValue, actor.id, removeKeyframe, addKeyframe]);
+  }, [editingKeyframe, editValue, editColor, editInterpolation, editBezier, isColorActor, actor.id, channelId, updateKeyframe]);
+
+  const handleCloseBezierEditor = useCallback(() => setBezierAnchor(null), []);
+
+  // Right-click on the empty track to place an effect clip
+  const handleContextMenu = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = Math.max(0, snap((e.clientX - rect.left) / zoom, e));
+    setEffectMenu({ time, anchor: { x: e.clientX, y: e.clientY } });
+  }, [zoom, snap]);
+
+  const handleAddEffect = useCallback((type: EffectType) => {
+    if (!effectMenu) return;
+    const { time, anchor } = effectMenu;
+    const end = playback.duration > time
+      ? Math.min(playback.duration, time + DEFAULT_EFFECT_LENGTH)
+      : time + DEFAULT_EFFECT_LENGTH;
+    const id = addEffect(actor.id, type, time, end, channelId);
+    setEffectMenu(null);
+    setEditingEffect({ id, anchor });
+  }, [effectMenu, playback.duration, actor.id, channelId, addEffect]);
+
+  // Close the effect menu when clicking elsewhere
+  useEffect(() => {
+    if (!effectMenu) return;
+    const handleMouseDown = () => setEffectMenu(null);
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [effectMenu]);
+
+  const handleEffectMouseDown = useCallback((e: React.MouseEvent, clip: EffectClip, mode: EffectDragState['mode']) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    beginTransaction();
+    setEffectDrag({
+      effectId: clip.id,
+      mode,
+      startX: e.clientX,
+      originalStart: clip.start,
+      originalEnd: clip.end,
+    });
+  }, [beginTransaction]);
+
+  // Move or resize the dragged effect clip
+  useEffect(() => {
+    if (!effectDrag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const deltaTime = (e.clientX - effectDrag.startX) / zoom;
+      const { originalStart, originalEnd } = effectDrag;
+      const minLength = 0.05;
+
+      if (effectDrag.mode === 'move') {
+        const start = Math.max(0, snap(originalStart + deltaTime, e));
+        updateEffect(actor.id, effectDrag.effectId, { start, end: start + (originalEnd - originalStart) }, channelId);
+      } else if (effectDrag.mode === 'start') {
+        const start = Math.max(0, Math.min(originalEnd - minLength, snap(originalStart + deltaTime, e)));
+        updateEffect(actor.id, effectDrag.effectId, { start }, channelId);
+      } else {
+        const end = Math.max(originalStart + minLength, snap(originalEnd + deltaTime, e));
+        updateEffect(actor.id, effectDrag.effectId, { end }, channelId);
+      }
+    };
+
+    const handleMouseUp = () => {
+      commitTransaction();
+      setEffectDrag(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      cancelTransaction();
+      setEffectDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [effectDrag, zoom, actor.id, channelId, updateEffect, commitTransaction, cancelTransaction, snap]);
+
+  // A track unmounted mid-drag never sees the mouseup: put everything back rather than leave
+  // the drag's transaction open (a drag that ended has closed it already, so this does nothing)
+  const isDragging = dragState.isDragging || effectDrag !== null;
+  useEffect(() => {
+    if (!isDragging) return;
+    return () => cancelTransaction();
+  }, [isDragging, cancelTransaction]);
+
+  const handleCloseEffectEditor = useCallback(() => setEditingEffect(null), []);
+  const editedEffect = editingEffect ? lane.effects?.find((e) => e.id === editingEffect.id) : undefined;
 
   // Handle escape to cancel editing
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         setEditingKeyframe(null);
+        setBezierAnchor(null);
       } else if (e.key === 'Enter') {
         handleValueSubmit();
       }
@@ -192,43 +401,44 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
 
   // Draw value curve between keyframes
   const renderValueCurve = () => {
-    if (actor.keyframes.length === 0) return null;
+    if (lane.keyframes.length === 0) return null;
 
     const points: string[] = [];
     const height = 48;
     const valueToY = (value: number) => height - value * (height - 8);
     
     // Start from time 0
-    const startValue = getActorValueAtTime(actor, 0);
+    const startValue = getActorValueAtTime(lane, 0);
     points.push(`0,${valueToY(startValue)}`);
 
-    if (actor.interpolation === 'step') {
-      // Step interpolation: horizontal then vertical
-      let prevValue = startValue;
-      for (const kf of actor.keyframes) {
-        const x = kf.time * zoom;
-        // First: horizontal line to the new time at the OLD value
-        points.push(`${x},${valueToY(prevValue)}`);
-        // Then: vertical jump to the NEW value at the same time
-        points.push(`${x},${valueToY(kf.value)}`);
-        prevValue = kf.value;
+    // Each segment is drawn with the curve of the keyframe that starts it
+    lane.keyframes.forEach((kf, i) => {
+      const x = kf.time * zoom;
+      const prev = lane.keyframes[i - 1];
+      if (!prev) {
+        // Flat lead-in up to the first keyframe
+        points.push(`${x},${valueToY(startValue)}`);
+      } else if (kf.time > prev.time) {
+        const { interpolation } = getSegmentCurve(lane, prev);
+        if (interpolation === 'step') {
+          // Step: horizontal line at the OLD value, then vertical jump at the keyframe
+          points.push(`${x},${valueToY(prev.value)}`);
+        } else if (interpolation !== 'linear') {
+          // Eased: sample the curve roughly every 4px
+          const samples = Math.min(200, Math.max(8, Math.ceil((kf.time - prev.time) * zoom / 4)));
+          for (let s = 1; s < samples; s++) {
+            const time = prev.time + ((kf.time - prev.time) * s) / samples;
+            points.push(`${time * zoom},${valueToY(getActorValueAtTime(lane, time))}`);
+          }
+        }
       }
-      // End at track width
-      const endX = Math.max(width, (playback.duration || 0) * zoom);
-      points.push(`${endX},${valueToY(prevValue)}`);
-    } else {
-      // Linear interpolation: direct lines between keyframes
-      for (const kf of actor.keyframes) {
-        const x = kf.time * zoom;
-        points.push(`${x},${valueToY(kf.value)}`);
-      }
-      // End at track width
-      const endX = Math.max(width, (playback.duration || 0) * zoom);
-      const endValue = actor.keyframes.length > 0 
-        ? actor.keyframes[actor.keyframes.length - 1].value 
-        : 0;
-      points.push(`${endX},${valueToY(endValue)}`);
-    }
+      points.push(`${x},${valueToY(kf.value)}`);
+    });
+
+    // End at track width
+    const endX = Math.max(width, (playback.duration || 0) * zoom);
+    const endValue = lane.keyframes[lane.keyframes.length - 1].value;
+    points.push(`${endX},${valueToY(endValue)}`);
 
     return (
       <svg className="absolute inset-0 pointer-events-none" style={{ width: Math.max(width, (playback.duration || 0) * zoom), height }}>
@@ -243,6 +453,93 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
     );
   };
 
+  // Draw the live output of each effect clip over the lane
+  const renderEffectCurves = () => {
+    if (!lane.effects?.length) return null;
+
+    const height = 48;
+    const valueToY = (value: number) => height - value * (height - 8);
+    const endX = Math.max(width, (playback.duration || 0) * zoom);
+
+    return (
+      <svg className="absolute inset-0 pointer-events-none" style={{ width: endX, height }}>
+        {lane.effects.map((clip) => {
+          // Sample every 2px so strobes keep crisp edges
+          const samples = Math.min(2000, Math.max(2, Math.ceil((clip.end - clip.start) * zoom / 2)));
+          const points: string[] = [];
+          for (let s = 0; s <= samples; s++) {
+            const time = clip.start + ((clip.end - clip.start) * s) / samples;
+            // Evaluate just inside the end so the last point belongs to the clip
+            const value = getActorValueAtTime(lane, s === samples ? time - 1e-6 : time);
+            points.push(`${time * zoom},${valueToY(value)}`);
+          }
+          return (
+            <polyline
+              key={clip.id}
+              points={points.join(' ')}
+              fill="none"
+              stroke={getEffectColor(clip.type)}
+              strokeWidth="1.5"
+              opacity="0.8"
+            />
+          );
+        })}
+      </svg>
+    );
+  };
+
+  // Draw the blended color of an RGB actor as a strip behind its keyframes
+  const renderColorStrip = () => {
+    if (lane.keyframes.length === 0) return null;
+
+    const endX = Math.max(width, (playback.duration || 0) * zoom);
+    const stops: { x: number; color: string }[] = [];
+    const colorAt = (time: number) => rgbToCss(getActorColorAtTime(lane, time));
+
+    lane.keyframes.forEach((kf, i) => {
+      const x = kf.time * zoom;
+      const prev = lane.keyframes[i - 1];
+      if (prev && kf.time > prev.time) {
+        const { interpolation } = getSegmentCurve(lane, prev);
+        if (interpolation === 'step') {
+          // Hard edge: hold the old color right up to the keyframe
+          stops.push({ x, color: rgbToCss(getKeyframeColor(prev)) });
+        } else {
+          // Sample the blend roughly every 8px (HSV and eased blends aren't linear)
+          const samples = Math.min(100, Math.max(4, Math.ceil((kf.time - prev.time) * zoom / 8)));
+          for (let s = 1; s < samples; s++) {
+            const time = prev.time + ((kf.time - prev.time) * s) / samples;
+            stops.push({ x: time * zoom, color: colorAt(time) });
+          }
+        }
+      }
+      stops.push({ x, color: rgbToCss(getKeyframeColor(kf)) });
+    });
+
+    const gradientId = `color-strip-${channelId ?? actor.id}`;
+    return (
+      <svg className="absolute inset-0 pointer-events-none" style={{ width: endX, height: 48 }}>
+        <defs>
+          <linearGradient id={gradientId} gradientUnits="userSpaceOnUse" x1={0} y1={0} x2={endX} y2={0}>
+            {stops.map((stop, i) => (
+              <stop key={i} offset={endX > 0 ? stop.x / endX : 0} stopColor={stop.color} />
+            ))}
+          </linearGradient>
+        </defs>
+        <rect
+          x={0}
+          y={14}
+          width={endX}
+          height={20}
+          rx={3}
+          fill={`url(#${gradientId})`}
+          stroke={isSelected ? '#ff6b35' : 'none'}
+          opacity="0.85"
+        />
+      </svg>
+    );
+  };
+
   return (
     <div 
       ref={trackRef}
@@ -253,10 +550,60 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
       onDoubleClick={handleDoubleClick}
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}
-      style={{ cursor: dragState.isDragging ? 'grabbing' : 'pointer' }}
+      onContextMenu={handleContextMenu}
+      style={{ cursor: dragState.isDragging || effectDrag ? 'grabbing' : 'pointer' }}
     >
-      {/* Value curve */}
-      {renderValueCurve()}
+      {/* Value curve (color strip for RGB actors) */}
+      {isColorActor ? renderColorStrip() : renderValueCurve()}
+      {renderEffectCurves()}
+
+      {/* Output constraint violations */}
+      {violations.map((violation) => (
+        <div
+          key={`${violation.kind}-${violation.start}`}
+          className="absolute top-0 h-1.5 bg-red-500/80 z-10"
+          style={{ left: violation.start * zoom, width: Math.max(3, (violation.end - violation.start) * zoom) }}
+          title={violation.message}
+        />
+      ))}
+
+      {/* Effect clips */}
+      {lane.effects?.map((clip) => (
+        <div
+          key={clip.id}
+          className="absolute bottom-0 h-3 rounded-sm cursor-grab z-10 overflow-hidden"
+          style={{
+            left: clip.start * zoom,
+            width: Math.max(4, (clip.end - clip.start) * zoom),
+            backgroundColor: `${getEffectColor(clip.type)}55`,
+            border: `1px solid ${getEffectColor(clip.type)}`,
+          }}
+          onMouseDown={(e) => handleEffectMouseDown(e, clip, 'move')}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            setEditingEffect({ id: clip.id, anchor: { x: e.clientX, y: e.clientY + 12 } });
+          }}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            removeEffect(actor.id, clip.id, channelId);
+          }}
+          title={`${getEffectLabel(clip.type)}: ${clip.start.toFixed(2)}s - ${clip.end.toFixed(2)}s\nDouble-click to edit • Drag to move • Right-click to delete`}
+        >
+          <span className="absolute left-1.5 top-0 text-[8px] leading-[10px] text-white whitespace-nowrap pointer-events-none">
+            {getEffectLabel(clip.type)}
+          </span>
+          <div
+            className="absolute left-0 top-0 bottom-0 w-1 cursor-ew-resize"
+            onMouseDown={(e) => handleEffectMouseDown(e, clip, 'start')}
+          />
+          <div
+            className="absolute right-0 top-0 bottom-0 w-1 cursor-ew-resize"
+            onMouseDown={(e) => handleEffectMouseDown(e, clip, 'end')}
+          />
+        </div>
+      ))}
 
       {/* Ghost keyframe marker - shows when hovering near playhead and no keyframe exists there */}
       {isNearPlayhead && !hasKeyframeAtPlayhead && !dragState.isDragging && !editingKeyframe && (
@@ -286,12 +633,12 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
       )}
 
       {/* Keyframe markers */}
-      {actor.keyframes.map((kf, index) => (
+      {lane.keyframes.map((kf) => (
         <div
-          key={`${kf.time}-${index}`}
+          key={kf.id}
           className={`absolute top-1/2 -translate-y-1/2 cursor-grab
                      hover:scale-125 transition-transform z-20 ${
-                       dragState.isDragging && dragState.keyframeTime === kf.time ? 'scale-125' : ''
+                       dragState.isDragging && dragState.keyframeId === kf.id ? 'scale-125' : ''
                      }`}
           style={{
             left: kf.time * zoom - 8,
@@ -302,20 +649,22 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
           onClick={(e) => handleKeyframeClick(e, kf)}
           onDoubleClick={(e) => handleKeyframeDoubleClick(e, kf)}
           onContextMenu={(e) => handleKeyframeContextMenu(e, kf)}
-          title={`Time: ${kf.time.toFixed(2)}s\nValue: ${kf.value.toFixed(2)}\nClick to snap • Double-click to edit • Drag to move • Right-click to delete`}
+          title={`Time: ${kf.time.toFixed(2)}s\n${isColorActor ? `Color: ${rgbToHex(getKeyframeColor(kf))}` : `Value: ${kf.value.toFixed(2)}`}\nCurve: ${getInterpolationLabel(kf.interpolation ?? lane.interpolation)}${kf.interpolation ? '' : ' (actor default)'}\nClick to snap • Shift-click to select • Double-click to edit • Drag to move (hold Alt to skip snapping) • Right-click to delete`}
         >
           <div
             className="w-4 h-4 rounded-full"
             style={{
-              backgroundColor: `hsl(${120 * kf.value}, 70%, 45%)`,
-              border: '2px solid white',
-              boxShadow: '0 0 4px rgba(0,0,0,0.5)',
+              backgroundColor: isColorActor ? rgbToCss(getKeyframeColor(kf)) : `hsl(${120 * kf.value}, 70%, 45%)`,
+              // Keyframes that override the actor's curve get an accent ring
+              border: kf.interpolation ? '2px solid #ff6b35' : '2px solid white',
+              // Selected keyframes get a blue halo
+              boxShadow: isKeyframeSelected(kf) ? '0 0 0 2px #4a9eff, 0 0 8px rgba(74, 158, 255, 0.8)' : '0 0 4px rgba(0,0,0,0.5)',
             }}
           />
           
           {/* Value label */}
           <div className="absolute -top-5 left-1/2 -translate-x-1/2 text-[10px] text-[var(--color-text-secondary)] whitespace-nowrap">
-            {kf.value.toFixed(1)}
+            {isColorActor ? rgbToHex(getKeyframeColor(kf)) : kf.value.toFixed(1)}
           </div>
         </div>
       ))}
@@ -331,16 +680,51 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
           onClick={(e) => e.stopPropagation()}
         >
           <div className="flex items-center gap-2">
-            <input
-              type="number"
-              min="0"
-              max="1"
-              step="0.1"
-              value={editValue}
-              onChange={(e) => setEditValue(e.target.value)}
-              className="w-16 px-2 py-1 bg-[var(--color-bg-tertiary)] rounded text-sm border border-[var(--color-border)]"
-              autoFocus
-            />
+            {isColorActor ? (
+              <input
+                type="color"
+                value={editColor}
+                onChange={(e) => setEditColor(e.target.value)}
+                className="w-8 h-7 rounded cursor-pointer border border-[var(--color-border)]"
+                title="Keyframe color"
+              />
+            ) : (
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.1"
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                className="w-16 px-2 py-1 bg-[var(--color-bg-tertiary)] rounded text-sm border border-[var(--color-border)]"
+                autoFocus
+              />
+            )}
+            <select
+              value={editInterpolation}
+              onChange={(e) => setEditInterpolation(e.target.value as InterpolationType | '')}
+              className="px-1 py-1 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]"
+              title="Curve into the next keyframe"
+            >
+              <option value="">Default ({getInterpolationLabel(lane.interpolation)})</option>
+              {INTERPOLATION_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+            {editInterpolation === 'bezier' && (
+              <button
+                onClick={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setBezierAnchor({ x: rect.left, y: rect.bottom + 8 });
+                }}
+                className="px-2 py-1 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]"
+                title="Edit custom curve"
+              >
+                Curve…
+              </button>
+            )}
             <button
               onClick={handleValueSubmit}
               className="px-2 py-1 bg-[var(--color-accent)] text-white rounded text-xs"
@@ -351,14 +735,88 @@ export default function ActorTrack({ actor, width, zoom }: ActorTrackProps) {
         </div>
       )}
 
+      {/* Custom curve editor for the keyframe being edited */}
+      {editingKeyframe && bezierAnchor && (
+        <BezierEditor
+          value={editBezier ?? lane.bezier}
+          anchor={bezierAnchor}
+          onChange={setEditBezier}
+          onClose={handleCloseBezierEditor}
+        />
+      )}
+
+      {/* Menu for placing a new effect clip */}
+      {effectMenu && (
+        <div
+          className="fixed z-50 bg-[var(--color-bg-secondary)] rounded shadow-xl border border-[var(--color-border)] py-1"
+          style={{ left: effectMenu.anchor.x, top: effectMenu.anchor.y }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-3 py-1 text-[10px] text-[var(--color-text-secondary)]">
+            Add effect at {effectMenu.time.toFixed(2)}s
+          </div>
+          {EFFECT_TYPE_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => handleAddEffect(opt.value)}
+              className="w-full flex items-center gap-2 px-3 py-1 text-xs text-left hover:bg-[var(--color-bg-tertiary)]"
+            >
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: opt.color }} />
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Parameters of the effect clip being edited */}
+      {editingEffect && editedEffect && (
+        <EffectClipEditor
+          clip={editedEffect}
+          anchor={editingEffect.anchor}
+          onChange={(updates) => updateEffect(actor.id, editedEffect.id, updates, channelId)}
+          onBake={() => {
+            bakeEffect(actor.id, editedEffect.id, channelId);
+            setEditingEffect(null);
+          }}
+          onDelete={() => {
+            removeEffect(actor.id, editedEffect.id, channelId);
+            setEditingEffect(null);
+          }}
+          onClose={handleCloseEffectEditor}
+        />
+      )}
+
       {/* Empty state message */}
-      {actor.keyframes.length === 0 && !isNearPlayhead && (
+      {lane.keyframes.length === 0 && !lane.effects?.length && !isNearPlayhead && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <span className="text-xs text-[var(--color-text-secondary)] opacity-50">
-            Click to seek • Hover near playhead to add keyframe
+            Click to seek • Hover near playhead to add keyframe • Right-click to add an effect
           </span>
         </div>
       )}
     </div>
   );
 }
+
+// New keyframes toggle the lane between off and fully on (black/white for color lanes)
+function createToggledKeyframe(lane: KeyframeLane, time: number, isColor: boolean): Omit<KeyFrame, 'id'> {
+  const newValue = getActorValueAtTime(lane, time) > 0.5 ? 0 : 1;
+  if (isColor) {
+    const level = newValue * 255;
+    return { time, value: newValue, color: { r: level, g: level, b: level } };
+  }
+  return { time, value: newValue };
+}
+
+function getInterpolationLabel(interpolation: InterpolationType): string {
+  return INTERPOLATION_OPTIONS.find((opt) => opt.value === interpolation)?.label ?? interpolation;
+}
+
+function getEffectLabel(type: EffectType): string {
+  return EFFECT_TYPE_OPTIONS.find((opt) => opt.value === type)?.label ?? type;
+}
+
+function getEffectColor(type: EffectType): string {
+  return EFFECT_TYPE_OPTIONS.find((opt) => opt.value === type)?.color ?? '#9ca3af';
+}
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from 'react';
+import { cubicBezier } from '../../core';
+import { DEFAULT_BEZIER, type BezierCurve } from '../../types';
+
+interface BezierEditorProps {
+  value: BezierCurve | undefined;
+  anchor: { x: number; y: number };  // Screen position to open the popover at
+  onChange: (curve: BezierCurve) => void;
+  onClose: () => void;
+}
+
+const PRESETS: { label: string; curve: BezierCurve }[] = [
+  { label: 'Ease', curve: [0.25, 0.1, 0.25, 1] },
+  { label: 'Smooth', curve: [0.42, 0, 0.58, 1] },
+  { label: 'Snap', curve: [0.9, 0, 0.1, 1] },
+  { label: 'Overshoot', curve: [0.34, 1.56, 0.64, 1] },
+];
+
+// Preview box layout (curve drawn in the inner square, room above/below for overshoot)
+const SIZE = 140;
+const PAD = 30;
+const INNER = SIZE - PAD * 2;
+
+export default function BezierEditor({ value, anchor, onChange, onClose }: BezierEditorProps) {
+  const curve = value ?? DEFAULT_BEZIER;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const [draggingHandle, setDraggingHandle] = useState<0 | 1 | null>(null);
+
+  const toX = (x: number) => PAD + x * INNER;
+  const toY = (y: number) => PAD + (1 - y) * INNER;
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Drag control point handles
+  useEffect(() => {
+    if (draggingHandle === null) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const svg = svgRef.current;
+      if (!svg) return;
+      const rect = svg.getBoundingClientRect();
+      const x = Math.max(0, Math.min(1, (e.clientX - rect.left - PAD) / INNER));
+      const y = Math.max(-1, Math.min(2, 1 - (e.clientY - rect.top - PAD) / INNER));
+      const next: BezierCurve = [...curve];
+      next[draggingHandle * 2] = round(x);
+      next[draggingHandle * 2 + 1] = round(y);
+      onChange(next);
+    };
+
+    const handleMouseUp = () => setDraggingHandle(null);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [draggingHandle, curve, onChange]);
+
+  const handleInputChange = (index: number, raw: string) => {
+    const parsed = parseFloat(raw);
+    if (isNaN(parsed)) return;
+    // x values must stay within 0-1 for the curve to be a function of time
+    const clamped = index % 2 === 0 ? Math.max(0, Math.min(1, parsed)) : Math.max(-1, Math.min(2, parsed));
+    const next: BezierCurve = [...curve];
+    next[index] = clamped;
+    onChange(next);
+  };
+
+  // Sample the curve for the preview path
+  const pathPoints: string[] = [];
+  for (let i = 0; i <= 40; i++) {
+    const x = i / 40;
+    pathPoints.push(`${toX(x)},${toY(cubicBezier(curve[0], curve[1], curve[2], curve[3], x))}`);
+  }
+
+  return (
+    <div
+      ref={popoverRef}
+      className="fixed z-50 bg-[var(--color-bg-secondary)] rounded-lg shadow-xl border border-[var(--color-border)] p-3"
+      style={{ left: anchor.x, top: anchor.y }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="text-xs text-[var(--color-text-secondary)] mb-2">Custom curve</div>
+
+      <svg
+        ref={svgRef}
+        width={SIZE}
+        height={SIZE}
+        className="bg-[var(--color-bg-primary)] rounded select-none"
+      >
+        <rect x={PAD} y={PAD} width={INNER} height={INNER} fill="none" stroke="#2a2a3a" />
+        <line x1={toX(0)} y1={toY(0)} x2={toX(curve[0])} y2={toY(curve[1])} stroke="#9ca3af" strokeWidth="1" />
+        <line x1={toX(1)} y1={toY(1)} x2={toX(curve[2])} y2={toY(curve[3])} stroke="#9ca3af" strokeWidth="1" />
+        <polyline points={pathPoints.join(' ')} fill="none" stroke="#ff6b35" strokeWidth="2" />
+        {[0, 1].map((handle) => (
+          <circle
+            key={handle}
+            cx={toX(curve[handle * 2])}
+            cy={toY(curve[handle * 2 + 1])}
+            r={5}
+            fill="#4a9eff"
+            stroke="white"
+            strokeWidth="1.5"
+            className="cursor-move"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              setDraggingHandle(handle as 0 | 1);
+            }}
+          />
+        ))}
+      </svg>
+
+      <div className="grid grid-cols-4 gap-1 mt-2">
+        {curve.map((v, i) => (
+          <input
+            key={i}
+            type="number"
+            step="0.05"
+            value={v}
+            onChange={(e) => handleInputChange(i, e.target.value)}
+            className="w-full px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-[10px] border border-[var(--color-border)]"
+            title={['x1', 'y1', 'x2', 'y2'][i]}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => onChange(preset.curve)}
+            className="px-2 py-0.5 text-[10px] rounded bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-accent)] hover:text-white transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useProjectStore, withTransaction } from '../../store';
+import { seededRandom, parseHexColor, getColorBrightness } from '../../core';
+import type { Actor, KeyFrame } from '../../types';
+
+type ChaseDirection = 'forward' | 'reverse' | 'bounce' | 'random';
+
+const DIRECTION_OPTIONS: { value: ChaseDirection; label: string }[] = [
+  { value: 'forward', label: 'Forward' },
+  { value: 'reverse', label: 'Reverse' },
+  { value: 'bounce', label: 'Bounce' },
+  { value: 'random', label: 'Random' },
+];
+
+interface ChaseOptions {
+  start: number;       // seconds
+  end: number;         // seconds
+  step: number;        // seconds between one actor turning on and the next
+  overlap: number;     // 0-1, share of a step each actor stays on into the next one
+  direction: ChaseDirection;
+  seed: number;        // random direction only
+  onColor: string;     // hex, used for RGB actors
+}
+
+interface ChaseGeneratorModalProps {
+  actors: Actor[];  // Selected actors, in timeline order
+  onClose: () => void;
+}
+
+export default function ChaseGeneratorModal({ actors, onClose }: ChaseGeneratorModalProps) {
+  const { playback, addKeyframe, removeKeyframe } = useProjectStore();
+  const [options, setOptions] = useState<ChaseOptions>(() => {
+    const start = Math.round(playback.currentTime * 100) / 100;
+    return {
+      start,
+      end: playback.duration > start ? Math.min(playback.duration, start + 4) : start + 4,
+      step: 0.25,
+      overlap: 0,
+      direction: 'forward',
+      seed: Math.floor(Math.random() * 100000),
+      onColor: '#ffffff',
+    };
+  });
+  const [clearExisting, setClearExisting] = useState(true);
+
+  const isValid = actors.length > 0 && options.end > options.start && options.step > 0;
+  const stepCount = isValid ? Math.ceil((options.end - options.start) / options.step - 1e-9) : 0;
+
+  const setNumber = (key: 'start' | 'end' | 'step' | 'seed', raw: string) => {
+    const parsed = parseFloat(raw);
+    if (!isNaN(parsed)) setOptions((prev) => ({ ...prev, [key]: Math.max(0, parsed) }));
+  };
+
+  const handleGenerate = () => {
+    if (!isValid) return;
+    const chase = generateChase(actors, options);
+
+    withTransaction(`Generate chase across ${actors.length} actors`, () => {
+      actors.forEach((actor, i) => {
+        if (clearExisting) {
+          actor.keyframes
+            .filter((k) => k.time >= options.start && k.time <= options.end)
+            .forEach((k) => removeKeyframe(actor.id, k.id));
+        }
+        chase[i].forEach((kf) => addKeyframe(actor.id, kf));
+      });
+    });
+    onClose();
+  };
+
+  const inputClass = `w-full px-3 py-2 bg-[var(--color-bg-tertiary)] rounded border border-[var(--color-border)]
+                      focus:border-[var(--color-accent)] outline-none`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-[var(--color-bg-secondary)] rounded-lg p-6 shadow-xl border border-[var(--color-border)] max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold mb-4">Generate Chase</h3>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <label className="block text-sm text-[var(--color-text-secondary)]">
+            Start (s)
+            <input type="number" min="0" step="0.1" value={options.start}
+                   onChange={(e) => setNumber('start', e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className="block text-sm text-[var(--color-text-secondary)]">
+            End (s)
+            <input type="number" min="0" step="0.1" value={options.end}
+                   onChange={(e) => setNumber('end', e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className="block text-sm text-[var(--color-text-secondary)]">
+            Step (s)
+            <input type="number" min="0.01" step="0.05" value={options.step}
+                   onChange={(e) => setNumber('step', e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm text-[var(--color-text-secondary)] mb-2">
+            Overlap: {Math.round(options.overlap * 100)}% of a step
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="3"
+            step="0.05"
+            value={options.overlap}
+            onChange={(e) => setOptions((prev) => ({ ...prev, overlap: parseFloat(e.target.value) }))}
+            className="w-full"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <label className="block text-sm text-[var(--color-text-secondary)]">
+            Direction
+            <select
+              value={options.direction}
+              onChange={(e) => setOptions((prev) => ({ ...prev, direction: e.target.value as ChaseDirection }))}
+              className={`${inputClass} mt-1`}
+            >
+              {DIRECTION_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {options.direction === 'random' && (
+            <label className="block text-sm text-[var(--color-text-secondary)]">
+              Seed
+              <input type="number" min="0" step="1" value={options.seed}
+                     onChange={(e) => setNumber('seed', e.target.value)} className={`${inputClass} mt-1`} />
+            </label>
+          )}
+        </div>
+
+        {actors.some((a) => a.kind === 'rgb') && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+            <input
+              type="color"
+              value={options.onColor}
+              onChange={(e) => setOptions((prev) => ({ ...prev, onColor: e.target.value }))}
+              className="w-8 h-7 rounded cursor-pointer border border-[var(--color-border)]"
+            />
+            On color for RGB actors
+          </div>
+        )}
+
+        <label className="mb-4 flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+          <input type="checkbox" checked={clearExisting} onChange={(e) => setClearExisting(e.target.checked)} />
+          Replace existing keyframes in the range
+        </label>
+
+        <div className="mb-4 p-3 bg-[var(--color-bg-tertiary)] rounded">
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            <strong>Order:</strong> {actors.map((a) => a.label).join(' → ')}<br />
+            <strong>Steps:</strong> {stepCount}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 rounded bg-[var(--color-bg-tertiary)] hover:bg-[var(--color-border)] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={!isValid}
+            className="flex-1 px-4 py-2 rounded bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-dim)] transition-colors
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Build the keyframes for each actor (same order as `actors`): every step turns the next
+ * actor in the sequence on, and it stays on for one step plus the overlap
+ */
+function generateChase(actors: Actor[], options: ChaseOptions): Omit<KeyFrame, 'id'>[][] {
+  const { start, end, step, overlap, direction, seed } = options;
+  const count = actors.length;
+  const stepCount = Math.ceil((end - start) / step - 1e-9);
+  const round = (t: number) => Math.round(t * 1000) / 1000;
+
+  // Which actor each step lights
+  const order: number[] = [];
+  for (let k = 0; k < stepCount; k++) {
+    if (direction === 'forward') {
+      order.push(k % count);
+    } else if (direction === 'reverse') {
+      order.push(count - 1 - (k % count));
+    } else if (direction === 'bounce') {
+      // 0, 1, ..., n-1, n-2, ..., 1, 0, ... without repeating the ends
+      const period = Math.max(1, 2 * count - 2);
+      const p = k % period;
+      order.push(p < count ? p : period - p);
+    } else {
+      let next = Math.floor(seededRandom(seed, k) * count);
+      // Never light the same actor twice in a row
+      if (count > 1 && next === order[k - 1]) next = (next + 1) % count;
+      order.push(next);
+    }
+  }
+
+  // On/off intervals per actor, merged where they touch
+  const intervals: { on: number; off: number }[][] = actors.map(() => []);
+  order.forEach((index, k) => {
+    const on = start + k * step;
+    const off = Math.min(end, on + step * (1 + overlap));
+    const list = intervals[index];
+    const last = list[list.length - 1];
+    if (last && on <= last.off) last.off = Math.max(last.off, off);
+    else list.push({ on, off });
+  });
+
+  const onColor = parseHexColor(options.onColor);
+  return actors.map((actor, i) => {
+    const isColor = actor.kind === 'rgb';
+    const keyframe = (time: number, on: boolean): Omit<KeyFrame, 'id'> => ({
+      time: round(time),
+      value: on ? (isColor ? getColorBrightness(onColor) : 1) : 0,
+      // Chases snap regardless of the actor's default curve
+      interpolation: 'step',
+      ...(isColor ? { color: on ? onColor : { r: 0, g: 0, b: 0 } } : {}),
+    });
+
+    // Start every actor dark, then switch on and off for each interval
+    const byTime = new Map<number, Omit<KeyFrame, 'id'>>();
+    byTime.set(round(start), keyframe(start, false));
+    for (const { on, off } of intervals[i]) {
+      byTime.set(round(on), keyframe(on, true));
+      byTime.set(round(off), keyframe(off, false));
+    }
+    return [...byTime.values()].sort((a, b) => a.time - b.time);
+  });
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import { EFFECT_TYPE_OPTIONS, type EffectClip, type EffectType } from '../../types';
+
+interface EffectClipEditorProps {
+  clip: EffectClip;
+  anchor: { x: number; y: number };  // Screen position to open the popover at
+  onChange: (updates: Partial<Omit<EffectClip, 'id'>>) => void;
+  onBake: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// Numeric clip parameters, in display order
+const FIELDS: { key: keyof EffectClip; label: string; min: number; max?: number; step: number; title: string }[] = [
+  { key: 'start', label: 'Start', min: 0, step: 0.1, title: 'Clip start (seconds)' },
+  { key: 'end', label: 'End', min: 0, step: 0.1, title: 'Clip end (seconds)' },
+  { key: 'rate', label: 'Rate', min: 0, step: 0.5, title: 'Cycles per second' },
+  { key: 'dutyCycle', label: 'Duty', min: 0, max: 1, step: 0.05, title: 'Share of each cycle spent on (twinkle: chance to sparkle)' },
+  { key: 'phase', label: 'Phase', min: 0, max: 1, step: 0.05, title: 'Offset into the cycle (0-1)' },
+  { key: 'seed', label: 'Seed', min: 0, step: 1, title: 'Random seed for twinkle' },
+  { key: 'low', label: 'Low', min: 0, max: 1, step: 0.1, title: 'Output at the bottom of the pattern' },
+  { key: 'high', label: 'High', min: 0, max: 1, step: 0.1, title: 'Output at the top of the pattern' },
+];
+
+export default function EffectClipEditor({ clip, anchor, onChange, onBake, onDelete, onClose }: EffectClipEditorProps) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const handleFieldChange = (field: (typeof FIELDS)[number], raw: string) => {
+    const parsed = parseFloat(raw);
+    if (isNaN(parsed)) return;
+    let value = Math.max(field.min, field.max !== undefined ? Math.min(field.max, parsed) : parsed);
+    if (field.key === 'seed') value = Math.round(value);
+    // Keep the clip at least a frame long
+    if (field.key === 'start') value = Math.min(value, clip.end - 0.05);
+    if (field.key === 'end') value = Math.max(value, clip.start + 0.05);
+    onChange({ [field.key]: value });
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      className="fixed z-50 bg-[var(--color-bg-secondary)] rounded-lg shadow-xl border border-[var(--color-border)] p-3 w-56"
+      style={{ left: anchor.x, top: anchor.y }}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <select
+        value={clip.type}
+        onChange={(e) => onChange({ type: e.target.value as EffectType })}
+        className="w-full px-1 py-1 mb-2 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]"
+      >
+        {EFFECT_TYPE_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+        {FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-1 text-[10px] text-[var(--color-text-secondary)]" title={field.title}>
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={clip[field.key]}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className="w-14 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-[10px] text-[var(--color-text-primary)] border border-[var(--color-border)]"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-1 mt-3">
+        <button
+          onClick={onBake}
+          className="flex-1 px-2 py-1 text-xs rounded bg-[var(--color-accent)] text-white"
+          title="Replace the clip with keyframes"
+        >
+          Bake to keyframes
+        </button>
+        <button
+          onClick={onDelete}
+          className="px-2 py-1 text-xs rounded bg-[var(--color-bg-tertiary)] hover:bg-red-500/20 hover:text-red-400 transition-colors"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useRef } from 'react';
+import { useProjectStore, withTransaction } from '../../store';
+import { parseMidiFile, parseCueFile, cuesToKeyframes, getChannelMap, getOutputAddress, type ChannelAssignment } from '../../core';
+import { CHANNEL_TYPE_OPTIONS, type ChannelType, type ExportedCue, type InterpolationType, type KeyFrame } from '../../types';
+
+// Keyframes for one lane, found by its patched address or by actor label and channel name
+interface ImportLane {
+  label: string;
+  channel?: string;
+  output?: Pick<ExportedCue, 'controller' | 'universe' | 'address'>;
+  isColor: boolean;
+  interpolation: InterpolationType;
+  keyframes: Omit<KeyFrame, 'id'>[];
+}
+
+export default function ImportButton() {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const readLanes = async (file: File): Promise<ImportLane[]> => {
+    if (/\.midi?$/i.test(file.name)) {
+      return parseMidiFile(new Uint8Array(await file.arrayBuffer())).map((track) => ({
+        label: track.name,
+        isColor: false,
+        interpolation: track.interpolation,
+        keyframes: track.keyframes,
+      }));
+    }
+    return cuesToKeyframes(parseCueFile(await file.text())).map(({ id, ...lane }) => ({ label: id, ...lane }));
+  };
+
+  // Each lane lands on the actor (and channel) with its name, or a new one
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const lanes = await readLanes(file);
+      if (lanes.length === 0) {
+        alert(`${file.name} has nothing to import.`);
+        return;
+      }
+
+      withTransaction(`Import ${file.name}`, () => {
+        const { addActor, updateActor, addChannel, updateChannel, addKeyframes } = useProjectStore.getState();
+        for (const lane of lanes) {
+          // A lane patched where the cues say keeps matching after its actor is renamed
+          const patched = lane.output && findPatchedLane(lane.output);
+          const channelName = patched ? patched.channel : lane.channel;
+          const findActor = () =>
+            useProjectStore.getState().actors.find((a) => (patched ? a.id === patched.actor.id : a.label === lane.label));
+          let actor = findActor();
+          if (!actor) {
+            const id = addActor(lane.label, lane.isColor && lane.channel === undefined ? 'rgb' : 'scalar');
+            updateActor(id, { interpolation: lane.interpolation });
+            actor = findActor()!;
+          }
+
+          let channelId: string | undefined;
+          let interpolation = actor.interpolation;
+          if (channelName !== undefined) {
+            let channel = actor.channels.find((c) => c.name === channelName);
+            if (!channel) {
+              const id = addChannel(actor.id, channelName, lane.isColor ? 'color' : getChannelType(channelName));
+              updateChannel(actor.id, id, { interpolation: lane.interpolation });
+              channel = findActor()!.channels.find((c) => c.id === id)!;
+            }
+            channelId = channel.id;
+            interpolation = channel.interpolation;
+          }
+
+          // Lanes that already had another curve keep it, the imported keyframes carry their own
+          const curve = interpolation === lane.interpolation ? {} : { interpolation: lane.interpolation };
+          addKeyframes(actor.id, lane.keyframes.map((keyframe) => ({ ...keyframe, ...curve })), channelId);
+        }
+      });
+    } catch (err) {
+      console.error('Import failed:', err);
+      alert(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="px-3 py-1 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                   hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                   transition-colors text-sm"
+        title="Add keyframes from a MIDI file or cue list (lanes matching an actor's name go onto that actor)"
+      >
+        Import…
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".mid,.midi,audio/midi,.json,.ndjson,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </>
+  );
+}
+
+// The lane sitting at a controller, universe and address in the current patch
+function findPatchedLane(output: NonNullable<ImportLane['output']>): ChannelAssignment | undefined {
+  const { actors, project } = useProjectStore.getState();
+  return getChannelMap(actors, project.controllers).find(({ controller, address }) => {
+    if (!controller || !address || controller.name !== output.controller) return false;
+    const patched = getOutputAddress(controller, address);
+    return patched.universe === output.universe && patched.address === output.address;
+  });
+}
+
+// Channel type from a name like "Pan" or "Strobe 2", generic if nothing matches
+function getChannelType(name: string): ChannelType {
+  const lower = name.toLowerCase();
+  return CHANNEL_TYPE_OPTIONS.find((opt) => opt.value !== 'generic' && lower.includes(opt.value))?.value ?? 'generic';
+}
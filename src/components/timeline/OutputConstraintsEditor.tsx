@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+import type { OutputConstraints } from '../../types';
+
+interface OutputConstraintsEditorProps {
+  value: OutputConstraints | undefined;
+  anchor: { x: number; y: number };  // Screen position to open the popover at
+  onChange: (constraints: OutputConstraints | undefined) => void;
+  onClose: () => void;
+}
+
+// Numeric limits, in display order (0 means no limit)
+const FIELDS: { key: Exclude<keyof OutputConstraints, 'binary'>; label: string; max?: number; step: number; title: string }[] = [
+  { key: 'threshold', label: 'Threshold', max: 1, step: 0.05, title: 'Level at or above which the prop is on (default 0.5)' },
+  { key: 'minOnTime', label: 'Min on', step: 0.05, title: 'Seconds the prop stays on once switched on' },
+  { key: 'minOffTime', label: 'Min off', step: 0.05, title: 'Seconds the prop stays off once switched off' },
+  { key: 'maxSwitchRate', label: 'Max rate', step: 0.5, title: 'Switches per second, at most' },
+];
+
+export default function OutputConstraintsEditor({ value = {}, anchor, onChange, onClose }: OutputConstraintsEditorProps) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Unset limits are left out, so an actor without any has no constraints at all
+  const update = (updates: Partial<OutputConstraints>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...value, ...updates }).filter(([, v]) => v !== undefined && v !== false && v !== 0)
+    ) as OutputConstraints;
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const handleFieldChange = (field: (typeof FIELDS)[number], raw: string) => {
+    const parsed = parseFloat(raw);
+    if (raw === '') return update({ [field.key]: undefined });
+    if (isNaN(parsed)) return;
+    update({ [field.key]: Math.max(0, field.max !== undefined ? Math.min(field.max, parsed) : parsed) });
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      className="fixed z-50 bg-[var(--color-bg-secondary)] rounded-lg shadow-xl border border-[var(--color-border)] p-3 w-56"
+      style={{ left: anchor.x, top: anchor.y }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <p className="text-xs font-semibold mb-2">Output constraints</p>
+      <label className="flex items-center gap-2 mb-2 text-[10px] text-[var(--color-text-secondary)]" title="Export only full on and off">
+        <input type="checkbox" checked={!!value.binary} onChange={(e) => update({ binary: e.target.checked })} />
+        On/off only
+      </label>
+
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+        {FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-1 text-[10px] text-[var(--color-text-secondary)]" title={field.title}>
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              max={field.max}
+              step={field.step}
+              value={value[field.key] ?? ''}
+              placeholder={field.key === 'threshold' ? '0.5' : '–'}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className="w-12 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-[10px] text-[var(--color-text-primary)] border border-[var(--color-border)]"
+            />
+          </label>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-[var(--color-text-secondary)] opacity-70 mt-2">
+        Switches that come too soon are marked red on the track. The export can delay or drop them.
+      </p>
+    </div>
+  );
+}
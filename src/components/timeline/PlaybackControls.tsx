@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { useProjectStore } from '../../store';
+import { formatTime, formatMusicalTime } from '../../utils/time';
 
 export default function PlaybackControls() {
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -11,12 +12,15 @@ export default function PlaybackControls() {
   const audioLatencyRef = useRef<number>(0);
 
   const { 
+    project,
     playback, 
+    ui,
     audioBuffer,
     play, 
     pause, 
     seek, 
     setPlayback,
+    setUI,
   } = useProjectStore();
 
   // Keep refs in sync with state
@@ -147,12 +151,11 @@ export default function PlaybackControls() {
     seek(playback.duration);
   };
 
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 100);
-    return `${mins}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
-  };
+  // Bars:beats:ticks once the project has a tempo and the musical display is chosen
+  const { beatGrid } = project;
+  const showMusicalTime = ui.timeDisplay === 'musical' && !!beatGrid;
+  const formatReadout = (seconds: number) =>
+    showMusicalTime && beatGrid ? formatMusicalTime(seconds, beatGrid) : formatTime(seconds, 2);
 
   return (
     <div className="flex items-center gap-2">
@@ -229,16 +232,21 @@ export default function PlaybackControls() {
         </svg>
       </button>
 
-      {/* Time display */}
-      <div className="ml-4 font-mono text-sm">
+      {/* Time display (click to switch between clock and bars:beats:ticks) */}
+      <button
+        onClick={() => setUI({ timeDisplay: ui.timeDisplay === 'musical' ? 'clock' : 'musical' })}
+        disabled={!beatGrid}
+        className="ml-4 font-mono text-sm text-left disabled:cursor-default"
+        title={beatGrid ? 'Click to switch between minutes:seconds and bars:beats:ticks' : undefined}
+      >
         <span className="text-[var(--color-text-primary)]">
-          {formatTime(playback.currentTime)}
+          {formatReadout(playback.currentTime)}
         </span>
         <span className="text-[var(--color-text-secondary)] mx-1">/</span>
         <span className="text-[var(--color-text-secondary)]">
-          {formatTime(playback.duration)}
+          {formatReadout(playback.duration)}
         </span>
-      </div>
+      </button>
     </div>
   );
 }
@@ -0,0 +1,46 @@
+import type { CircuitLoad, PowerOverload } from '../../core';
+import { POWER_SAMPLE_STEP } from '../../core';
+
+interface PowerTrackProps {
+  loads: CircuitLoad[];
+  overloads: PowerOverload[];
+  colors: string[];  // Curve color of each circuit, cycled
+  width: number;
+  zoom: number;
+}
+
+const POWER_TRACK_HEIGHT = 48;
+// Curves are drawn as a share of their circuit's limit, up to this much over it
+const MAX_SHARE = 1.25;
+
+// Each circuit's load over the show, against its limit, with overloads marked red
+export default function PowerTrack({ loads, overloads, colors, width, zoom }: PowerTrackProps) {
+  const shareToY = (share: number) => POWER_TRACK_HEIGHT - 2 - (Math.min(share, MAX_SHARE) / MAX_SHARE) * (POWER_TRACK_HEIGHT - 4);
+
+  return (
+    <div className="h-full relative bg-[var(--color-bg-primary)]">
+      {overloads.map((overload) => (
+        <div
+          key={`${overload.circuitId}-${overload.start}`}
+          className="absolute top-0 bottom-0 bg-red-500/25 border-x border-red-500/60"
+          style={{ left: overload.start * zoom, width: Math.max(2, (overload.end - overload.start) * zoom) }}
+          title={overload.message}
+        />
+      ))}
+
+      <svg className="absolute inset-0 pointer-events-none" width={width} height={POWER_TRACK_HEIGHT}>
+        {/* Every circuit's limit */}
+        <line x1={0} x2={width} y1={shareToY(1)} y2={shareToY(1)} stroke="#ef4444" strokeDasharray="4 4" strokeOpacity={0.6} />
+        {loads.map(({ circuit, watts }, index) => (
+          <polyline
+            key={circuit.id}
+            points={watts.map((load, i) => `${i * POWER_SAMPLE_STEP * zoom},${shareToY(load / circuit.maxWatts)}`).join(' ')}
+            fill="none"
+            stroke={colors[index % colors.length]}
+            strokeWidth={1.5}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import { useProjectStore } from '../../store';
+import { SNAP_TARGET_OPTIONS, type SnapSettings, type SnapTarget } from '../../types';
+
+const BEAT_DIVISION_OPTIONS = [
+  { value: 1, label: '1/4' },
+  { value: 2, label: '1/8' },
+  { value: 4, label: '1/16' },
+];
+
+export default function SnapControls() {
+  const { ui, project, setUI } = useProjectStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { snap } = ui;
+
+  // Close the settings menu when clicking outside it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const updateSnap = (updates: Partial<SnapSettings>) => setUI({ snap: { ...snap, ...updates } });
+
+  const toggleTarget = (target: SnapTarget) => {
+    updateSnap({
+      targets: snap.targets.includes(target)
+        ? snap.targets.filter((t) => t !== target)
+        : [...snap.targets, target],
+    });
+  };
+
+  return (
+    <div ref={menuRef} className="relative flex items-center">
+      <button
+        onClick={() => updateSnap({ enabled: !snap.enabled })}
+        className={`px-2 py-1 rounded-l border border-[var(--color-border)] text-sm transition-colors ${
+          snap.enabled
+            ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)] border-[var(--color-accent)]'
+            : 'bg-[var(--color-bg-tertiary)] hover:text-[var(--color-accent)]'
+        }`}
+        title={`Snapping ${snap.enabled ? 'on' : 'off'} (hold Alt while dragging to bypass)`}
+      >
+        Snap
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-1 py-1 rounded-r border border-l-0 border-[var(--color-border)] bg-[var(--color-bg-tertiary)]
+                   hover:text-[var(--color-accent)] transition-colors"
+        title="Snap settings"
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-52 bg-[var(--color-bg-secondary)] rounded-lg shadow-xl
+                        border border-[var(--color-border)] p-3 space-y-2">
+          <div className="text-xs text-[var(--color-text-secondary)]">Snap to</div>
+          {SNAP_TARGET_OPTIONS.map((opt) => (
+            <label key={opt.value} className="flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={snap.targets.includes(opt.value)}
+                onChange={() => toggleTarget(opt.value)}
+                disabled={opt.value === 'beats' && !project.beatGrid}
+              />
+              {opt.label}
+              {opt.value === 'beats' && !project.beatGrid && (
+                <span className="text-[10px] text-[var(--color-text-secondary)]">(no beat grid)</span>
+              )}
+            </label>
+          ))}
+
+          <label className="flex items-center justify-between gap-2 text-xs text-[var(--color-text-secondary)] pt-1">
+            Grid (s)
+            <input
+              type="number"
+              min="0.01"
+              step="0.05"
+              value={snap.gridSize}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) updateSnap({ gridSize: value });
+              }}
+              className="w-16 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-[var(--color-text-secondary)]">
+            Beat division
+            <select
+              value={snap.beatDivision}
+              onChange={(e) => updateSnap({ beatDivision: parseInt(e.target.value) })}
+              className="w-16 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]"
+            >
+              {BEAT_DIVISION_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from 'react';
+import { useProjectStore } from '../../store';
+import { analyzeBeats } from '../../audio/analyzeBeats';
+import { formatTime, getTempoAt } from '../../utils/time';
+import type { BeatGrid, TempoChange } from '../../types';
+
+const BEATS_PER_BAR_OPTIONS = [2, 3, 4, 5, 6, 7];
+
+const DEFAULT_BEAT_GRID: BeatGrid = { bpm: 120, offset: 0, beatsPerBar: 4 };
+
+export default function TempoControls() {
+  const { project, playback, audioBuffer, setProject } = useProjectStore();
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { beatGrid } = project;
+
+  // Close the tempo editor when clicking outside it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  // Analyze the loaded song for tempo and downbeats
+  const handleDetectBeats = async () => {
+    if (!audioBuffer) return;
+    setIsDetecting(true);
+    try {
+      const detected = await analyzeBeats(audioBuffer, beatGrid?.beatsPerBar ?? 4);
+      if (detected) {
+        // Detection finds one steady tempo, so any tempo changes are dropped
+        setProject({ beatGrid: detected });
+      } else {
+        alert('Could not find a steady beat in this audio.');
+      }
+    } catch (err) {
+      console.error('Beat detection failed:', err);
+      alert('Beat detection failed.');
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const updateGrid = (updates: Partial<BeatGrid>) => {
+    if (beatGrid) setProject({ beatGrid: { ...beatGrid, ...updates } });
+  };
+
+  const updateTempoChange = (index: number, updates: Partial<TempoChange>) => {
+    if (!beatGrid) return;
+    const tempoChanges = (beatGrid.tempoChanges ?? [])
+      .map((change, i) => (i === index ? { ...change, ...updates } : change))
+      .sort((a, b) => a.time - b.time);
+    updateGrid({ tempoChanges });
+  };
+
+  const handleAddTempoChange = () => {
+    if (!beatGrid) return;
+    const time = Math.max(beatGrid.offset + 0.01, playback.currentTime);
+    const change: TempoChange = { time: Math.round(time * 1000) / 1000, ...getTempoAt(time, beatGrid) };
+    updateGrid({ tempoChanges: [...(beatGrid.tempoChanges ?? []), change].sort((a, b) => a.time - b.time) });
+  };
+
+  const parsePositive = (raw: string): number | null => {
+    const value = parseFloat(raw);
+    return isNaN(value) || value < 0 ? null : value;
+  };
+
+  const inputClass = 'w-16 px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]';
+
+  return (
+    <div ref={menuRef} className="relative flex items-center gap-1">
+      <button
+        onClick={handleDetectBeats}
+        disabled={!audioBuffer || isDetecting}
+        className="px-3 py-1 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                   hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                   transition-colors text-sm disabled:opacity-40 disabled:pointer-events-none"
+        title={audioBuffer ? 'Detect tempo and downbeats from the audio' : 'Load audio to detect beats'}
+      >
+        {isDetecting ? 'Detecting…' : beatGrid ? 'Re-detect' : 'Detect Beats'}
+      </button>
+      <button
+        onClick={() => {
+          if (!beatGrid) setProject({ beatGrid: DEFAULT_BEAT_GRID });
+          setIsOpen(!isOpen);
+        }}
+        className="px-2 py-1 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                   hover:border-[var(--color-accent)] hover:text-[var(--color-accent)] transition-colors text-sm font-mono"
+        title="Edit tempo, time signature and tempo changes"
+      >
+        {beatGrid ? `${beatGrid.bpm} BPM ${beatGrid.beatsPerBar}/4` : 'Set Tempo'}
+      </button>
+
+      {isOpen && beatGrid && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-72 bg-[var(--color-bg-secondary)] rounded-lg shadow-xl
+                        border border-[var(--color-border)] p-3 space-y-2">
+          <div className="grid grid-cols-3 gap-2 text-[10px] text-[var(--color-text-secondary)]">
+            <label>
+              BPM
+              <input
+                type="number"
+                min="1"
+                step="0.1"
+                value={beatGrid.bpm}
+                onChange={(e) => {
+                  const bpm = parsePositive(e.target.value);
+                  if (bpm) updateGrid({ bpm });
+                }}
+                className={`${inputClass} block mt-0.5`}
+              />
+            </label>
+            <label title="Time of the first downbeat">
+              Offset (s)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={beatGrid.offset}
+                onChange={(e) => {
+                  const offset = parsePositive(e.target.value);
+                  if (offset !== null) updateGrid({ offset });
+                }}
+                className={`${inputClass} block mt-0.5`}
+              />
+            </label>
+            <label>
+              Meter
+              <select
+                value={beatGrid.beatsPerBar}
+                onChange={(e) => updateGrid({ beatsPerBar: parseInt(e.target.value) })}
+                className={`${inputClass} block mt-0.5`}
+              >
+                {BEATS_PER_BAR_OPTIONS.map((n) => (
+                  <option key={n} value={n}>{n}/4</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="pt-1 text-xs text-[var(--color-text-secondary)]">Tempo changes</div>
+          {(beatGrid.tempoChanges ?? []).length === 0 && (
+            <div className="text-[10px] text-[var(--color-text-secondary)] opacity-70">
+              None - the tempo is steady through the song
+            </div>
+          )}
+          {(beatGrid.tempoChanges ?? []).map((change, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={change.time}
+                onChange={(e) => {
+                  const time = parsePositive(e.target.value);
+                  if (time !== null) updateTempoChange(index, { time });
+                }}
+                className={inputClass}
+                title={`Starts at ${formatTime(change.time, 2)}`}
+              />
+              <input
+                type="number"
+                min="1"
+                step="0.1"
+                value={change.bpm}
+                onChange={(e) => {
+                  const bpm = parsePositive(e.target.value);
+                  if (bpm) updateTempoChange(index, { bpm });
+                }}
+                className={inputClass}
+                title="BPM"
+              />
+              <select
+                value={change.beatsPerBar}
+                onChange={(e) => updateTempoChange(index, { beatsPerBar: parseInt(e.target.value) })}
+                className="px-1 py-0.5 bg-[var(--color-bg-tertiary)] rounded text-xs border border-[var(--color-border)]"
+              >
+                {BEATS_PER_BAR_OPTIONS.map((n) => (
+                  <option key={n} value={n}>{n}/4</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateGrid({ tempoChanges: beatGrid.tempoChanges?.filter((_, i) => i !== index) })}
+                className="p-1 rounded opacity-60 hover:opacity-100 hover:text-red-400 transition-opacity"
+                title="Remove tempo change"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-1 pt-1">
+            <button
+              onClick={handleAddTempoChange}
+              className="flex-1 px-2 py-1 text-xs rounded bg-[var(--color-bg-tertiary)] hover:text-[var(--color-accent)] transition-colors"
+            >
+              + Change at playhead
+            </button>
+            <button
+              onClick={() => {
+                setProject({ beatGrid: undefined });
+                setIsOpen(false);
+              }}
+              className="px-2 py-1 text-xs rounded bg-[var(--color-bg-tertiary)] hover:bg-red-500/20 hover:text-red-400 transition-colors"
+            >
+              Remove tempo
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,54 @@
-import { useRef, useCallback, useState, useEffect } from 'react';
-import { useProjectStore } from '../../store';
+import { Fragment, useRef, useCallback, useState, useEffect, useMemo } from 'react';
+import { useProjectStore, snapTime, SNAP_DISTANCE_PX } from '../../store';
+import { getCircuitLoads, getPowerOverloads } from '../../core';
+import { formatTime, getBeatTimes } from '../../utils/time';
 import WaveformTrack from './WaveformTrack';
+import PowerTrack from './PowerTrack';
 import ActorTrack from './ActorTrack';
 import PlaybackControls from './PlaybackControls';
-import { INTERPOLATION_OPTIONS, type InterpolationType } from '../../types';
+import BezierEditor from './BezierEditor';
+import OutputConstraintsEditor from './OutputConstraintsEditor';
+import ChaseGeneratorModal from './ChaseGeneratorModal';
+import ImportButton from './ImportButton';
+import SnapControls from './SnapControls';
+import TempoControls from './TempoControls';
+import {
+  INTERPOLATION_OPTIONS,
+  COLOR_SPACE_OPTIONS,
+  CHANNEL_TYPE_OPTIONS,
+  type ChannelType,
+  type InterpolationType,
+  type BezierCurve,
+  type ColorSpace,
+  type Actor,
+  type KeyframeLane,
+  type KeyframeRef,
+  type Marker,
+} from '../../types';
 
 export default function TimelinePanel() {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const timeRulerRef = useRef<HTMLDivElement>(null);
   const [editingActorId, setEditingActorId] = useState<string | null>(null);
   const [editingLabel, setEditingLabel] = useState('');
+  const [editingChannelId, setEditingChannelId] = useState<string | null>(null);
+  const [expandedActorIds, setExpandedActorIds] = useState<Set<string>>(new Set());
+  const [newChannelType, setNewChannelType] = useState<ChannelType>('dimmer');
   const [scrollLeft, setScrollLeft] = useState(0);
+  const [bezierEditor, setBezierEditor] = useState<{ actorId: string; anchor: { x: number; y: number } } | null>(null);
+  const [constraintsEditor, setConstraintsEditor] = useState<{ actorId: string; anchor: { x: number; y: number } } | null>(null);
+  const [showChaseGenerator, setShowChaseGenerator] = useState(false);
+  
+  // Marker being dragged on the ruler
+  const [markerDrag, setMarkerDrag] = useState<{ markerId: string; startX: number; originalTime: number } | null>(null);
+  const markerDragMovedRef = useRef(false);
+
+  // Rubber-band keyframe selection (in tracks-area pixels)
+  const tracksRef = useRef<HTMLDivElement>(null);
+  const rubberBandStartRef = useRef<{ x: number; y: number; additive: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [isBanding, setIsBanding] = useState(false);
+  const [rubberBand, setRubberBand] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
   
   // Drag-and-drop reordering state
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -30,6 +68,7 @@ export default function TimelinePanel() {
   }, []);
   
   const { 
+    project,
     actors, 
     playback, 
     ui,
@@ -38,20 +77,42 @@ export default function TimelinePanel() {
     addActor,
     removeActor,
     updateActor,
+    addChannel,
+    removeChannel,
+    updateChannel,
     reorderActors,
+    selectActor,
+    toggleActorSelection,
+    selectKeyframes,
     setZoom,
     seek,
     setAudioBuffer,
     setAudioFile,
     setPlayback,
+    setUI,
     removeMarker,
+    updateMarker,
+    beginTransaction,
+    commitTransaction,
+    cancelTransaction,
   } = useProjectStore();
 
+  // Circuit loads for the power lane, shown once the project has circuits
+  const circuits = project.circuits;
+  const powerLoads = useMemo(() => getCircuitLoads(actors, circuits ?? [], playback.duration), [actors, circuits, playback.duration]);
+  const powerOverloads = useMemo(() => getPowerOverloads(powerLoads), [powerLoads]);
+  const hasPowerRow = powerLoads.length > 0;
+
   const handleAddActor = () => {
     const label = `Actor ${actors.length + 1}`;
     addActor(label);
   };
 
+  const handleAddColorActor = () => {
+    const label = `RGB ${actors.length + 1}`;
+    addActor(label, 'rgb');
+  };
+
   // Handle loading audio file
   const handleLoadAudio = useCallback(async (file: File) => {
     try {
@@ -126,10 +187,139 @@ export default function TimelinePanel() {
     // so clientX - rect.left gives us the position within the element directly
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
-    const time = x / ui.zoom;
+    // Snap the seek unless Alt is held
+    const time = e.altKey
+      ? x / ui.zoom
+      : snapTime(x / ui.zoom, useProjectStore.getState(), SNAP_DISTANCE_PX / ui.zoom, { excludePlayhead: true });
     seek(Math.max(0, Math.min(time, playback.duration)));
   }, [ui.zoom, seek, playback.duration]);
 
+  // Drag a marker along the ruler (a click without movement still seeks)
+  const handleMarkerMouseDown = (e: React.MouseEvent, marker: Marker) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    markerDragMovedRef.current = false;
+    beginTransaction();
+    setMarkerDrag({ markerId: marker.id, startX: e.clientX, originalTime: marker.time });
+  };
+
+  useEffect(() => {
+    if (!markerDrag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const deltaX = e.clientX - markerDrag.startX;
+      if (!markerDragMovedRef.current && Math.abs(deltaX) < 3) return;
+      markerDragMovedRef.current = true;
+      const rawTime = markerDrag.originalTime + deltaX / ui.zoom;
+      const time = e.altKey
+        ? rawTime
+        : snapTime(rawTime, useProjectStore.getState(), SNAP_DISTANCE_PX / ui.zoom, { excludeMarkerId: markerDrag.markerId });
+      updateMarker(markerDrag.markerId, { time: Math.max(0, Math.min(time, playback.duration || Infinity)) });
+    };
+
+    const handleMouseUp = () => {
+      commitTransaction();
+      setMarkerDrag(null);
+    };
+
+    // Escape puts the marker back where the drag started
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      cancelTransaction();
+      setMarkerDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [markerDrag, ui.zoom, playback.duration, updateMarker, commitTransaction, cancelTransaction]);
+
+  // Start a rubber band on empty track space (keyframes and clips stop their own mousedowns)
+  const handleTracksMouseDown = (e: React.MouseEvent) => {
+    suppressClickRef.current = false;
+    if (e.button !== 0 || !tracksRef.current) return;
+    if ((e.target as HTMLElement).closest('input, select, button, textarea')) return;
+    const rect = tracksRef.current.getBoundingClientRect();
+    rubberBandStartRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top, additive: e.shiftKey };
+    setIsBanding(true);
+  };
+
+  // A finished rubber band swallows the click that follows, so tracks don't seek
+  const handleTracksClickCapture = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      e.stopPropagation();
+      suppressClickRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    if (!isBanding) return;
+    let band: { x0: number; y0: number; x1: number; y1: number } | null = null;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const start = rubberBandStartRef.current;
+      const container = tracksRef.current;
+      if (!start || !container) return;
+      const rect = container.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      // Ignore small jitters so plain clicks still seek
+      if (!band && Math.hypot(x - start.x, y - start.y) < 4) return;
+      band = { x0: start.x, y0: start.y, x1: x, y1: y };
+      setRubberBand(band);
+    };
+
+    const handleMouseUp = () => {
+      const start = rubberBandStartRef.current;
+      if (band && start) {
+        const fromTime = Math.min(band.x0, band.x1) / ui.zoom;
+        const toTime = Math.max(band.x0, band.x1) / ui.zoom;
+        const top = Math.min(band.y0, band.y1);
+        const bottom = Math.max(band.y0, band.y1);
+
+        const refs: KeyframeRef[] = [];
+        for (const row of getLaneRows(useProjectStore.getState().actors, expandedActorIds, hasPowerRow)) {
+          if (row.top >= bottom || row.top + row.height <= top) continue;
+          for (const kf of row.lane.keyframes) {
+            if (kf.time >= fromTime && kf.time <= toTime) {
+              refs.push({ actorId: row.actorId, channelId: row.channelId, keyframeId: kf.id });
+            }
+          }
+        }
+        const existing = start.additive ? useProjectStore.getState().ui.selectedKeyframes : [];
+        selectKeyframes([
+          ...existing.filter((r) => !refs.some((n) => n.actorId === r.actorId && n.channelId === r.channelId && n.keyframeId === r.keyframeId)),
+          ...refs,
+        ]);
+        suppressClickRef.current = true;
+      }
+      rubberBandStartRef.current = null;
+      setRubberBand(null);
+      setIsBanding(false);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isBanding, ui.zoom, expandedActorIds, hasPowerRow, selectKeyframes]);
+
+  // Shift/Ctrl-click builds a group selection for multi-actor tools
+  const handleActorLabelClick = (e: React.MouseEvent, actorId: string) => {
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      toggleActorSelection(actorId);
+    } else {
+      selectActor(actorId);
+    }
+  };
+
   const handleActorLabelDoubleClick = (actorId: string, currentLabel: string) => {
     setEditingActorId(actorId);
     setEditingLabel(currentLabel);
@@ -164,9 +354,97 @@ export default function TimelinePanel() {
     updateActor(actorId, { interpolation });
   };
 
+  const handleColorSpaceChange = (actorId: string, colorSpace: ColorSpace) => {
+    updateActor(actorId, { colorSpace });
+  };
+
+  const handleToggleExpanded = (actorId: string) => {
+    setExpandedActorIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(actorId)) {
+        next.delete(actorId);
+      } else {
+        next.add(actorId);
+      }
+      return next;
+    });
+  };
+
+  const handleAddChannel = (actorId: string) => {
+    const actor = actors.find((a) => a.id === actorId);
+    const typeLabel = CHANNEL_TYPE_OPTIONS.find((opt) => opt.value === newChannelType)?.label ?? newChannelType;
+    // Number repeated channel types (Dimmer, Dimmer 2, ...)
+    const sameType = actor?.channels.filter((c) => c.type === newChannelType).length ?? 0;
+    addChannel(actorId, sameType > 0 ? `${typeLabel} ${sameType + 1}` : typeLabel, newChannelType);
+  };
+
+  const handleRemoveChannel = (actorId: string, channelId: string) => {
+    if (confirm('Remove this channel and its keyframes?')) {
+      removeChannel(actorId, channelId);
+    }
+  };
+
+  const handleChannelLabelDoubleClick = (channelId: string, currentName: string) => {
+    setEditingChannelId(channelId);
+    setEditingLabel(currentName);
+  };
+
+  const handleChannelLabelSubmit = (actorId: string, channelId: string) => {
+    if (editingLabel.trim()) {
+      updateChannel(actorId, channelId, { name: editingLabel.trim() });
+    }
+    setEditingChannelId(null);
+  };
+
+  const handleChannelLabelKeyDown = (e: React.KeyboardEvent, actorId: string, channelId: string) => {
+    if (e.key === 'Enter') {
+      handleChannelLabelSubmit(actorId, channelId);
+    } else if (e.key === 'Escape') {
+      setEditingChannelId(null);
+    }
+  };
+
+  const handleOpenBezierEditor = (e: React.MouseEvent, actorId: string) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setBezierEditor({ actorId, anchor: { x: rect.right + 8, y: Math.max(8, rect.top - 80) } });
+  };
+
+  const handleBezierChange = (actorId: string, bezier: BezierCurve) => {
+    updateActor(actorId, { bezier });
+  };
+
+  const handleCloseBezierEditor = useCallback(() => setBezierEditor(null), []);
+  const bezierActor = bezierEditor ? actors.find((a) => a.id === bezierEditor.actorId) : undefined;
+
+  const handleOpenConstraintsEditor = (e: React.MouseEvent, actorId: string) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setConstraintsEditor({ actorId, anchor: { x: rect.right + 8, y: Math.max(8, rect.top - 40) } });
+  };
+
+  const handleCloseConstraintsEditor = useCallback(() => setConstraintsEditor(null), []);
+  const constraintsActor = constraintsEditor ? actors.find((a) => a.id === constraintsEditor.actorId) : undefined;
+
   // Calculate timeline width based on duration
   const timelineWidth = Math.max(playback.duration * ui.zoom, 1000);
 
+  // Beat and bar lines (beats are hidden when they would crowd together)
+  const { beatGrid } = project;
+  const beats = beatGrid ? getBeatTimes(beatGrid, 0, timelineWidth / ui.zoom) : [];
+  const fastestBpm = beatGrid ? Math.max(beatGrid.bpm, ...(beatGrid.tempoChanges ?? []).map((c) => c.bpm)) : 0;
+  const beatLines = beats.filter((beat) => beat.isDownbeat || (60 / fastestBpm) * ui.zoom >= 6);
+
+  // Bars:beats ruler labels every 1, 2, 4... bars, keeping them at least 60px apart
+  const showMusicalTime = ui.timeDisplay === 'musical' && !!beatGrid;
+  const barEvery = beatGrid
+    ? [1, 2, 4, 8, 16, 32, 64].find((n) => n * (60 / fastestBpm) * beatGrid.beatsPerBar * ui.zoom >= 60) ?? 128
+    : 1;
+  const barLabels = showMusicalTime
+    ? beats.filter((beat) => beat.isDownbeat && (beat.bar - 1) % barEvery === 0)
+    : [];
+
+  // Group-selected actors in timeline order
+  const selectedActors = actors.filter((a) => ui.selectedActorIds.includes(a.id));
+
   // Generate time markers
   const timeMarkers = [];
   const markerInterval = getMarkerInterval(ui.zoom);
@@ -195,6 +473,34 @@ export default function TimelinePanel() {
           Add Actor
         </button>
 
+        <button
+          onClick={handleAddColorActor}
+          className="px-3 py-1 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                     hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                     transition-colors text-sm flex items-center gap-2"
+          title="Add an actor whose keyframes store full RGB colors"
+        >
+          <span className="w-3 h-3 rounded-full" style={{ background: 'conic-gradient(red, yellow, lime, cyan, blue, magenta, red)' }} />
+          Add RGB Actor
+        </button>
+
+        <button
+          onClick={() => setShowChaseGenerator(true)}
+          disabled={selectedActors.length < 2}
+          className="px-3 py-1 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                     hover:border-[var(--color-accent)] hover:text-[var(--color-accent)]
+                     transition-colors text-sm disabled:opacity-40 disabled:pointer-events-none"
+          title="Generate a chase across the selected actors (Shift/Ctrl-click actor names to select)"
+        >
+          Chase{selectedActors.length >= 2 ? ` (${selectedActors.length})` : ''}…
+        </button>
+
+        <ImportButton />
+
+        <SnapControls />
+
+        <TempoControls />
+
         <div className="flex items-center gap-1 ml-4">
           <button
             onClick={handleZoomOut}
@@ -226,7 +532,14 @@ export default function TimelinePanel() {
         <div className="flex flex-shrink-0">
           {/* Time ruler label */}
           <div className="w-48 flex-shrink-0 h-8 border-b border-r border-[var(--color-border)] flex items-center px-3 bg-[var(--color-bg-secondary)]">
-            <span className="text-xs text-[var(--color-text-secondary)]">Time</span>
+            <button
+              onClick={() => setUI({ timeDisplay: ui.timeDisplay === 'musical' ? 'clock' : 'musical' })}
+              disabled={!beatGrid}
+              className="text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-accent)] disabled:pointer-events-none transition-colors"
+              title={beatGrid ? 'Switch between minutes:seconds and bars:beats:ticks' : 'Set a tempo to show bars and beats'}
+            >
+              {showMusicalTime ? 'Bars : Beats' : 'Time'}
+            </button>
           </div>
           
           {/* Time ruler (horizontal scroll synced) */}
@@ -242,7 +555,7 @@ export default function TimelinePanel() {
               }}
               onClick={handleTimeRulerClick}
             >
-              {timeMarkers.map((t) => (
+              {!showMusicalTime && timeMarkers.map((t) => (
                 <div
                   key={t}
                   className="absolute top-0 h-full flex flex-col items-center"
@@ -254,15 +567,34 @@ export default function TimelinePanel() {
                   </span>
                 </div>
               ))}
+
+              {/* Bar numbers (bars:beats display) */}
+              {barLabels.map((beat) => (
+                <div
+                  key={`bar-${beat.bar}-${beat.time}`}
+                  className="absolute top-0 h-full flex flex-col items-center"
+                  style={{ left: beat.time * ui.zoom }}
+                >
+                  <div className="w-px h-2 bg-[var(--color-border)]" />
+                  <span className="text-xs text-[var(--color-text-secondary)] mt-1">
+                    {beat.bar}
+                  </span>
+                </div>
+              ))}
               
               {/* Global markers on time ruler */}
               {markers.map((marker) => (
                 <div
                   key={marker.id}
-                  className="absolute top-0 h-full cursor-pointer group z-20"
+                  className={`absolute top-0 h-full group z-20 ${markerDrag?.markerId === marker.id ? 'cursor-grabbing' : 'cursor-grab'}`}
                   style={{ left: marker.time * ui.zoom }}
+                  onMouseDown={(e) => handleMarkerMouseDown(e, marker)}
                   onClick={(e) => {
                     e.stopPropagation();
+                    if (markerDragMovedRef.current) {
+                      markerDragMovedRef.current = false;
+                      return;
+                    }
                     seek(marker.time);
                   }}
                   onContextMenu={(e) => {
@@ -270,7 +602,7 @@ export default function TimelinePanel() {
                     e.stopPropagation();
                     removeMarker(marker.id);
                   }}
-                  title={`${marker.label || 'Marker'} @ ${formatTime(marker.time)} (right-click to remove)`}
+                  title={`${marker.label || 'Marker'} @ ${formatTime(marker.time)} (drag to move, right-click to remove)`}
                 >
                   <div 
                     className="w-2 h-2 bg-yellow-400 -ml-1 rotate-45 group-hover:scale-125 transition-transform"
@@ -314,81 +646,234 @@ export default function TimelinePanel() {
                 </button>
               </div>
               
+              {/* Power lane label, with each circuit's curve color */}
+              {hasPowerRow && (
+                <div className="h-12 border-b border-[var(--color-border)] flex items-center px-3 gap-2">
+                  <span className={`text-sm flex-1 ${powerOverloads.length > 0 ? 'text-red-400' : ''}`}>Power</span>
+                  {powerLoads.map(({ circuit, peak }, index) => (
+                    <span
+                      key={circuit.id}
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: CIRCUIT_COLORS[index % CIRCUIT_COLORS.length] }}
+                      title={`${circuit.name}: peak ${Math.round(peak)}W of ${circuit.maxWatts}W`}
+                    />
+                  ))}
+                </div>
+              )}
+              
               {/* Actor track labels */}
               {actors.map((actor, index) => (
-                <div 
-                  key={actor.id}
-                  draggable={editingActorId !== actor.id}
-                  onDragStart={() => handleDragStart(index)}
-                  onDragOver={(e) => handleDragOver(e, index)}
-                  onDragLeave={handleDragLeave}
-                  onDrop={() => handleDrop(index)}
-                  onDragEnd={handleDragEnd}
-                  className={`h-12 border-b border-[var(--color-border)] flex items-center px-1 group gap-1 transition-colors
-                             ${draggedIndex === index ? 'opacity-50' : ''}
-                             ${dragOverIndex === index ? 'bg-[var(--color-accent)]/20 border-t-2 border-t-[var(--color-accent)]' : ''}`}
-                >
-                  {/* Drag handle */}
+                <Fragment key={actor.id}>
                   <div 
-                    className="cursor-grab active:cursor-grabbing p-1 opacity-30 hover:opacity-100 transition-opacity"
-                    title="Drag to reorder"
+
+                    draggable={editingActorId !== actor.id}
+                    onDragStart={() => handleDragStart(index)}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDragLeave={handleDragLeave}
+                    onDrop={() => handleDrop(index)}
+                    onDragEnd={handleDragEnd}
+                    className={`h-12 border-b border-[var(--color-border)] flex items-center px-1 group gap-1 transition-colors
+                               ${ui.selectedActorIds.includes(actor.id) ? 'bg-[var(--color-accent)]/10' : ''}
+                               ${draggedIndex === index ? 'opacity-50' : ''}
+                               ${dragOverIndex === index ? 'bg-[var(--color-accent)]/20 border-t-2 border-t-[var(--color-accent)]' : ''}`}
                   >
-                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
-                      <circle cx="9" cy="5" r="1.5" />
-                      <circle cx="15" cy="5" r="1.5" />
-                      <circle cx="9" cy="12" r="1.5" />
-                      <circle cx="15" cy="12" r="1.5" />
-                      <circle cx="9" cy="19" r="1.5" />
-                      <circle cx="15" cy="19" r="1.5" />
-                    </svg>
-                  </div>
+                    {/* Drag handle */}
+                    <div 
+                      className="cursor-grab active:cursor-grabbing p-1 opacity-30 hover:opacity-100 transition-opacity"
+                      title="Drag to reorder"
+                    >
+                      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                        <circle cx="9" cy="5" r="1.5" />
+                        <circle cx="15" cy="5" r="1.5" />
+                        <circle cx="9" cy="12" r="1.5" />
+                        <circle cx="15" cy="12" r="1.5" />
+                        <circle cx="9" cy="19" r="1.5" />
+                        <circle cx="15" cy="19" r="1.5" />
+                      </svg>
+                    </div>
+
+                    {/* Expand/collapse channel lanes */}
+                    <button
+                      onClick={() => handleToggleExpanded(actor.id)}
+                      className={`p-0.5 rounded transition-all ${
+                        actor.channels.length > 0 ? 'opacity-80' : 'opacity-30'
+                      } hover:opacity-100`}
+                      title={expandedActorIds.has(actor.id) ? 'Hide channels' : `Show channels (${actor.channels.length})`}
+                    >
+                      <svg
+                        className={`w-3 h-3 transition-transform ${expandedActorIds.has(actor.id) ? 'rotate-90' : ''}`}
+                        fill="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path d="M8 5l8 7-8 7z" />
+                      </svg>
+                    </button>
                   
-                  {editingActorId === actor.id ? (
-                    <input
-                      type="text"
-                      value={editingLabel}
-                      onChange={handleLabelChange}
-                      onBlur={() => handleLabelSubmit(actor.id)}
-                      onKeyDown={(e) => handleLabelKeyDown(e, actor.id)}
-                      className="flex-1 bg-[var(--color-bg-tertiary)] px-2 py-1 rounded text-sm outline-none
-                                 border border-[var(--color-accent)]"
-                      autoFocus
-                    />
-                  ) : (
+                    {editingActorId === actor.id ? (
+                      <input
+                        type="text"
+                        value={editingLabel}
+                        onChange={handleLabelChange}
+                        onBlur={() => handleLabelSubmit(actor.id)}
+                        onKeyDown={(e) => handleLabelKeyDown(e, actor.id)}
+                        className="flex-1 bg-[var(--color-bg-tertiary)] px-2 py-1 rounded text-sm outline-none
+                                   border border-[var(--color-accent)]"
+                        autoFocus
+                      />
+                    ) : (
+                      <>
+                        <span 
+                          className="text-sm truncate flex-1 cursor-pointer hover:text-[var(--color-accent)]"
+                          onClick={(e) => handleActorLabelClick(e, actor.id)}
+                          onDoubleClick={() => handleActorLabelDoubleClick(actor.id, actor.label)}
+                          title="Click to select • Shift/Ctrl-click to add to selection • Double-click to rename"
+                        >
+                          {actor.label}
+                        </span>
+                        <select
+                          value={actor.interpolation}
+                          onChange={(e) => handleInterpolationChange(actor.id, e.target.value as InterpolationType)}
+                          className="text-[10px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border)] 
+                                     rounded px-1 py-0.5 opacity-60 hover:opacity-100 focus:opacity-100
+                                     transition-opacity cursor-pointer"
+                          title="Interpolation type"
+                        >
+                          {INTERPOLATION_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </option>
+                          ))}
+                        </select>
+                        {actor.kind === 'rgb' && (
+                          <select
+                            value={actor.colorSpace ?? 'rgb'}
+                            onChange={(e) => handleColorSpaceChange(actor.id, e.target.value as ColorSpace)}
+                            className="text-[10px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border)] 
+                                       rounded px-1 py-0.5 opacity-60 hover:opacity-100 focus:opacity-100
+                                       transition-opacity cursor-pointer"
+                            title="Color blend space"
+                          >
+                            {COLOR_SPACE_OPTIONS.map((opt) => (
+                              <option key={opt.value} value={opt.value}>
+                                {opt.label}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        {actor.interpolation === 'bezier' && (
+                          <button
+                            onClick={(e) => handleOpenBezierEditor(e, actor.id)}
+                            className="p-0.5 rounded opacity-60 hover:opacity-100 hover:text-[var(--color-accent)] transition-opacity"
+                            title="Edit custom curve"
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 20C9 20 8 4 21 4" />
+                            </svg>
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => handleOpenConstraintsEditor(e, actor.id)}
+                          className={`p-0.5 rounded hover:opacity-100 hover:text-[var(--color-accent)] transition-opacity ${
+                            actor.constraints ? 'opacity-100 text-[var(--color-accent)]' : 'opacity-0 group-hover:opacity-60'
+                          }`}
+                          title="Output constraints (relays)"
+                        >
+                          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17h5V7h8v10h5" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => handleRemoveActor(actor.id)}
+                          className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-500 transition-all"
+                          title="Remove actor"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {/* Channel lane labels */}
+                  {expandedActorIds.has(actor.id) && (
                     <>
-                      <span 
-                        className="text-sm truncate flex-1 cursor-pointer hover:text-[var(--color-accent)]"
-                        onDoubleClick={() => handleActorLabelDoubleClick(actor.id, actor.label)}
-                        title="Double-click to rename"
-                      >
-                        {actor.label}
-                      </span>
-                      <select
-                        value={actor.interpolation}
-                        onChange={(e) => handleInterpolationChange(actor.id, e.target.value as InterpolationType)}
-                        className="text-[10px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border)] 
-                                   rounded px-1 py-0.5 opacity-60 hover:opacity-100 focus:opacity-100
-                                   transition-opacity cursor-pointer"
-                        title="Interpolation type"
-                      >
-                        {INTERPOLATION_OPTIONS.map((opt) => (
-                          <option key={opt.value} value={opt.value}>
-                            {opt.label}
-                          </option>
-                        ))}
-                      </select>
-                      <button
-                        onClick={() => handleRemoveActor(actor.id)}
-                        className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-500 transition-all"
-                        title="Remove actor"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
+                      {actor.channels.map((channel) => (
+                        <div
+                          key={channel.id}
+                          className="h-12 border-b border-[var(--color-border)] flex items-center pl-8 pr-1 group gap-1 bg-[var(--color-bg-primary)]/40"
+                        >
+                          {editingChannelId === channel.id ? (
+                            <input
+                              type="text"
+                              value={editingLabel}
+                              onChange={handleLabelChange}
+                              onBlur={() => handleChannelLabelSubmit(actor.id, channel.id)}
+                              onKeyDown={(e) => handleChannelLabelKeyDown(e, actor.id, channel.id)}
+                              className="flex-1 min-w-0 bg-[var(--color-bg-tertiary)] px-2 py-1 rounded text-xs outline-none
+                                         border border-[var(--color-accent)]"
+                              autoFocus
+                            />
+                          ) : (
+                            <span
+                              className="text-xs truncate flex-1 cursor-pointer hover:text-[var(--color-accent)] text-[var(--color-text-secondary)]"
+                              onDoubleClick={() => handleChannelLabelDoubleClick(channel.id, channel.name)}
+                              title={`${CHANNEL_TYPE_OPTIONS.find((opt) => opt.value === channel.type)?.label} channel • Double-click to rename`}
+                            >
+                              {channel.name}
+                            </span>
+                          )}
+                          <select
+                            value={channel.interpolation}
+                            onChange={(e) => updateChannel(actor.id, channel.id, { interpolation: e.target.value as InterpolationType })}
+                            className="text-[10px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border)] 
+                                       rounded px-1 py-0.5 opacity-60 hover:opacity-100 focus:opacity-100
+                                       transition-opacity cursor-pointer"
+                            title="Interpolation type"
+                          >
+                            {INTERPOLATION_OPTIONS.map((opt) => (
+                              <option key={opt.value} value={opt.value}>
+                                {opt.label}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => handleRemoveChannel(actor.id, channel.id)}
+                            className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-500 transition-all"
+                            title="Remove channel"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      ))}
+
+                      {/* Add channel row */}
+                      <div className="h-8 border-b border-[var(--color-border)] flex items-center pl-8 pr-1 gap-1">
+                        <select
+                          value={newChannelType}
+                          onChange={(e) => setNewChannelType(e.target.value as ChannelType)}
+                          className="flex-1 text-[10px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border)] rounded px-1 py-0.5"
+                          title="Channel type"
+                        >
+                          {CHANNEL_TYPE_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleAddChannel(actor.id)}
+                          className="px-2 py-0.5 text-[10px] rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                                     hover:border-[var(--color-accent)] hover:text-[var(--color-accent)] transition-colors"
+                        >
+                          + Channel
+                        </button>
+                      </div>
                     </>
                   )}
-                </div>
+                </Fragment>
               ))}
             </div>
 
@@ -397,7 +882,38 @@ export default function TimelinePanel() {
               ref={scrollContainerRef}
               className="flex-1 overflow-x-auto overflow-y-hidden relative"
             >
-              <div style={{ width: timelineWidth, minWidth: '100%' }} className="relative">
+              <div
+                ref={tracksRef}
+                style={{ width: timelineWidth, minWidth: '100%' }}
+                className="relative"
+                onMouseDown={handleTracksMouseDown}
+                onClickCapture={handleTracksClickCapture}
+              >
+                {/* Rubber-band selection */}
+                {rubberBand && (
+                  <div
+                    className="absolute border border-[var(--color-accent)] bg-[var(--color-accent)]/10 z-40 pointer-events-none"
+                    style={{
+                      left: Math.min(rubberBand.x0, rubberBand.x1),
+                      top: Math.min(rubberBand.y0, rubberBand.y1),
+                      width: Math.abs(rubberBand.x1 - rubberBand.x0),
+                      height: Math.abs(rubberBand.y1 - rubberBand.y0),
+                    }}
+                  />
+                )}
+
+                {/* Beat grid lines spanning all tracks */}
+                {beatLines.map((beat) => (
+                  <div
+                    key={`beat-${beat.time}`}
+                    className="absolute top-0 bottom-0 w-px pointer-events-none z-5"
+                    style={{
+                      left: beat.time * ui.zoom,
+                      backgroundColor: beat.isDownbeat ? 'rgba(156, 163, 175, 0.35)' : 'rgba(156, 163, 175, 0.12)',
+                    }}
+                  />
+                ))}
+
                 {/* Global marker lines spanning all tracks */}
                 {markers.map((marker) => (
                   <div
@@ -431,38 +947,107 @@ export default function TimelinePanel() {
                   />
                 </div>
 
-                {/* Actor tracks */}
-                {actors.map((actor) => (
-                  <div 
-                    key={actor.id}
-                    className="h-12 border-b border-[var(--color-border)] relative"
-                  >
-                    <ActorTrack actor={actor} width={timelineWidth} zoom={ui.zoom} />
-                    
-                    {/* Playhead line */}
+                {/* Power lane */}
+                {hasPowerRow && (
+                  <div className="h-12 border-b border-[var(--color-border)] relative">
+                    <PowerTrack loads={powerLoads} overloads={powerOverloads} colors={CIRCUIT_COLORS} width={timelineWidth} zoom={ui.zoom} />
                     <div 
                       className="absolute top-0 w-0.5 h-full bg-[var(--color-accent)] z-10 pointer-events-none"
                       style={{ left: playback.currentTime * ui.zoom }}
                     />
                   </div>
+                )}
+
+                {/* Actor tracks */}
+                {actors.map((actor) => (
+                  <Fragment key={actor.id}>
+                    <div className="h-12 border-b border-[var(--color-border)] relative">
+                      <ActorTrack actor={actor} width={timelineWidth} zoom={ui.zoom} />
+                      
+                      {/* Playhead line */}
+                      <div 
+                        className="absolute top-0 w-0.5 h-full bg-[var(--color-accent)] z-10 pointer-events-none"
+                        style={{ left: playback.currentTime * ui.zoom }}
+                      />
+                    </div>
+
+                    {/* Channel lanes (sub-tracks) */}
+                    {expandedActorIds.has(actor.id) && (
+                      <>
+                        {actor.channels.map((channel) => (
+                          <div key={channel.id} className="h-12 border-b border-[var(--color-border)] relative">
+                            <ActorTrack actor={actor} channel={channel} width={timelineWidth} zoom={ui.zoom} />
+                            <div 
+                              className="absolute top-0 w-0.5 h-full bg-[var(--color-accent)] z-10 pointer-events-none"
+                              style={{ left: playback.currentTime * ui.zoom }}
+                            />
+                          </div>
+                        ))}
+                        {/* Spacer matching the add-channel row */}
+                        <div className="h-8 border-b border-[var(--color-border)]" />
+                      </>
+                    )}
+                  </Fragment>
                 ))}
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      {/* Custom curve editor popover */}
+      {bezierEditor && bezierActor && (
+        <BezierEditor
+          value={bezierActor.bezier}
+          anchor={bezierEditor.anchor}
+          onChange={(curve) => handleBezierChange(bezierActor.id, curve)}
+          onClose={handleCloseBezierEditor}
+        />
+      )}
+
+      {/* Output constraints popover */}
+      {constraintsEditor && constraintsActor && (
+        <OutputConstraintsEditor
+          value={constraintsActor.constraints}
+          anchor={constraintsEditor.anchor}
+          onChange={(constraints) => updateActor(constraintsActor.id, { constraints })}
+          onClose={handleCloseConstraintsEditor}
+        />
+      )}
+
+      {showChaseGenerator && (
+        <ChaseGeneratorModal actors={selectedActors} onClose={() => setShowChaseGenerator(false)} />
+      )}
     </div>
   );
 }
 
 // Helper functions
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 10);
-  return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
-}
 
+// Vertical layout of the keyframe lanes in the tracks area (must match the rendered rows)
+const WAVEFORM_ROW_HEIGHT = 64;
+const POWER_ROW_HEIGHT = 48;
+const LANE_ROW_HEIGHT = 48;
+const ADD_CHANNEL_ROW_HEIGHT = 32;
+
+// Power lane curve colors, cycled through the circuits
+const CIRCUIT_COLORS = ['#38bdf8', '#a3e635', '#f472b6', '#fbbf24', '#c084fc', '#2dd4bf'];
+
+function getLaneRows(actors: Actor[], expandedActorIds: Set<string>, hasPowerRow: boolean) {
+  const rows: { actorId: string; channelId?: string; lane: KeyframeLane; top: number; height: number }[] = [];
+  let top = WAVEFORM_ROW_HEIGHT + (hasPowerRow ? POWER_ROW_HEIGHT : 0);
+  for (const actor of actors) {
+    rows.push({ actorId: actor.id, lane: actor, top, height: LANE_ROW_HEIGHT });
+    top += LANE_ROW_HEIGHT;
+    if (!expandedActorIds.has(actor.id)) continue;
+    for (const channel of actor.channels) {
+      rows.push({ actorId: actor.id, channelId: channel.id, lane: channel, top, height: LANE_ROW_HEIGHT });
+      top += LANE_ROW_HEIGHT;
+    }
+    top += ADD_CHANNEL_ROW_HEIGHT;
+  }
+  return rows;
+}
 function getMarkerInterval(zoom: number): number {
   // Adjust interval based on zoom level
   if (zoom > 200) return 0.5;
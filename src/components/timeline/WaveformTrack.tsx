@@ -1,5 +1,5 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { useProjectStore } from '../../store';
+import { useProjectStore, snapTime, SNAP_DISTANCE_PX } from '../../store';
 
 interface WaveformTrackProps {
   width: number;
@@ -112,7 +112,9 @@ export default function WaveformTrack({ width, zoom, onRequestLoadAudio }: Wavef
       // Seek to clicked position
       const rect = e.currentTarget.getBoundingClientRect();
       const x = e.clientX - rect.left;
-      const time = x / zoom;
+      const time = e.altKey
+        ? x / zoom
+        : snapTime(x / zoom, useProjectStore.getState(), SNAP_DISTANCE_PX / zoom, { excludePlayhead: true });
       seek(Math.max(0, Math.min(time, playback.duration)));
     } else if (onRequestLoadAudio) {
       // Use provided callback
@@ -138,7 +140,9 @@ export default function WaveformTrack({ width, zoom, onRequestLoadAudio }: Wavef
     
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
-    const time = Math.max(0, Math.min(x / zoom, playback.duration));
+    // Snap the new marker unless Alt is held
+    const snapped = e.altKey ? x / zoom : snapTime(x / zoom, useProjectStore.getState(), SNAP_DISTANCE_PX / zoom);
+    const time = Math.max(0, Math.min(snapped, playback.duration));
     addMarker(time);
   }, [audioBuffer, zoom, playback.duration, addMarker]);
 
@@ -0,0 +1,128 @@
+import type { KeyFrame, RGBColor, ColorSpace } from '../types';
+
+/**
+ * Interpolate between two colors based on a value 0-1
+ */
+export function interpolateColor(offColor: string, onColor: string, value: number): string {
+  const off = parseHexColor(offColor);
+  const on = parseHexColor(onColor);
+
+  return rgbToCss(mixColors(off, on, value, 'rgb'));
+}
+
+/**
+ * Color of a keyframe on an RGB actor (scalar keyframes become dimmed white)
+ */
+export function getKeyframeColor(keyframe: KeyFrame): RGBColor {
+  if (keyframe.color) return keyframe.color;
+  const level = Math.round(keyframe.value * 255);
+  return { r: level, g: level, b: level };
+}
+
+/**
+ * Brightness (HSV value) of a color, used as the scalar value of color keyframes
+ */
+export function getColorBrightness(color: RGBColor): number {
+  return Math.max(color.r, color.g, color.b) / 255;
+}
+
+/**
+ * Rescale a color to a brightness (0-1), keeping its hue (black becomes white)
+ */
+export function scaleColorToBrightness(color: RGBColor, brightness: number): RGBColor {
+  const current = getColorBrightness(color);
+  const base = current > 0 ? color : { r: 255, g: 255, b: 255 };
+  const factor = brightness / (current > 0 ? current : 1);
+  const clamp = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+  return { r: clamp(base.r * factor), g: clamp(base.g * factor), b: clamp(base.b * factor) };
+}
+
+/**
+ * Blend two colors, either channel-wise in RGB or around the hue wheel in HSV
+ */
+export function mixColors(from: RGBColor, to: RGBColor, t: number, space: ColorSpace): RGBColor {
+  const clamp = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+
+  if (space === 'hsv') {
+    const a = rgbToHsv(from);
+    const b = rgbToHsv(to);
+    // Greys have no meaningful hue - borrow the other end's so fades don't swing through the wheel
+    const hueA = a.s === 0 ? b.h : a.h;
+    const hueB = b.s === 0 ? a.h : b.h;
+    // Take the shortest way around the hue wheel
+    let deltaH = hueB - hueA;
+    if (deltaH > 180) deltaH -= 360;
+    if (deltaH < -180) deltaH += 360;
+    const mixed = hsvToRgb({
+      h: (hueA + deltaH * t + 360) % 360,
+      s: a.s + (b.s - a.s) * t,
+      v: a.v + (b.v - a.v) * t,
+    });
+    return { r: clamp(mixed.r), g: clamp(mixed.g), b: clamp(mixed.b) };
+  }
+
+  return {
+    r: clamp(from.r + (to.r - from.r) * t),
+    g: clamp(from.g + (to.g - from.g) * t),
+    b: clamp(from.b + (to.b - from.b) * t),
+  };
+}
+
+export function parseHexColor(hex: string): RGBColor {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+      }
+    : { r: 0, g: 0, b: 0 };
+}
+
+export function rgbToHex(color: RGBColor): string {
+  const toHex = (n: number) => Math.round(n).toString(16).padStart(2, '0');
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+}
+
+export function rgbToCss(color: RGBColor): string {
+  return `rgb(${color.r}, ${color.g}, ${color.b})`;
+}
+
+function rgbToHsv({ r, g, b }: RGBColor): { h: number; s: number; v: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = 60 * (((g - b) / delta) % 6);
+    else if (max === g) h = 60 * ((b - r) / delta + 2);
+    else h = 60 * ((r - g) / delta + 4);
+  }
+
+  return {
+    h: (h + 360) % 360,
+    s: max === 0 ? 0 : delta / max,
+    v: max / 255,
+  };
+}
+
+function hsvToRgb({ h, s, v }: { h: number; s: number; v: number }): RGBColor {
+  const c = v * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = v - c;
+
+  let rgb: [number, number, number];
+  if (h < 60) rgb = [c, x, 0];
+  else if (h < 120) rgb = [x, c, 0];
+  else if (h < 180) rgb = [0, c, x];
+  else if (h < 240) rgb = [0, x, c];
+  else if (h < 300) rgb = [x, 0, c];
+  else rgb = [c, 0, x];
+
+  return {
+    r: (rgb[0] + m) * 255,
+    g: (rgb[1] + m) * 255,
+    b: (rgb[2] + m) * 255,
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, OutputConstraints } from '../types';
+import {
+  checkOutputSwitches,
+  enforceConstraints,
+  getOutputSwitches,
+  hasConstraints,
+  isOutputOn,
+  type OutputSwitch,
+} from './constraints';
+
+const actor = (constraints?: OutputConstraints): Actor => ({
+  id: 'a1',
+  label: 'Relay',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  constraints,
+});
+
+// Switches alternating on and off at the given times, starting with on
+const alternating = (times: number[]): OutputSwitch[] => times.map((t, i) => ({ t, on: i % 2 === 0 }));
+
+describe('hasConstraints', () => {
+  it('needs a limit or binary output', () => {
+    expect(hasConstraints(actor())).toBe(false);
+    expect(hasConstraints(actor({ threshold: 0.3 }))).toBe(false);
+    expect(hasConstraints(actor({ minOnTime: 0, maxSwitchRate: 0 }))).toBe(false);
+    expect(hasConstraints(actor({ binary: true }))).toBe(true);
+    expect(hasConstraints(actor({ minOffTime: 0.5 }))).toBe(true);
+    expect(hasConstraints(actor({ maxSwitchRate: 2 }))).toBe(true);
+  });
+});
+
+describe('isOutputOn', () => {
+  it('switches on at the threshold', () => {
+    expect(isOutputOn(0.49)).toBe(false);
+    expect(isOutputOn(0.5)).toBe(true);
+    expect(isOutputOn(0.2, { threshold: 0.2 })).toBe(true);
+    expect(isOutputOn(0.19, { threshold: 0.2 })).toBe(false);
+  });
+});
+
+describe('getOutputSwitches', () => {
+  it('lists changes between off and on', () => {
+    const points = [
+      { t: 0, state: 0 },
+      { t: 1, state: 0.6 },
+      { t: 2, state: 0.9 },
+      { t: 3, state: 0.1 },
+    ];
+    expect(getOutputSwitches(points)).toEqual({ initial: false, switches: [{ t: 1, on: true }, { t: 3, on: false }] });
+  });
+
+  it('lets changes at the first time set the start state', () => {
+    expect(getOutputSwitches([{ t: 0, state: 0 }, { t: 0, state: 1 }, { t: 2, state: 0 }])).toEqual({
+      initial: true,
+      switches: [{ t: 2, on: false }],
+    });
+  });
+
+  it('cancels changes at the same time', () => {
+    const points = [
+      { t: 0, state: 0 },
+      { t: 1, state: 1 },
+      { t: 1, state: 0 },
+    ];
+    expect(getOutputSwitches(points).switches).toEqual([]);
+  });
+
+  it('is off with no points', () => {
+    expect(getOutputSwitches([])).toEqual({ initial: false, switches: [] });
+  });
+});
+
+describe('checkOutputSwitches', () => {
+  it('flags states held shorter than the minimum', () => {
+    const violations = checkOutputSwitches(actor({ minOnTime: 1, minOffTime: 0.5 }), false, alternating([1, 1.5, 1.8, 3]));
+    expect(violations).toMatchObject([
+      { kind: 'min-on', start: 1, end: 1.5 },
+      { kind: 'min-off', start: 1.5, end: 1.8 },
+    ]);
+    expect(violations[0].message).toBe('Relay: on for 0.50s at 1.00s, needs at least 1s');
+  });
+
+  it('counts being on at the start as switching on', () => {
+    const violations = checkOutputSwitches(actor({ minOnTime: 1 }), true, [{ t: 0.5, on: false }]);
+    expect(violations).toMatchObject([{ kind: 'min-on', start: 0, end: 0.5 }]);
+  });
+
+  it('flags switches faster than the maximum rate', () => {
+    const violations = checkOutputSwitches(actor({ maxSwitchRate: 2 }), false, alternating([1, 1.4, 2]));
+    expect(violations).toMatchObject([{ kind: 'switch-rate', start: 1, end: 1.4 }]);
+  });
+
+  it('allows holds a hair under the limit from rounded cue times', () => {
+    expect(checkOutputSwitches(actor({ minOnTime: 0.3 }), false, alternating([1.1, 1.4]))).toEqual([]);
+  });
+});
+
+describe('enforceConstraints', () => {
+  it('keeps switches that follow the limits', () => {
+    expect(enforceConstraints(false, alternating([1, 3]), { minOnTime: 1 })).toEqual(alternating([1, 3]));
+  });
+
+  it('delays a switch until the state has been held long enough', () => {
+    expect(enforceConstraints(false, alternating([1, 1.2, 4]), { minOnTime: 1 })).toEqual([
+      { t: 1, on: true },
+      { t: 2, on: false },
+      { t: 4, on: true },
+    ]);
+  });
+
+  it('drops a switch when the show has switched back by then', () => {
+    expect(enforceConstraints(false, alternating([1, 1.2, 1.5, 3]), { minOnTime: 1 })).toEqual([
+      { t: 1, on: true },
+      { t: 3, on: false },
+    ]);
+  });
+
+  it('holds the start state when the prop starts on', () => {
+    expect(enforceConstraints(true, [{ t: 0.2, on: false }], { minOnTime: 1 })).toEqual([{ t: 1, on: false }]);
+  });
+
+  it('spaces switches by the maximum rate', () => {
+    expect(enforceConstraints(false, alternating([1, 1.1, 2, 2.05]), { maxSwitchRate: 5 })).toEqual([
+      { t: 1, on: true },
+      { t: 1.2, on: false },
+      { t: 2, on: true },
+      { t: 2.2, on: false },
+    ]);
+  });
+
+  it('keeps up with long shows', () => {
+    // A switch every 10 ms for half an hour, held to 1 s
+    const times = Array.from({ length: 180_000 }, (_, i) => i / 100);
+    const enforced = enforceConstraints(false, alternating(times), { minOnTime: 1, minOffTime: 1 });
+    expect(enforced.length).toBeGreaterThan(800);
+    expect(enforced.every((s, i) => i === 0 || s.t - enforced[i - 1].t >= 1 - 1e-9)).toBe(true);
+  });
+});
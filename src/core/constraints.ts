@@ -0,0 +1,151 @@
+import type { Actor, OutputConstraints } from '../types';
+
+export type ConstraintViolationKind = 'min-on' | 'min-off' | 'switch-rate';
+
+export interface ConstraintViolation {
+  actorId: string;
+  kind: ConstraintViolationKind;
+  start: number;  // seconds, the switch that began the too-short state
+  end: number;    // seconds, the switch that came too soon
+  message: string;
+}
+
+// A change of the prop between off and on
+export interface OutputSwitch {
+  t: number;
+  on: boolean;
+}
+
+const DEFAULT_THRESHOLD = 0.5;
+// Cue times are rounded to the millisecond, so holds a hair under the limit still count
+const TIME_EPSILON = 1e-6;
+
+/**
+ * Whether an actor has output constraints that change or check its export
+ */
+export function hasConstraints(actor: Actor): boolean {
+  const c = actor.constraints;
+  return !!c && (!!c.binary || !!c.minOnTime || !!c.minOffTime || !!c.maxSwitchRate);
+}
+
+/**
+ * Whether a level switches the prop on
+ */
+export function isOutputOn(value: number, constraints: OutputConstraints = {}): boolean {
+  return value >= (constraints.threshold ?? DEFAULT_THRESHOLD);
+}
+
+/**
+ * The on/off state at the first point and every change after it, from points sorted by time.
+ * Changes at the same time cancel out, and any at the first point's time set the start state.
+ */
+export function getOutputSwitches(
+  points: { t: number; state: number }[],
+  constraints: OutputConstraints = {}
+): { initial: boolean; switches: OutputSwitch[] } {
+  if (points.length === 0) return { initial: false, switches: [] };
+  const start = points[0].t;
+  let initial = isOutputOn(points[0].state, constraints);
+  let state = initial;
+  const switches: OutputSwitch[] = [];
+
+  for (const point of points.slice(1)) {
+    const on = isOutputOn(point.state, constraints);
+    if (on === state) continue;
+    if (point.t <= start) initial = on;
+    else if (switches.length > 0 && switches[switches.length - 1].t === point.t) switches.pop();
+    else switches.push({ t: point.t, on });
+    state = on;
+  }
+
+  return { initial, switches };
+}
+
+// Shortest time the prop may hold a state before switching again
+function getMinHold(on: boolean, constraints: OutputConstraints): number {
+  const rateGap = constraints.maxSwitchRate ? 1 / constraints.maxSwitchRate : 0;
+  return Math.max((on ? constraints.minOnTime : constraints.minOffTime) ?? 0, rateGap);
+}
+
+/**
+ * Every switch that comes before the prop may switch again. Being on at the start of the
+ * show counts as switching on then.
+ */
+export function checkOutputSwitches(
+  actor: Actor,
+  initial: boolean,
+  switches: OutputSwitch[]
+): ConstraintViolation[] {
+  const constraints = actor.constraints ?? {};
+  const violations: ConstraintViolation[] = [];
+  let prev: OutputSwitch | null = initial ? { t: 0, on: true } : null;
+
+  for (const next of switches) {
+    if (prev) {
+      const held = next.t - prev.t;
+      const minHold = (prev.on ? constraints.minOnTime : constraints.minOffTime) ?? 0;
+      const at = `${held.toFixed(2)}s at ${prev.t.toFixed(2)}s`;
+      if (held < minHold - TIME_EPSILON) {
+        violations.push({
+          actorId: actor.id,
+          kind: prev.on ? 'min-on' : 'min-off',
+          start: prev.t,
+          end: next.t,
+          message: `${actor.label}: ${prev.on ? 'on' : 'off'} for ${at}, needs at least ${minHold}s`,
+        });
+      } else if (held < getMinHold(prev.on, constraints) - TIME_EPSILON) {
+        violations.push({
+          actorId: actor.id,
+          kind: 'switch-rate',
+          start: prev.t,
+          end: next.t,
+          message: `${actor.label}: switches ${at}, faster than ${constraints.maxSwitchRate} per second`,
+        });
+      }
+    }
+    prev = next;
+  }
+
+  return violations;
+}
+
+/**
+ * The switches the prop can actually make: each change waits until the current state has
+ * been held long enough, and is dropped if the show has switched back by then.
+ */
+export function enforceConstraints(
+  initial: boolean,
+  switches: OutputSwitch[],
+  constraints: OutputConstraints = {}
+): OutputSwitch[] {
+  // The state the show wants, read off the switches with a cursor that only moves forward
+  let next = 0;
+  let wanted = initial;
+  const wantedAt = (t: number) => {
+    while (next < switches.length && switches[next].t <= t) wanted = switches[next++].on;
+    return wanted;
+  };
+
+  const result: OutputSwitch[] = [];
+  let state = initial;
+  let lastSwitch = initial ? 0 : -Infinity;
+  let cursor = 0;
+
+  for (;;) {
+    // Next time the show wants the other state
+    let due: number | undefined = wantedAt(cursor) !== state ? cursor : undefined;
+    for (let i = next; due === undefined && i < switches.length; i++) {
+      if (switches[i].on !== state) due = switches[i].t;
+    }
+    if (due === undefined) break;
+    const t = Math.max(due, lastSwitch + getMinHold(state, constraints));
+    if (wantedAt(t) !== state) {
+      state = !state;
+      lastSwitch = t;
+      result.push({ t: Math.round(t * 1000) / 1000, on: state });
+    }
+    cursor = t;
+  }
+
+  return result;
+}
@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, ActorChannel, OutputController } from '../types';
+import { cuesToKeyframes, estimateCueCount, generateCues, getConstraintViolations, parseCueFile } from './cues';
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'linear',
+  channels: [],
+  ...fields,
+});
+
+const channel = (fields: Partial<ActorChannel> = {}): ActorChannel => ({
+  id: 'c1',
+  name: 'Dimmer',
+  type: 'dimmer',
+  keyframes: [],
+  interpolation: 'step',
+  ...fields,
+});
+
+const ramp = actor({
+  keyframes: [
+    { id: 'k1', time: 0, value: 0 },
+    { id: 'k2', time: 2, value: 1 },
+  ],
+});
+
+describe('generateCues', () => {
+  it('exports step lanes at their keyframes only', () => {
+    const stepped = actor({
+      interpolation: 'step',
+      keyframes: [
+        { id: 'k1', time: 1, value: 1 },
+        { id: 'k2', time: 2.5, value: 0 },
+      ],
+    });
+    const cues = generateCues([stepped], { duration: 10, tickRate: 0.1 });
+    expect(cues).toEqual([
+      { t: 0, id: 'Tree', state: 1 },
+      { t: 1, id: 'Tree', state: 1 },
+      { t: 2.5, id: 'Tree', state: 0 },
+    ]);
+  });
+
+  it('ticks smooth lanes over the whole duration', () => {
+    const cues = generateCues([ramp], { duration: 2, tickRate: 0.1 });
+    expect(cues).toHaveLength(21);
+    expect(cues.map((cue) => cue.t)).toEqual(Array.from({ length: 21 }, (_, i) => Math.round(i * 100) / 1000));
+    expect(cues[10].state).toBe(0.5);
+    // 20 summed steps of 0.1 overshoot 2, which used to drop this cue
+    expect(cues[20]).toEqual({ t: 2, id: 'Tree', state: 1 });
+    expect(estimateCueCount([ramp], { duration: 2, tickRate: 0.1 })).toBe(21);
+  });
+
+  it('stops ticking before a partial last tick', () => {
+    const cues = generateCues([ramp], { duration: 1, tickRate: 0.3 });
+    expect(cues.map((cue) => cue.t)).toEqual([0, 0.3, 0.6, 0.9]);
+  });
+
+  it('exports smooth lanes at their keyframes without a duration', () => {
+    const cues = generateCues([ramp], { duration: 0, tickRate: 0.1 });
+    expect(cues.map((cue) => [cue.t, cue.state])).toEqual([[0, 0], [0, 0], [2, 1]]);
+  });
+
+  it('snaps step segments inside smooth lanes at their exact time', () => {
+    const mixed = actor({
+      keyframes: [
+        { id: 'k1', time: 0, value: 0.2, interpolation: 'step' },
+        { id: 'k2', time: 0.25, value: 0.8 },
+        { id: 'k3', time: 0.5, value: 0.4 },
+      ],
+    });
+    const cues = generateCues([mixed], { duration: 0.5, tickRate: 0.1 });
+    expect(cues.map((cue) => [cue.t, cue.state])).toEqual([
+      [0, 0.2], [0.1, 0.2], [0.2, 0.2], [0.25, 0.8], [0.3, 0.72], [0.4, 0.56], [0.5, 0.4],
+    ]);
+  });
+
+  it('exports channel lanes after their main lane', () => {
+    const withChannel = actor({
+      interpolation: 'step',
+      keyframes: [{ id: 'k1', time: 0, value: 1 }],
+      channels: [channel({ keyframes: [{ id: 'k2', time: 1, value: 0.5 }] })],
+    });
+    const cues = generateCues([withChannel], { duration: 0, tickRate: 0.1 });
+    expect(cues).toEqual([
+      { t: 0, id: 'Tree', state: 1 },
+      { t: 0, id: 'Tree', state: 1 },
+      { t: 0, id: 'Tree', channel: 'Dimmer', state: 0.5 },
+      { t: 1, id: 'Tree', channel: 'Dimmer', state: 0.5 },
+    ]);
+  });
+
+  it('adds colors on RGB lanes and the address on patched lanes', () => {
+    const controller: OutputController = {
+      id: 'ctl', name: 'Yard', protocol: 'e131', startUniverse: 3, channelCount: 1024,
+    };
+    const rgb = actor({
+      kind: 'rgb',
+      interpolation: 'step',
+      keyframes: [{ id: 'k1', time: 0, value: 1, color: { r: 255, g: 128, b: 0 } }],
+      channels: [channel()],
+      patch: { controllerId: 'ctl', address: 512 },
+    });
+    const [main, , dimmer] = generateCues([rgb], { duration: 0, tickRate: 0.1, controllers: [controller] });
+    expect(main).toEqual({ t: 0, id: 'Tree', state: 1, controller: 'Yard', universe: 3, address: 512, r: 255, g: 128, b: 0 });
+    // The dimmer follows the three color channels, into the next universe
+    expect(dimmer).toEqual({ t: 0, id: 'Tree', channel: 'Dimmer', state: 0, controller: 'Yard', universe: 4, address: 3 });
+  });
+
+  it('leaves unpatched lanes without an address', () => {
+    const cues = generateCues([ramp], { duration: 0, tickRate: 0.1, controllers: [] });
+    expect(cues.every((cue) => cue.address === undefined && cue.controller === undefined)).toBe(true);
+  });
+
+  describe('output constraints', () => {
+    const relay = actor({
+      interpolation: 'step',
+      keyframes: [
+        { id: 'k1', time: 0, value: 0.8 },
+        { id: 'k2', time: 0.2, value: 0.1 },
+        { id: 'k3', time: 0.4, value: 0.9 },
+        { id: 'k4', time: 2, value: 0 },
+      ],
+      constraints: { minOnTime: 1 },
+    });
+
+    it('exports levels as they are unless binary or enforced', () => {
+      const cues = generateCues([relay], { duration: 0, tickRate: 0.1 });
+      expect(cues.map((cue) => cue.state)).toEqual([0.8, 0.8, 0.1, 0.9, 0]);
+    });
+
+    it('snaps binary props to full on and off at each switch', () => {
+      const binary = { ...relay, constraints: { binary: true } };
+      const cues = generateCues([binary], { duration: 0, tickRate: 0.1 });
+      expect(cues.map((cue) => [cue.t, cue.state])).toEqual([[0, 1], [0.2, 0], [0.4, 1], [2, 0]]);
+    });
+
+    it('holds switches as long as the prop needs when enforced', () => {
+      const cues = generateCues([relay], { duration: 0, tickRate: 0.1, enforceConstraints: true });
+      expect(cues.map((cue) => [cue.t, cue.state])).toEqual([[0, 1], [2, 0]]);
+    });
+
+    it('exports lanes too long to spread into one call', () => {
+      const long = actor({
+        keyframes: [
+          { id: 'k1', time: 0, value: 0 },
+          { id: 'k2', time: 180, value: 1 },
+        ],
+      });
+      expect(generateCues([long], { duration: 180, tickRate: 0.001 })).toHaveLength(180_001);
+
+      // Switching every tick, held to a tenth of a second
+      const flicker = actor({
+        interpolation: 'step',
+        keyframes: Array.from({ length: 180_001 }, (_, i) => ({ id: `k${i}`, time: i / 1000, value: i % 2 })),
+        constraints: { binary: true, minOnTime: 0.1, minOffTime: 0.1 },
+      });
+      const cues = generateCues([flicker], { duration: 180, tickRate: 0.001, enforceConstraints: true });
+      expect(cues.length).toBeGreaterThan(1000);
+      // The first switch on comes straight away: the prop starts off with nothing to wait for
+      expect(cues.every((cue, i) => i < 2 || cue.t - cues[i - 1].t >= 0.1 - 1e-9)).toBe(true);
+    });
+
+    it('reports the switches that come too soon', () => {
+      const violations = getConstraintViolations([relay], { duration: 0, tickRate: 0.1 });
+      expect(violations).toMatchObject([{ actorId: 'a1', kind: 'min-on', start: 0, end: 0.2 }]);
+    });
+  });
+});
+
+describe('cuesToKeyframes', () => {
+  it('rebuilds smooth lanes as linear keyframes at their corners', () => {
+    const peak = actor({
+      keyframes: [
+        { id: 'k1', time: 0, value: 0 },
+        { id: 'k2', time: 1, value: 1 },
+        { id: 'k3', time: 2, value: 0.5 },
+      ],
+    });
+    const [lane] = cuesToKeyframes(generateCues([peak], { duration: 2, tickRate: 0.1 }));
+    expect(lane).toEqual({
+      id: 'Tree',
+      isColor: false,
+      interpolation: 'linear',
+      keyframes: [
+        { time: 0, value: 0 },
+        { time: 1, value: 1 },
+        { time: 2, value: 0.5 },
+      ],
+    });
+  });
+
+  it('keeps the last tick of a ramp', () => {
+    const [lane] = cuesToKeyframes(generateCues([ramp], { duration: 2, tickRate: 0.1 }));
+    expect(lane.keyframes).toEqual([{ time: 0, value: 0 }, { time: 2, value: 1 }]);
+  });
+
+  it('rebuilds step lanes, channels, colors and the patch', () => {
+    const controller: OutputController = {
+      id: 'ctl', name: 'Porch', protocol: 'pins', startUniverse: 1, channelCount: 8,
+    };
+    const rgb = actor({
+      kind: 'rgb',
+      interpolation: 'step',
+      keyframes: [
+        { id: 'k1', time: 0, value: 0, color: { r: 0, g: 0, b: 0 } },
+        { id: 'k2', time: 1, value: 1, color: { r: 255, g: 0, b: 0 } },
+        { id: 'k3', time: 3, value: 0.5, color: { r: 0, g: 0, b: 255 } },
+      ],
+      channels: [channel({ keyframes: [{ id: 'k4', time: 1.5, value: 1 }] })],
+      patch: { controllerId: 'ctl', address: 2 },
+    });
+    const lanes = cuesToKeyframes(generateCues([rgb], { duration: 4, tickRate: 0.1, controllers: [controller] }));
+    expect(lanes).toEqual([
+      {
+        id: 'Tree',
+        output: { controller: 'Porch', address: 2 },
+        isColor: true,
+        interpolation: 'step',
+        keyframes: [
+          { time: 0, value: 0, color: { r: 0, g: 0, b: 0 } },
+          { time: 1, value: 1, color: { r: 255, g: 0, b: 0 } },
+          { time: 3, value: 0.5, color: { r: 0, g: 0, b: 255 } },
+        ],
+      },
+      {
+        id: 'Tree',
+        channel: 'Dimmer',
+        output: { controller: 'Porch', address: 5 },
+        isColor: false,
+        interpolation: 'step',
+        keyframes: [{ time: 0, value: 1 }],
+      },
+    ]);
+  });
+
+  it('keeps up with long lanes', () => {
+    // Ten minutes of 10 ms ticks on one lane, fading up and down every two seconds
+    const cues = Array.from({ length: 60_001 }, (_, i) => ({ t: i / 100, id: 'Tree', state: Math.abs((i % 200) - 100) / 100 }));
+    const [lane] = cuesToKeyframes(cues);
+    expect(lane.interpolation).toBe('linear');
+    expect(lane.keyframes).toHaveLength(601);
+  });
+});
+
+describe('parseCueFile', () => {
+  it('reads JSON arrays and one cue per line', () => {
+    const cue = { t: 1, id: 'Tree', state: 0.5 };
+    expect(parseCueFile(JSON.stringify([cue]))).toEqual([cue]);
+    expect(parseCueFile(`${JSON.stringify(cue)}\n\n${JSON.stringify({ ...cue, t: 2 })}\n`)).toEqual([cue, { ...cue, t: 2 }]);
+  });
+
+  it('clamps states and drops unknown fields', () => {
+    expect(parseCueFile('[{"t":0,"id":"Tree","state":3,"extra":true,"r":1,"g":2}]')).toEqual([{ t: 0, id: 'Tree', state: 1 }]);
+  });
+
+  it('rejects text that is not a list of cues', () => {
+    expect(() => parseCueFile('t,id,state\n0,Tree,1')).toThrow('Not a cue list');
+    expect(() => parseCueFile('{"t":0,"id":"Tree","state":1}')).toThrow('Not a cue list');
+    expect(() => parseCueFile('"cues"')).toThrow('Not a cue list');
+  });
+
+  it('rejects cues without a time, actor or state', () => {
+    const message = (n: number) => `Cue ${n} needs a time (t), an actor (id) and a state`;
+    expect(() => parseCueFile('[null]')).toThrow(message(1));
+    expect(() => parseCueFile('[{"id":"Tree","state":1}]')).toThrow(message(1));
+    expect(() => parseCueFile('[{"t":-1,"id":"Tree","state":1}]')).toThrow(message(1));
+    expect(() => parseCueFile('[{"t":0,"id":"","state":1}]')).toThrow(message(1));
+    expect(() => parseCueFile('[{"t":0,"id":"Tree","state":"on"}]')).toThrow(message(1));
+    expect(() => parseCueFile('{"t":0,"id":"Tree","state":1}\n{"t":1,"id":"Tree"}')).toThrow(message(2));
+  });
+});
@@ -0,0 +1,358 @@
+import type { Actor, ExportedCue, KeyFrame, KeyframeLane, OutputConstraints, OutputController, RGBColor } from '../types';
+import { getKeyframeColor } from './color';
+import { getActorValueAtTime, getActorColorAtTime, getSegmentCurve, isSteppedActor } from './evaluate';
+import { getChannelMap, getOutputAddress } from './patch';
+import {
+  checkOutputSwitches,
+  enforceConstraints,
+  getOutputSwitches,
+  hasConstraints,
+  type ConstraintViolation,
+  type OutputSwitch,
+} from './constraints';
+
+export type CueFormat = 'json' | 'ndjson' | 'csv';
+
+// Keyframes rebuilt from one lane's cues
+export interface CueImportLane {
+  id: string;        // Actor label
+  channel?: string;  // Channel lane name, absent for the actor's main keyframes
+  output?: Pick<ExportedCue, 'controller' | 'universe' | 'address'>;  // Where the cues said the lane is patched
+  isColor: boolean;  // Cues carried r, g, b
+  interpolation: 'step' | 'linear';
+  keyframes: Omit<KeyFrame, 'id'>[];
+}
+
+// How far a rebuilt lane may stray from its cues (about one 8-bit level)
+const CUE_IMPORT_TOLERANCE = 0.005;
+
+export const CUE_FORMATS: CueFormat[] = ['json', 'ndjson', 'csv'];
+
+// Seconds between sampled cues unless the export says otherwise
+export const DEFAULT_TICK_RATE = 0.1;
+
+export interface CueOptions {
+  duration: number;  // seconds; 0 exports keyframes only
+  tickRate: number;  // seconds between sampled cues on smooth lanes
+  controllers?: OutputController[];  // Output patch; cues on patched lanes carry their address
+  enforceConstraints?: boolean;  // Delay or drop switches that break an actor's output constraints
+}
+
+// Ticks from t=0 up to and including the end, when the tick rate divides the duration
+function getTickCount(duration: number, tickRate: number): number {
+  return Math.floor(duration / tickRate + 1e-9) + 1;
+}
+
+interface ExportLane {
+  actor: Actor;
+  lane: KeyframeLane;
+  channel?: string;  // Channel name, absent for the actor's main keyframes
+  isColor: boolean;
+}
+
+/**
+ * Every keyframe lane that produces cues: each actor's main lane plus its channels
+ */
+function getExportLanes(actors: Actor[]): ExportLane[] {
+  return actors.flatMap((actor) => [
+    { actor, lane: actor as KeyframeLane, isColor: actor.kind === 'rgb' },
+    ...actor.channels.map((channel) => ({
+      actor,
+      lane: channel,
+      channel: channel.name,
+      isColor: channel.type === 'color',
+    })),
+  ]);
+}
+
+/**
+ * Flatten a show into cues, sorted by time
+ */
+export function generateCues(
+  actors: Actor[],
+  { duration, tickRate, controllers = [], enforceConstraints: shouldEnforce = false }: CueOptions
+): ExportedCue[] {
+  const cues: ExportedCue[] = [];
+  const outputs = new Map(
+    getChannelMap(actors, controllers).flatMap(({ lane, controller, address }) =>
+      controller && address ? [[lane, { controller: controller.name, ...getOutputAddress(controller, address) }] as const] : []
+    )
+  );
+
+  // Color lanes carry their color channels alongside the brightness state, channel lanes
+  // name the channel they belong to, and patched lanes say where they're wired
+  const laneFields = ({ lane, isColor, channel }: ExportLane, color: () => RGBColor) => ({
+    ...(channel !== undefined ? { channel } : {}),
+    ...outputs.get(lane),
+    ...(isColor ? color() : {}),
+  });
+
+  // Cue at a keyframe: its exact value
+  const keyframeCue = (lane: ExportLane, kf: KeyFrame): ExportedCue => ({
+    t: Math.round(kf.time * 1000) / 1000,
+    id: lane.actor.label,
+    state: kf.value,
+    ...laneFields(lane, () => getKeyframeColor(kf)),
+  });
+
+  // Cue sampled from the lane's curve
+  const sampledCue = (lane: ExportLane, t: number, roundState: boolean): ExportedCue => {
+    const value = getActorValueAtTime(lane.lane, t);
+    return {
+      t: Math.round(t * 1000) / 1000,
+      id: lane.actor.label,
+      state: roundState ? Math.round(value * 1000) / 1000 : value,
+      ...laneFields(lane, () => getActorColorAtTime(lane.lane, t)),
+    };
+  };
+
+  for (const exportLane of getExportLanes(actors)) {
+    const { actor, lane } = exportLane;
+    const laneCues: ExportedCue[] = [];
+    if (isSteppedActor(lane) || duration === 0) {
+      // Step interpolation: only export keyframe times (value holds until next keyframe)
+      // Smooth actors without audio fall back to the same - there is no duration to tick over
+      // Add initial state at t=0
+      laneCues.push(sampledCue(exportLane, 0, false));
+
+      // Add each keyframe
+      for (const kf of lane.keyframes) {
+        laneCues.push(keyframeCue(exportLane, kf));
+      }
+    } else {
+      // Linear/eased interpolation: generate values at tick rate intervals
+      // (counted rather than summed, so float drift can't drop the last tick)
+      for (let i = 0; i < getTickCount(duration, tickRate); i++) {
+        laneCues.push(sampledCue(exportLane, Math.min(i * tickRate, duration), true));
+      }
+
+      // Step segments inside a smooth track snap at their exact keyframe time
+      lane.keyframes.forEach((kf, i) => {
+        const prev = lane.keyframes[i - 1];
+        if (prev && getSegmentCurve(lane, prev).interpolation === 'step') {
+          laneCues.push(keyframeCue(exportLane, kf));
+        }
+      });
+    }
+
+    // Binary props get a cue per switch, held as long as their constraints need when enforced
+    const constraints = actor.constraints;
+    const exported = exportLane.channel === undefined && constraints && (constraints.binary || (shouldEnforce && hasConstraints(actor)))
+      ? getSwitchCues(laneCues, (initial, switches) =>
+        shouldEnforce ? enforceConstraints(initial, switches, constraints) : switches, constraints)
+      : laneCues;
+    // One at a time: spreading a long lane into push() overflows the call stack
+    for (const cue of exported) cues.push(cue);
+  }
+
+  // Sort by time, then by id (main lane before its channels)
+  cues.sort((a, b) =>
+    a.t - b.t || a.id.localeCompare(b.id) || (a.channel ?? '').localeCompare(b.channel ?? '')
+  );
+
+  return cues;
+}
+
+/**
+ * A lane's cues as full on or off at the start and at each switch, keeping the fields
+ * (color, address) of the cue in effect at the time
+ */
+function getSwitchCues(
+  laneCues: ExportedCue[],
+  adjust: (initial: boolean, switches: OutputSwitch[]) => OutputSwitch[],
+  constraints: OutputConstraints
+): ExportedCue[] {
+  const sorted = [...laneCues].sort((a, b) => a.t - b.t);
+  if (sorted.length === 0) return [];
+  const { initial, switches } = getOutputSwitches(sorted, constraints);
+  // The last cue at or before a time; switch times only grow, so the index only moves forward
+  let index = 0;
+  const cueAt = (t: number) => {
+    while (index + 1 < sorted.length && sorted[index + 1].t <= t) index++;
+    return sorted[index];
+  };
+  return [{ t: sorted[0].t, on: initial }, ...adjust(initial, switches)].map(({ t, on }) => ({
+    ...cueAt(t),
+    t,
+    state: on ? 1 : 0,
+  }));
+}
+
+/**
+ * Where each constrained actor's exported main lane switches sooner than its prop allows
+ */
+export function getConstraintViolations(actors: Actor[], options: CueOptions): ConstraintViolation[] {
+  return actors.filter(hasConstraints).flatMap((actor) => {
+    const laneCues = generateCues([{ ...actor, channels: [], constraints: undefined }], { ...options, enforceConstraints: false });
+    const { initial, switches } = getOutputSwitches(laneCues, actor.constraints);
+    return checkOutputSwitches(actor, initial, switches);
+  });
+}
+
+/**
+ * Roughly how many cues `generateCues` will produce, without generating them
+ */
+export function estimateCueCount(actors: Actor[], { duration, tickRate }: CueOptions): number {
+  let count = 0;
+
+  for (const { lane } of getExportLanes(actors)) {
+    if (isSteppedActor(lane)) {
+      // Step: 1 initial + number of keyframes
+      count += 1 + lane.keyframes.length;
+    } else {
+      // Linear/eased: ticks over duration (or keyframes if no duration)
+      if (duration === 0) {
+        count += 1 + lane.keyframes.length;
+      } else {
+        count += getTickCount(duration, tickRate);
+      }
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Serialize cues as pretty JSON (the editor's export), one JSON object per line, or CSV
+ */
+export function formatCues(cues: ExportedCue[], format: CueFormat): string {
+  switch (format) {
+    case 'ndjson':
+      return cues.map((cue) => JSON.stringify(cue)).join('\n') + '\n';
+    case 'csv': {
+      // Fields a cue doesn't have are left empty
+      const field = (value: string | number | undefined) =>
+        value === undefined ? '' : /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+      // Patch columns come last so the original columns keep their places
+      const rows = cues.map((cue) =>
+        [cue.t, cue.id, cue.channel, cue.state, cue.r, cue.g, cue.b, cue.controller, cue.universe, cue.address].map(field).join(',')
+      );
+      return ['t,id,channel,state,r,g,b,controller,universe,address', ...rows].join('\n') + '\n';
+    }
+    case 'json':
+    default:
+      return JSON.stringify(cues, null, 2);
+  }
+}
+
+/**
+ * Read a cue list exported by Griswold or written by hand: a JSON array, or one cue per line
+ */
+export function parseCueFile(text: string): ExportedCue[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    try {
+      data = text.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+    } catch {
+      throw new Error('Not a cue list');
+    }
+  }
+  if (!Array.isArray(data)) throw new Error('Not a cue list');
+
+  return data.map((item, i) => {
+    const cue = item as Partial<ExportedCue> | null;
+    if (
+      !cue || typeof cue !== 'object' ||
+      !(typeof cue.t === 'number' && cue.t >= 0) ||
+      typeof cue.id !== 'string' || !cue.id ||
+      !(typeof cue.state === 'number' && Number.isFinite(cue.state))
+    ) {
+      throw new Error(`Cue ${i + 1} needs a time (t), an actor (id) and a state`);
+    }
+    const hasColor = typeof cue.r === 'number' && typeof cue.g === 'number' && typeof cue.b === 'number';
+    return {
+      t: cue.t,
+      id: cue.id,
+      state: Math.max(0, Math.min(1, cue.state)),
+      ...(typeof cue.channel === 'string' ? { channel: cue.channel } : {}),
+      ...(typeof cue.controller === 'string' ? { controller: cue.controller } : {}),
+      ...(typeof cue.universe === 'number' ? { universe: cue.universe } : {}),
+      ...(typeof cue.address === 'number' ? { address: cue.address } : {}),
+      ...(hasColor ? { r: cue.r, g: cue.g, b: cue.b } : {}),
+    };
+  });
+}
+
+/**
+ * Turn cues back into keyframes, one lane per actor and channel. Each lane becomes step
+ * keyframes at its changes or linear keyframes at its corners, whichever needs fewer.
+ */
+export function cuesToKeyframes(cues: ExportedCue[]): CueImportLane[] {
+  const lanes = new Map<string, ExportedCue[]>();
+  for (const cue of cues) {
+    const key = JSON.stringify([cue.id, cue.channel ?? null]);
+    const lane = lanes.get(key);
+    if (lane) lane.push(cue);
+    else lanes.set(key, [cue]);
+  }
+
+  return [...lanes.values()].map((laneCues) => {
+    // One cue per time, the last one listed wins
+    const byTime = new Map(laneCues.map((cue) => [cue.t, cue]));
+    const points = [...byTime.values()].sort((a, b) => a.t - b.t);
+    const isColor = points.some((cue) => cue.r !== undefined);
+    const levels = points.map((cue) =>
+      isColor ? [cue.state, (cue.r ?? 0) / 255, (cue.g ?? 0) / 255, (cue.b ?? 0) / 255] : [cue.state]
+    );
+
+    const stepped = points.filter((_, i) =>
+      i === 0 || levels[i].some((level, d) => Math.abs(level - levels[i - 1][d]) > CUE_IMPORT_TOLERANCE)
+    );
+    const linear = simplifyLinear(points.map((cue, i) => ({ cue, time: cue.t, levels: levels[i] }))).map((p) => p.cue);
+    const useLinear = linear.length < stepped.length;
+
+    const { controller, universe, address } = points[0];
+    return {
+      id: points[0].id,
+      ...(points[0].channel !== undefined ? { channel: points[0].channel } : {}),
+      ...(address !== undefined ? { output: { controller, universe, address } } : {}),
+      isColor,
+      interpolation: useLinear ? 'linear' : 'step',
+      keyframes: (useLinear ? linear : stepped).map((cue) => ({
+        time: cue.t,
+        value: cue.state,
+        ...(isColor
+          ? { color: { r: Math.round(cue.r ?? 0), g: Math.round(cue.g ?? 0), b: Math.round(cue.b ?? 0) } }
+          : {}),
+      })),
+    };
+  });
+}
+
+/**
+ * Fewest points whose straight lines stay within tolerance of every point (Ramer-Douglas-Peucker)
+ */
+function simplifyLinear<T extends { time: number; levels: number[] }>(points: T[]): T[] {
+  if (points.length <= 2) return points;
+  const keep = new Set([0, points.length - 1]);
+  const ranges: [number, number][] = [[0, points.length - 1]];
+
+  while (ranges.length > 0) {
+    const [from, to] = ranges.pop()!;
+    const a = points[from];
+    const b = points[to];
+    let worst = -1;
+    let worstError = CUE_IMPORT_TOLERANCE;
+
+    for (let i = from + 1; i < to; i++) {
+      const progress = (points[i].time - a.time) / (b.time - a.time);
+      let error = 0;
+      points[i].levels.forEach((level, d) => {
+        error = Math.max(error, Math.abs(level - (a.levels[d] + (b.levels[d] - a.levels[d]) * progress)));
+      });
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+
+    if (worst !== -1) {
+      keep.add(worst);
+      ranges.push([from, worst], [worst, to]);
+    }
+  }
+
+  return points.filter((_, i) => keep.has(i));
+}
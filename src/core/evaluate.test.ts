@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { EffectClip, KeyframeLane } from '../types';
+import { applyEasing, cubicBezier, getActorValueAtTime } from './evaluate';
+
+const lane = (fields: Partial<KeyframeLane> = {}): KeyframeLane => ({
+  keyframes: [
+    { id: 'a', time: 0, value: 0 },
+    { id: 'b', time: 2, value: 1 },
+  ],
+  interpolation: 'linear',
+  ...fields,
+});
+
+const effect = (fields: Partial<EffectClip>): EffectClip => ({
+  id: 'fx',
+  type: 'strobe',
+  start: 0,
+  end: 1,
+  rate: 1,
+  dutyCycle: 0.5,
+  phase: 0,
+  seed: 1,
+  low: 0,
+  high: 1,
+  ...fields,
+});
+
+describe('applyEasing', () => {
+  it('holds step segments until the end', () => {
+    expect(applyEasing(0, 'step')).toBe(0);
+    expect(applyEasing(0.99, 'step')).toBe(0);
+    expect(applyEasing(1, 'step')).toBe(1);
+  });
+
+  it('follows each curve between its ends', () => {
+    expect(applyEasing(0.5, 'linear')).toBe(0.5);
+    expect(applyEasing(0.5, 'easeIn')).toBeCloseTo(0.125);
+    expect(applyEasing(0.5, 'easeOut')).toBeCloseTo(0.875);
+    expect(applyEasing(0.25, 'easeInOut')).toBeCloseTo(0.0625);
+    expect(applyEasing(0.75, 'easeInOut')).toBeCloseTo(0.9375);
+    expect(applyEasing(0, 'exponential')).toBe(0);
+    expect(applyEasing(0.5, 'exponential')).toBeCloseTo(1 / 32);
+    expect(applyEasing(1, 'exponential')).toBe(1);
+  });
+
+  it('uses the default bezier when none is given', () => {
+    expect(applyEasing(0.5, 'bezier')).toBeCloseTo(0.5, 3);
+    expect(applyEasing(0.25, 'bezier')).toBeCloseTo(cubicBezier(0.42, 0, 0.58, 1, 0.25));
+    expect(applyEasing(0.25, 'bezier', [0, 0, 1, 1])).toBeCloseTo(0.25, 3);
+  });
+});
+
+describe('cubicBezier', () => {
+  it('pins the ends', () => {
+    expect(cubicBezier(0.1, 2, 0.9, -1, -0.5)).toBe(0);
+    expect(cubicBezier(0.1, 2, 0.9, -1, 0)).toBe(0);
+    expect(cubicBezier(0.1, 2, 0.9, -1, 1)).toBe(1);
+  });
+
+  it('matches CSS ease-in', () => {
+    // cubic-bezier(0.42, 0, 1, 1) at x = 0.5
+    expect(cubicBezier(0.42, 0, 1, 1, 0.5)).toBeCloseTo(0.3153, 3);
+  });
+
+  it('can overshoot', () => {
+    expect(cubicBezier(0.3, 1.6, 0.7, 1.6, 0.5)).toBeGreaterThan(1);
+  });
+});
+
+describe('getActorValueAtTime', () => {
+  it('interpolates with the lane curve and holds outside the keyframes', () => {
+    expect(getActorValueAtTime(lane(), -1)).toBe(0);
+    expect(getActorValueAtTime(lane(), 1)).toBeCloseTo(0.5);
+    expect(getActorValueAtTime(lane(), 5)).toBe(1);
+    expect(getActorValueAtTime(lane({ interpolation: 'easeIn' }), 1)).toBeCloseTo(0.125);
+  });
+
+  it('is 0 with no keyframes', () => {
+    expect(getActorValueAtTime(lane({ keyframes: [] }), 1)).toBe(0);
+  });
+
+  it('prefers a keyframe curve over the lane curve', () => {
+    const stepped = lane({
+      keyframes: [
+        { id: 'a', time: 0, value: 0, interpolation: 'step' },
+        { id: 'b', time: 2, value: 1, interpolation: 'linear' },
+        { id: 'c', time: 4, value: 0 },
+      ],
+    });
+    expect(getActorValueAtTime(stepped, 1.9)).toBe(0);
+    expect(getActorValueAtTime(stepped, 2)).toBe(1);
+    expect(getActorValueAtTime(stepped, 3)).toBeCloseTo(0.5);
+
+    const custom = lane({
+      keyframes: [
+        { id: 'a', time: 0, value: 0, interpolation: 'bezier', bezier: [0.42, 0, 1, 1] },
+        { id: 'b', time: 2, value: 1 },
+      ],
+    });
+    expect(getActorValueAtTime(custom, 1)).toBeCloseTo(0.3153, 3);
+  });
+
+  it('clamps overshooting curves to 0-1', () => {
+    const overshoot = lane({ interpolation: 'bezier', bezier: [0.3, 1.6, 0.7, 1.6] });
+    expect(getActorValueAtTime(overshoot, 1)).toBe(1);
+  });
+
+  it('lets an active effect override the keyframes', () => {
+    const strobed = lane({ effects: [effect({ start: 1, end: 2, rate: 2, low: 0.2, high: 0.8 })] });
+    expect(getActorValueAtTime(strobed, 0.5)).toBeCloseTo(0.25);
+    expect(getActorValueAtTime(strobed, 1.1)).toBe(0.8);
+    expect(getActorValueAtTime(strobed, 1.3)).toBe(0.2);
+    // The clip ends before its end time
+    expect(getActorValueAtTime(strobed, 2)).toBe(1);
+  });
+
+  it('gives overlaps to the later effect', () => {
+    const layered = lane({
+      effects: [
+        effect({ id: 'one', type: 'fade', start: 0, end: 2, low: 0, high: 1 }),
+        effect({ id: 'two', type: 'fade', start: 1, end: 2, low: 1, high: 1 }),
+      ],
+    });
+    expect(getActorValueAtTime(layered, 0.5)).toBeCloseTo(0.25);
+    expect(getActorValueAtTime(layered, 1.5)).toBe(1);
+  });
+});
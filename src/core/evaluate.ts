@@ -0,0 +1,273 @@
+import type {
+  Actor,
+  KeyFrame,
+  KeyframeLane,
+  EffectClip,
+  InterpolationType,
+  BezierCurve,
+  RGBColor,
+  ChannelType,
+} from '../types';
+import { DEFAULT_BEZIER } from '../types';
+import { getKeyframeColor, mixColors, scaleColorToBrightness } from './color';
+
+/**
+ * Get the interpolated value of an actor (or one of its channel lanes) at a given time
+ */
+export function getActorValueAtTime(actor: KeyframeLane, time: number): number {
+  const effect = getActiveEffect(actor, time);
+  if (effect) return getEffectValue(effect, time);
+
+  const segment = getSegmentAtTime(actor, time);
+  if (!segment) return 0;
+
+  const { from, to, progress } = segment;
+  const value = from.value + progress * (to.value - from.value);
+  
+  // Custom curves may overshoot - keep output within the 0-1 range
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Get the interpolated color of an RGB actor (or color channel) at a given time
+ */
+export function getActorColorAtTime(actor: KeyframeLane, time: number): RGBColor {
+  const segment = getSegmentAtTime(actor, time);
+  if (!segment) return { r: 0, g: 0, b: 0 };
+
+  const { from, to, progress } = segment;
+  const color = mixColors(getKeyframeColor(from), getKeyframeColor(to), progress, actor.colorSpace ?? 'rgb');
+
+  // Effects keep the keyframed hue but drive the brightness
+  const effect = getActiveEffect(actor, time);
+  return effect ? scaleColorToBrightness(color, getEffectValue(effect, time)) : color;
+}
+
+/**
+ * The effect clip in control of a lane at a given time (later clips win overlaps)
+ */
+function getActiveEffect(actor: KeyframeLane, time: number): EffectClip | null {
+  const { effects } = actor;
+  if (!effects) return null;
+  for (let i = effects.length - 1; i >= 0; i--) {
+    if (time >= effects[i].start && time < effects[i].end) return effects[i];
+  }
+  return null;
+}
+
+/**
+ * Evaluate an effect clip's pattern (0-1) at a given time
+ */
+export function getEffectValue(clip: EffectClip, time: number): number {
+  const { low, high, rate, dutyCycle, phase } = clip;
+  const local = time - clip.start;
+  const cycle = local * rate + phase;
+  const position = cycle - Math.floor(cycle);  // 0-1 through the current cycle
+  const mix = (amount: number) => low + (high - low) * amount;
+
+  switch (clip.type) {
+    case 'strobe':
+      return position < dutyCycle ? high : low;
+    case 'chase': {
+      // Full on for the duty cycle, then a tail of up to the same length fading out
+      if (position < dutyCycle) return high;
+      const tail = Math.min(dutyCycle, 1 - dutyCycle);
+      return tail > 0 && position < dutyCycle + tail ? mix(1 - (position - dutyCycle) / tail) : low;
+    }
+    case 'twinkle':
+      // Each cycle sparkles with a chance of dutyCycle, then decays
+      return seededRandom(clip.seed, Math.floor(cycle)) < dutyCycle ? mix(Math.pow(1 - position, 2)) : low;
+    case 'pulse':
+      return mix(0.5 - 0.5 * Math.cos(2 * Math.PI * position));
+    case 'fade': {
+      const duration = clip.end - clip.start;
+      return mix(duration > 0 ? Math.max(0, Math.min(1, local / duration)) : 1);
+    }
+    default:
+      return low;
+  }
+}
+
+/**
+ * Deterministic pseudo-random number (0-1) for the nth step of a seeded sequence
+ */
+export function seededRandom(seed: number, n: number): number {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(n, 0xc2b2ae35);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x7feb352d);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x846ca68b);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+/**
+ * Find the keyframes surrounding a time and the eased progress between them
+ */
+function getSegmentAtTime(
+  actor: KeyframeLane,
+  time: number
+): { from: KeyFrame; to: KeyFrame; progress: number } | null {
+  const { keyframes } = actor;
+  
+  if (keyframes.length === 0) return null;
+  
+  // Find surrounding keyframes
+  let before: KeyFrame | null = null;
+  let after: KeyFrame | null = null;
+  
+  for (const kf of keyframes) {
+    if (kf.time <= time) {
+      before = kf;
+    }
+    if (kf.time >= time && !after) {
+      after = kf;
+    }
+  }
+  
+  // If no keyframe before, hold the first keyframe
+  if (!before) return after ? { from: after, to: after, progress: 0 } : null;
+  
+  // If no keyframe after (or same keyframe), hold the last keyframe
+  if (!after || before.time === after.time) return { from: before, to: before, progress: 0 };
+  
+  // The segment's curve comes from the keyframe that starts it
+  const { interpolation, bezier } = getSegmentCurve(actor, before);
+
+  // Step: hold previous value until next keyframe
+  if (interpolation === 'step') return { from: before, to: after, progress: 0 };
+
+  // Everything else eases the progress through the segment
+  const t = (time - before.time) / (after.time - before.time);
+  return { from: before, to: after, progress: applyEasing(t, interpolation, bezier) };
+}
+
+/**
+ * What a multi-channel actor shows at a given time: its main value scaled by any dimmer
+ * channels and gated by strobe channels, plus the color and pan/tilt lanes if present
+ */
+export function getActorOutputAtTime(
+  actor: Actor,
+  time: number
+): { value: number; color: RGBColor | null; pan: number | null; tilt: number | null } {
+  const laneOf = (type: ChannelType) => actor.channels.filter((c) => c.type === type);
+  const dimmers = laneOf('dimmer');
+
+  // Actors driven purely by dimmer channels count as fully on
+  let value = actor.keyframes.length > 0 || dimmers.length === 0
+    ? getActorValueAtTime(actor, time)
+    : 1;
+  for (const dimmer of dimmers) {
+    value *= getActorValueAtTime(dimmer, time);
+  }
+
+  // Strobe lanes flash at up to 25Hz, scaled by their value
+  for (const strobe of laneOf('strobe')) {
+    const rate = getActorValueAtTime(strobe, time) * 25;
+    if (rate > 0 && (time * rate) % 1 >= 0.5) value = 0;
+  }
+
+  const colorLane = laneOf('color')[0];
+  const panLane = laneOf('pan')[0];
+  const tiltLane = laneOf('tilt')[0];
+
+  return {
+    value,
+    color: actor.kind === 'rgb'
+      ? getActorColorAtTime(actor, time)
+      : colorLane ? getActorColorAtTime(colorLane, time) : null,
+    pan: panLane ? getActorValueAtTime(panLane, time) : null,
+    tilt: tiltLane ? getActorValueAtTime(tiltLane, time) : null,
+  };
+}
+
+/**
+ * Get the curve used for the segment that starts at a keyframe
+ * (the keyframe's own override, or the actor default)
+ */
+export function getSegmentCurve(
+  actor: KeyframeLane,
+  keyframe: KeyFrame
+): { interpolation: InterpolationType; bezier?: BezierCurve } {
+  if (keyframe.interpolation) {
+    return { interpolation: keyframe.interpolation, bezier: keyframe.bezier ?? actor.bezier };
+  }
+  return { interpolation: actor.interpolation, bezier: actor.bezier };
+}
+
+/**
+ * Whether every segment of an actor holds its value (only keyframe times matter for export)
+ */
+export function isSteppedActor(actor: KeyframeLane): boolean {
+  if (actor.effects?.length) return false;
+  const segmentStarts = actor.keyframes.slice(0, -1);
+  if (segmentStarts.length === 0) return actor.interpolation === 'step';
+  return segmentStarts.every((kf) => getSegmentCurve(actor, kf).interpolation === 'step');
+}
+
+/**
+ * Map linear progress (0-1) through a segment onto the eased progress
+ */
+export function applyEasing(t: number, interpolation: InterpolationType, bezier?: BezierCurve): number {
+  switch (interpolation) {
+    case 'step':
+      return t < 1 ? 0 : 1;
+    case 'easeIn':
+      return t * t * t;
+    case 'easeOut':
+      return 1 - Math.pow(1 - t, 3);
+    case 'easeInOut':
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    case 'exponential':
+      // Perceptually even fade for incandescent/LED dimmers
+      return t <= 0 ? 0 : Math.pow(2, 10 * t - 10);
+    case 'bezier': {
+      const [x1, y1, x2, y2] = bezier ?? DEFAULT_BEZIER;
+      return cubicBezier(x1, y1, x2, y2, t);
+    }
+    case 'linear':
+    default:
+      return t;
+  }
+}
+
+/**
+ * Evaluate a CSS-style cubic-bezier timing function at progress x (0-1)
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  // Polynomial coefficients for the curve with P0 = (0,0) and P3 = (1,1)
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  // Newton-Raphson converges quickly for well-behaved curves
+  let s = x;
+  for (let i = 0; i < 8; i++) {
+    const error = sampleX(s) - x;
+    if (Math.abs(error) < 1e-6) return sampleY(s);
+    const derivative = sampleDerivativeX(s);
+    if (Math.abs(derivative) < 1e-6) break;
+    s -= error / derivative;
+  }
+
+  // Fall back to bisection when the slope is too flat
+  let lo = 0;
+  let hi = 1;
+  s = x;
+  while (hi - lo > 1e-6) {
+    if (sampleX(s) < x) lo = s;
+    else hi = s;
+    s = (lo + hi) / 2;
+  }
+  return sampleY(s);
+}
@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, GrisFile, Project, Shape } from '../types';
+import { GRIS_FILE_VERSION } from '../types';
+import { getShowDuration, migrateGrisFile, parseGrisFile, validateGrisFile } from './file';
+
+const project: Project = { name: 'Show', songFilename: 'song.mp3', canvasSize: { width: 800, height: 600 } };
+
+const shape: Shape = { geometry: { type: 'rectangle', x: 0, y: 0, width: 10, height: 10 }, offColor: '#000000', onColor: '#ff0000' };
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'linear',
+  channels: [],
+  ...fields,
+});
+
+const file = (fields: Partial<GrisFile> = {}): GrisFile => ({
+  version: GRIS_FILE_VERSION,
+  project,
+  actors: [],
+  backgrounds: [],
+  markers: [],
+  ...fields,
+});
+
+describe('parseGrisFile', () => {
+  it('rejects JSON that is not a project', () => {
+    expect(() => parseGrisFile('null')).toThrow('Not a Griswold project file');
+    expect(() => parseGrisFile('{"actors":[]}')).toThrow('Not a Griswold project file');
+    expect(() => parseGrisFile(JSON.stringify({ project, actors: {} }))).toThrow('Not a Griswold project file');
+  });
+});
+
+describe('getShowDuration', () => {
+  it('runs to the song, or the length saved with the project without one', () => {
+    const saved = { ...project, duration: 95 };
+    expect(getShowDuration(saved, 120)).toBe(120);
+    expect(getShowDuration(saved, 0)).toBe(95);
+    expect(getShowDuration(project, 0)).toBe(0);
+  });
+});
+
+describe('migrateGrisFile', () => {
+  it('turns v1 shapes into shape lists and gives keyframes ids', () => {
+    for (const version of [undefined, 1]) {
+      const migrated = migrateGrisFile({
+        version,
+        project,
+        backgrounds: [],
+        actors: [
+          {
+            id: 'a1',
+            label: 'Tree',
+            shape,
+            keyframes: [{ time: 2, value: 0 }, { time: 1, value: 1 }],
+            interpolation: 'linear',
+          },
+          { id: 'a2', label: 'Star', shape: null, keyframes: [] },
+        ],
+      });
+
+      expect(migrated.version).toBe(GRIS_FILE_VERSION);
+      expect(migrated.markers).toEqual([]);
+      expect(migrated.actors[0]).toMatchObject({ shapes: [shape], channels: [], interpolation: 'linear' });
+      expect(migrated.actors[0].keyframes.map((kf) => kf.time)).toEqual([1, 2]);
+      expect(migrated.actors[0].keyframes.every((kf) => typeof kf.id === 'string' && kf.id)).toBe(true);
+      expect(migrated.actors[1]).toMatchObject({ shapes: [], interpolation: 'step' });
+    }
+  });
+
+  it('adds markers and channel lanes to v2 files', () => {
+    const migrated = migrateGrisFile({
+      version: 2,
+      project,
+      backgrounds: [],
+      actors: [{ id: 'a1', label: 'Tree', shapes: [], keyframes: [], interpolation: 'step' }],
+    });
+    expect(migrated.version).toBe(GRIS_FILE_VERSION);
+    expect(migrated.markers).toEqual([]);
+    expect(migrated.actors[0].channels).toEqual([]);
+  });
+
+  it('normalizes v3 and v4 keyframes', () => {
+    for (const version of [3, 4]) {
+      const migrated = migrateGrisFile({
+        version,
+        project,
+        backgrounds: [],
+        markers: [{ id: 'm1', time: 1, label: 'Drop' }],
+        actors: [
+          {
+            id: 'a1',
+            label: 'Tree',
+            shapes: [],
+            interpolation: 'linear',
+            keyframes: [
+              { id: 'same', time: 3, value: 1, interpolation: 'wobble' },
+              { id: 'same', time: 1, value: 0, interpolation: 'easeIn', bezier: [0, 0, 1, 1] },
+              { time: 2, value: 0.5, interpolation: 'bezier', bezier: [0.1, 0.2, 0.3, 0.4] },
+            ],
+          },
+        ],
+      });
+
+      expect(migrated.markers).toEqual([{ id: 'm1', time: 1, label: 'Drop' }]);
+      const [actor] = migrated.actors;
+      expect(actor.channels).toEqual([]);
+      expect(actor.keyframes.map(({ time, value, interpolation, bezier }) => ({ time, value, interpolation, bezier }))).toEqual([
+        // Curves are kept where this version knows them, beziers only on bezier segments
+        { time: 1, value: 0, interpolation: 'easeIn', bezier: undefined },
+        { time: 2, value: 0.5, interpolation: 'bezier', bezier: [0.1, 0.2, 0.3, 0.4] },
+        { time: 3, value: 1, interpolation: undefined, bezier: undefined },
+      ]);
+      expect(new Set(actor.keyframes.map((kf) => kf.id)).size).toBe(3);
+    }
+  });
+
+  it('moves v5 start channels into an E1.31 controller', () => {
+    const migrated = migrateGrisFile({
+      version: 5,
+      project,
+      backgrounds: [],
+      markers: [],
+      actors: [
+        { ...actor({ id: 'a1', kind: 'rgb' }), startChannel: 1, outputPin: 4 },
+        actor({ id: 'a2', label: 'Star' }),
+        { ...actor({ id: 'a3', label: 'Arch' }), startChannel: 600 },
+      ],
+    });
+
+    const [controller] = migrated.project.controllers ?? [];
+    expect(controller).toMatchObject({ name: 'Controller 1', protocol: 'e131', startUniverse: 1, channelCount: 1024 });
+    expect(migrated.actors.map((a) => a.patch)).toEqual([
+      { controllerId: controller.id, address: 1 },
+      // Actors without a start channel follow the one before
+      { controllerId: controller.id, address: 4 },
+      { controllerId: controller.id, address: 600 },
+    ]);
+    for (const migratedActor of migrated.actors) {
+      expect(migratedActor).not.toHaveProperty('startChannel');
+      expect(migratedActor).not.toHaveProperty('outputPin');
+    }
+  });
+
+  it('moves v5 pins into a pin controller when there are no start channels', () => {
+    const migrated = migrateGrisFile({
+      version: 5,
+      project,
+      backgrounds: [],
+      markers: [],
+      actors: [
+        { ...actor({ id: 'a1' }), outputPin: 7 },
+        actor({ id: 'a2', label: 'Star' }),
+        { ...actor({ id: 'a3', label: 'Arch' }), outputPin: 3 },
+      ],
+    });
+
+    const [controller] = migrated.project.controllers ?? [];
+    expect(controller).toMatchObject({ name: 'Pins', protocol: 'pins', channelCount: 7 });
+    expect(migrated.actors.map((a) => a.patch)).toEqual([
+      { controllerId: controller.id, address: 7 },
+      undefined,
+      { controllerId: controller.id, address: 3 },
+    ]);
+    expect(migrated.actors[0]).not.toHaveProperty('outputPin');
+  });
+
+  it('keeps the output patch of current files', () => {
+    const current = file({
+      project: { ...project, controllers: [{ id: 'c1', name: 'Yard', protocol: 'ddp', startUniverse: 1, channelCount: 10 }] },
+      actors: [actor({ patch: { controllerId: 'c1', address: 2 } })],
+    });
+    expect(migrateGrisFile(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+});
+
+describe('validateGrisFile', () => {
+  it('passes a good file', () => {
+    const good = file({
+      project: { ...project, duration: 30, circuits: [{ id: 'p1', name: 'Porch', maxWatts: 1800 }] },
+      actors: [
+        actor({
+          keyframes: [{ id: 'k1', time: 0, value: 1 }],
+          constraints: { threshold: 0.5, minOnTime: 1 },
+          power: { watts: 60, circuitId: 'p1' },
+        }),
+        actor({ id: 'a2', label: 'Star' }),
+      ],
+    });
+    expect(validateGrisFile(good)).toEqual([]);
+  });
+
+  it('lists every problem', () => {
+    const bad = file({
+      project: {
+        ...project,
+        duration: -1,
+        circuits: [{ id: 'p1', name: 'Porch', maxWatts: 0 }],
+        controllers: [{ id: 'c1', name: 'Yard', protocol: 'pins', startUniverse: 1, channelCount: 4 }],
+      },
+      actors: [
+        actor({
+          keyframes: [
+            { id: 'k1', time: -1, value: 0.5 },
+            { id: 'k2', time: 1, value: 2 },
+            { id: 'k3', time: 2, value: 1, color: { r: 300, g: 0, b: 0 } },
+          ],
+          channels: [
+            { id: 'c1', name: 'Pan', type: 'pan', keyframes: [], interpolation: 'linear' },
+            { id: 'c2', name: 'Pan', type: 'pan', keyframes: [], interpolation: 'linear' },
+          ],
+          constraints: { threshold: 0, minOffTime: -1 },
+          power: { watts: -5, circuitId: 'gone' },
+          patch: { controllerId: 'c1', address: 4 },
+        }),
+        actor({ label: 'Tree' }),
+        actor({ id: 'a3', label: '' }),
+      ],
+    });
+
+    expect(validateGrisFile(bad)).toEqual([
+      'Project duration must be a non-negative number (got -1)',
+      'Actor "Tree" has an output threshold 0 outside 0-1',
+      'Actor "Tree" has a negative or invalid minimum off time (-1)',
+      'Actor "Tree" has an invalid wattage (-5)',
+      'Actor "Tree" is plugged into a circuit that doesn\'t exist',
+      'Actor "Tree" has more than one channel named "Pan"',
+      'Actor "Tree" has a keyframe at an invalid time (-1)',
+      'Actor "Tree" has a keyframe at 1s with value 2 outside 0-1',
+      'Actor "Tree" has a keyframe at 2s with a color outside 0-255',
+      'Actor "Tree" is used by more than one actor',
+      'Actor "Tree" has a duplicate id a1',
+      'Actor a3 has no label',
+      'Circuit "Porch" has an invalid limit (0)',
+      expect.stringContaining('Tree'),
+    ]);
+  });
+});
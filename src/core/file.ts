@@ -0,0 +1,255 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Project,
+  Actor,
+  ActorChannel,
+  ActorV1,
+  ActorV3,
+  ActorV5,
+  CanvasBackground,
+  GrisFile,
+  GrisFileV1,
+  GrisFileV2,
+  GrisFileV3,
+  KeyFrame,
+  KeyFrameV4,
+  Marker,
+  OutputController,
+} from '../types';
+import { GRIS_FILE_VERSION, INTERPOLATION_OPTIONS } from '../types';
+import { getActorFootprint, getPatchConflicts, UNIVERSE_SIZE } from './patch';
+
+/**
+ * Parse the text of a .gris file, migrating older versions to the current one
+ */
+export function parseGrisFile(text: string): GrisFile {
+  const data: unknown = JSON.parse(text);
+  const file = data as Partial<GrisFile> | null;
+  if (!file || typeof file !== 'object' || !file.project || !Array.isArray(file.actors)) {
+    throw new Error('Not a Griswold project file');
+  }
+  return migrateGrisFile(data);
+}
+
+/**
+ * Bundle project data into a file at the current version, recording the song length if known
+ */
+export function createGrisFile(
+  project: Project,
+  actors: Actor[],
+  backgrounds: CanvasBackground[],
+  markers: Marker[],
+  duration = 0
+): GrisFile {
+  return {
+    version: GRIS_FILE_VERSION,
+    project: duration > 0 ? { ...project, duration } : project,
+    actors,
+    backgrounds,
+    markers,
+  };
+}
+
+/**
+ * Length every export runs to: the loaded song, or the length saved with the project when
+ * no song is loaded (0 if neither is known)
+ */
+export function getShowDuration(project: Project, songDuration: number): number {
+  return songDuration > 0 ? songDuration : project.duration ?? 0;
+}
+
+/**
+ * Problems that would make a file export wrong cues (empty if it's fine)
+ */
+export function validateGrisFile(file: GrisFile): string[] {
+  const problems: string[] = [];
+  const actorIds = new Set<string>();
+  const actorLabels = new Set<string>();
+
+  if (file.project.duration !== undefined && !(file.project.duration >= 0)) {
+    problems.push(`Project duration must be a non-negative number (got ${file.project.duration})`);
+  }
+
+  for (const actor of file.actors) {
+    const name = `Actor "${actor.label}"`;
+    if (!actor.label) problems.push(`Actor ${actor.id} has no label`);
+    // Cues are keyed by label, so two actors with one label would be indistinguishable
+    if (actorLabels.has(actor.label)) problems.push(`${name} is used by more than one actor`);
+    if (actorIds.has(actor.id)) problems.push(`${name} has a duplicate id ${actor.id}`);
+    actorLabels.add(actor.label);
+    actorIds.add(actor.id);
+
+    const { threshold, minOnTime, minOffTime, maxSwitchRate } = actor.constraints ?? {};
+    if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+      problems.push(`${name} has an output threshold ${threshold} outside 0-1`);
+    }
+    for (const [label, limit] of [['minimum on time', minOnTime], ['minimum off time', minOffTime], ['maximum switch rate', maxSwitchRate]] as const) {
+      if (limit !== undefined && !(limit >= 0)) problems.push(`${name} has a negative or invalid ${label} (${limit})`);
+    }
+
+    if (actor.power) {
+      if (!(actor.power.watts >= 0)) problems.push(`${name} has an invalid wattage (${actor.power.watts})`);
+      if (actor.power.circuitId && !file.project.circuits?.some((c) => c.id === actor.power?.circuitId)) {
+        problems.push(`${name} is plugged into a circuit that doesn't exist`);
+      }
+    }
+
+    const channelNames = new Set<string>();
+    for (const channel of actor.channels) {
+      if (channelNames.has(channel.name)) problems.push(`${name} has more than one channel named "${channel.name}"`);
+      channelNames.add(channel.name);
+    }
+
+    for (const [lane, keyframes] of [
+      [name, actor.keyframes] as const,
+      ...actor.channels.map((c) => [`${name} channel "${c.name}"`, c.keyframes] as const),
+    ]) {
+      for (const kf of keyframes) {
+        if (!Number.isFinite(kf.time) || kf.time < 0) {
+          problems.push(`${lane} has a keyframe at an invalid time (${kf.time})`);
+        }
+        if (!(kf.value >= 0 && kf.value <= 1)) {
+          problems.push(`${lane} has a keyframe at ${kf.time}s with value ${kf.value} outside 0-1`);
+        }
+        if (kf.color && [kf.color.r, kf.color.g, kf.color.b].some((c) => !(c >= 0 && c <= 255))) {
+          problems.push(`${lane} has a keyframe at ${kf.time}s with a color outside 0-255`);
+        }
+      }
+    }
+  }
+
+  for (const circuit of file.project.circuits ?? []) {
+    if (!(circuit.maxWatts > 0)) problems.push(`Circuit "${circuit.name}" has an invalid limit (${circuit.maxWatts})`);
+  }
+
+  // Two actors on one channel would fight over it on the real lights
+  for (const conflict of getPatchConflicts(file.actors, file.project.controllers ?? [])) {
+    problems.push(conflict.message);
+  }
+
+  return problems;
+}
+
+// Migration function: converts any version to current
+export function migrateGrisFile(data: unknown): GrisFile {
+  const file = data as GrisFileV1 & GrisFileV2 & GrisFileV3 & { version?: number };
+  
+  // Handle v1 (shape → shapes)
+  if (!file.version || file.version === 1) {
+    return {
+      version: GRIS_FILE_VERSION,
+      project: file.project,
+      backgrounds: file.backgrounds || [],
+      markers: [],
+      actors: (file.actors || []).map((actor: ActorV1) => ({
+        id: actor.id,
+        label: actor.label,
+        shapes: actor.shape ? [actor.shape] : [],
+        keyframes: normalizeKeyframes(actor.keyframes || []),
+        interpolation: actor.interpolation || 'step',
+        channels: [],
+      })),
+    };
+  }
+  
+  // Handle v2 (add empty markers array)
+  if (file.version === 2) {
+    return {
+      ...file,
+      version: GRIS_FILE_VERSION,
+      markers: file.markers || [],
+      actors: normalizeActors(file.actors || []),
+    } as GrisFile;
+  }
+  
+  // Handle v3 (actors gain channel lanes), v4 (keyframes gain ids), v5 (start channels and
+  // pins move into the output patch) and the current version
+  return {
+    ...(file as unknown as GrisFileV3),
+    version: GRIS_FILE_VERSION,
+    ...migrateOutputPatch(file.project, normalizeActors(file.actors || [])),
+  };
+}
+
+// v5 actors carry their own start channel and pin. Start channels become addresses on an
+// E1.31 controller covering the old layout (so sequences come out the same); without any,
+// pins become addresses on a pin controller.
+function migrateOutputPatch(project: Project, actors: ActorV5[]): { project: Project; actors: Actor[] } {
+  const strip = (actor: ActorV5): Actor => {
+    const rest = { ...actor };
+    delete rest.startChannel;
+    delete rest.outputPin;
+    return rest;
+  };
+  const addController = (controller: OutputController) => ({
+    ...project,
+    controllers: [...(project.controllers ?? []), controller],
+  });
+
+  if (actors.some((a) => a.startChannel && a.startChannel > 0)) {
+    const id = uuidv4();
+    let next = 1;
+    const patched = actors.map((actor) => {
+      next = actor.startChannel && actor.startChannel > 0 ? Math.floor(actor.startChannel) : next;
+      const patch = { controllerId: id, address: next };
+      next += getActorFootprint(actor);
+      return { ...strip(actor), patch };
+    });
+    return {
+      project: addController({
+        id,
+        name: 'Controller 1',
+        protocol: 'e131',
+        startUniverse: 1,
+        channelCount: Math.ceil((next - 1) / UNIVERSE_SIZE) * UNIVERSE_SIZE,
+      }),
+      actors: patched,
+    };
+  }
+
+  const pins = actors.flatMap((a) => (a.outputPin && a.outputPin > 0 ? [a.outputPin] : []));
+  if (pins.length > 0) {
+    const id = uuidv4();
+    return {
+      project: addController({ id, name: 'Pins', protocol: 'pins', startUniverse: 1, channelCount: Math.max(...pins) }),
+      actors: actors.map((actor) =>
+        actor.outputPin && actor.outputPin > 0
+          ? { ...strip(actor), patch: { controllerId: id, address: actor.outputPin } }
+          : strip(actor)
+      ),
+    };
+  }
+
+  return { project, actors: actors.map(strip) };
+}
+
+function normalizeActors(actors: (ActorV3 & { channels?: ActorChannel[] })[]): Actor[] {
+  return actors.map((actor) => ({
+    ...actor,
+    keyframes: normalizeKeyframes(actor.keyframes || []),
+    channels: (actor.channels || []).map((channel) => ({
+      ...channel,
+      keyframes: normalizeKeyframes(channel.keyframes || []),
+    })),
+  }));
+}
+
+// Sort keyframes, give them ids (files before v5 have none) and drop per-keyframe curve
+// overrides this version doesn't understand, so those segments fall back to the actor's interpolation
+function normalizeKeyframes(keyframes: KeyFrameV4[]): KeyFrame[] {
+  const validInterpolations = new Set<string>(INTERPOLATION_OPTIONS.map((opt) => opt.value));
+  const seenIds = new Set<string>();
+  return keyframes
+    .map((kf) => {
+      const { id: savedId, interpolation, bezier, ...fields } = kf;
+      const id = savedId && !seenIds.has(savedId) ? savedId : uuidv4();
+      seenIds.add(id);
+      const rest = { id, ...fields };
+      if (!interpolation || !validInterpolations.has(interpolation)) return rest;
+      return interpolation === 'bezier' && bezier
+        ? { ...rest, interpolation, bezier }
+        : { ...rest, interpolation };
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
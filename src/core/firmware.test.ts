@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, Project } from '../types';
+import {
+  createFirmwareHeader,
+  FIRMWARE_MAX_TRACK_EVENTS,
+  getFirmwareHeaderFilename,
+  getFirmwareTracks,
+  getPinMap,
+} from './firmware';
+
+const project: Project = { name: 'Front Yard', songFilename: '', canvasSize: { width: 800, height: 600 } };
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+// Keyframes flipping between off and full every `step` seconds
+const flicker = (count: number, step: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: `k${i}`, time: i * step, value: i % 2 }));
+
+describe('getPinMap', () => {
+  it('uses pin addresses and hands out free pins from 2 to the rest', () => {
+    const controllers = [
+      { id: 'pins', name: 'Board', protocol: 'pins' as const, startUniverse: 1, channelCount: 13 },
+      { id: 'dmx', name: 'Dmx', protocol: 'dmx' as const, startUniverse: 1, channelCount: 512 },
+    ];
+    const actors = [
+      actor({ id: 'a1' }),
+      actor({ id: 'a2', patch: { controllerId: 'pins', address: 3 } }),
+      actor({ id: 'a3', patch: { controllerId: 'dmx', address: 2 } }),
+    ];
+    expect([...getPinMap(actors, controllers)]).toEqual([['a1', 2], ['a2', 3], ['a3', 4]]);
+  });
+});
+
+describe('getFirmwareTracks', () => {
+  it('keeps only changes, and drives relays unless levels are in between', () => {
+    const [relay, dimmer] = getFirmwareTracks(
+      [
+        actor({ keyframes: [{ id: 'k1', time: 0, value: 0 }, { id: 'k2', time: 1, value: 1 }, { id: 'k3', time: 2, value: 1 }] }),
+        actor({ id: 'a2', label: 'Tree!', keyframes: [{ id: 'k4', time: 0.5, value: 0.5 }] }),
+      ],
+      { duration: 0, tickRate: 0.1 }
+    );
+    expect(relay).toMatchObject({ name: 'TREE', pin: 2, pwm: false, events: [{ time: 0, value: 0 }, { time: 1000, value: 255 }] });
+    // Names stay unique after cleaning up the label
+    expect(dimmer).toMatchObject({ name: 'TREE_2', pin: 3, pwm: true, events: [{ time: 0, value: 128 }] });
+  });
+});
+
+describe('createFirmwareHeader', () => {
+  it('writes a pin, an event table and a track per actor', () => {
+    const header = createFirmwareHeader(project, [actor({ keyframes: [{ id: 'k0', time: 0, value: 0 }, { id: 'k1', time: 1.5, value: 1 }] })], { duration: 3, tickRate: 0.1 });
+    expect(header).toContain('#include "front_yard.h"');
+    expect(header).toContain('#define GRISWOLD_DURATION_MS 3000UL');
+    expect(header).toContain('#define GRISWOLD_PIN_TREE 2');
+    expect(header).toContain('const GriswoldEvent GRISWOLD_EVENTS_TREE[] PROGMEM = {\n  {0, 0}, {1500, 255},\n};');
+    expect(header).toContain('  {GRISWOLD_PIN_TREE, false, GRISWOLD_EVENTS_TREE, 2, 0},');
+    expect(getFirmwareHeaderFilename(project)).toBe('front_yard.h');
+  });
+
+  it('runs to the last event without a duration', () => {
+    const header = createFirmwareHeader(project, [actor({ keyframes: [{ id: 'k0', time: 0, value: 0 }, { id: 'k1', time: 4.25, value: 1 }] })], { duration: 0, tickRate: 0.1 });
+    expect(header).toContain('#define GRISWOLD_DURATION_MS 4250UL');
+  });
+
+  it('handles shows with too many events to spread into one call', () => {
+    // 60 smooth actors changing every tick of a 5 minute show
+    const actors = Array.from({ length: 60 }, (_, i) =>
+      actor({ id: `a${i}`, label: `Prop ${i}`, interpolation: 'linear', keyframes: flicker(3001, 0.1) })
+    );
+    const header = createFirmwareHeader(project, actors, { duration: 300, tickRate: 0.1 });
+    expect(header).toContain('#define GRISWOLD_DURATION_MS 300000UL');
+    expect(header).toContain('  {GRISWOLD_PIN_PROP_59, true, GRISWOLD_EVENTS_PROP_59, 3001, 0},');
+  });
+
+  it('rejects tracks with more events than the player can count', () => {
+    const long = actor({ keyframes: flicker(FIRMWARE_MAX_TRACK_EVENTS + 1, 0.01) });
+    expect(() => createFirmwareHeader(project, [long], { duration: 0, tickRate: 0.1 })).toThrow(
+      'A track can hold at most 65535 events (Tree has 65536); use a longer tick rate'
+    );
+    const fits = actor({ keyframes: flicker(FIRMWARE_MAX_TRACK_EVENTS, 0.01) });
+    expect(() => createFirmwareHeader(project, [fits], { duration: 0, tickRate: 0.1 })).not.toThrow();
+  });
+});
@@ -0,0 +1,189 @@
+import type { Actor, OutputController, Project } from '../types';
+import { generateCues, type CueOptions } from './cues';
+import { isSteppedActor } from './evaluate';
+
+// First pin handed out to actors without one (0 and 1 are the serial port on most boards)
+const FIRST_AUTO_PIN = 2;
+// Events one track can hold: the player counts them in a uint16_t
+export const FIRMWARE_MAX_TRACK_EVENTS = 65535;
+
+// One actor's playback track in the header
+export interface FirmwareTrack {
+  actor: Actor;
+  name: string;  // C identifier suffix, e.g. ROOF_LEFT
+  pin: number;
+  pwm: boolean;  // analogWrite levels rather than relay on/off
+  events: { time: number; value: number }[];  // ms, 0-255
+}
+
+/**
+ * Pins for every actor: its address when patched to a pin controller, or the next unused
+ * pin from 2 up
+ */
+export function getPinMap(actors: Actor[], controllers: OutputController[] = []): Map<string, number> {
+  const pinControllers = new Set(controllers.filter((c) => c.protocol === 'pins').map((c) => c.id));
+  const patchedPin = (actor: Actor) =>
+    actor.patch && pinControllers.has(actor.patch.controllerId) ? actor.patch.address : undefined;
+  const used = new Set(actors.flatMap((a) => patchedPin(a) ?? []));
+  const pins = new Map<string, number>();
+  let next = FIRST_AUTO_PIN;
+
+  for (const actor of actors) {
+    const pin = patchedPin(actor);
+    if (pin !== undefined) {
+      pins.set(actor.id, pin);
+      continue;
+    }
+    while (used.has(next)) next++;
+    pins.set(actor.id, next);
+    used.add(next);
+  }
+
+  return pins;
+}
+
+/**
+ * Each actor's events from the same cues `generateCues` exports: keyframe transitions for
+ * step actors, ticks for smooth ones, keeping only the points where the output changes
+ */
+export function getFirmwareTracks(actors: Actor[], options: CueOptions): FirmwareTrack[] {
+  const cues = generateCues(actors, options);
+  const pins = getPinMap(actors, options.controllers);
+  const names = new Set<string>();
+
+  return actors.map((actor) => {
+    const events: FirmwareTrack['events'] = [];
+    // Cues are keyed by label, and only the main lane drives the pin
+    for (const cue of cues) {
+      if (cue.id !== actor.label || cue.channel !== undefined) continue;
+      const time = Math.round(cue.t * 1000);
+      const value = Math.round(cue.state * 255);
+      const last = events[events.length - 1];
+      if (last && last.time === time) last.value = value;
+      else if (!last || last.value !== value) events.push({ time, value });
+    }
+
+    // Relays only switch, anything with levels in between needs PWM
+    const pwm = !isSteppedActor(actor) || events.some((e) => e.value > 0 && e.value < 255);
+
+    let name = toIdentifier(actor.label);
+    for (let n = 2; names.has(name); n++) name = `${toIdentifier(actor.label)}_${n}`;
+    names.add(name);
+
+    return { actor, name, pin: pins.get(actor.id)!, pwm, events };
+  });
+}
+
+/**
+ * C/C++ header for Arduino and ESP32 boards: a PROGMEM event table and pin per actor,
+ * plus a small player to call from `loop()`. Throws if a track has more events than the
+ * player can count.
+ */
+export function createFirmwareHeader(project: Project, actors: Actor[], options: CueOptions): string {
+  const tracks = getFirmwareTracks(actors, { controllers: project.controllers, ...options });
+  const tooLong = tracks.filter((t) => t.events.length > FIRMWARE_MAX_TRACK_EVENTS);
+  if (tooLong.length > 0) {
+    const counts = tooLong.map((t) => `${t.actor.label} has ${t.events.length}`).join(', ');
+    throw new Error(`A track can hold at most ${FIRMWARE_MAX_TRACK_EVENTS} events (${counts}); use a longer tick rate`);
+  }
+  // Events are in time order, so each track's last one is its latest
+  const lastEvent = tracks.reduce((last, t) => Math.max(last, t.events[t.events.length - 1]?.time ?? 0), 0);
+  const durationMs = Math.max(Math.round(options.duration * 1000), lastEvent);
+
+  const trackTables = tracks.flatMap((track) => [
+    `// ${track.actor.label.replace(/\s+/g, ' ')} (${track.pwm ? 'PWM' : 'relay'}, ${track.events.length} event${track.events.length === 1 ? '' : 's'})`,
+    `#define GRISWOLD_PIN_${track.name} ${track.pin}`,
+    `const GriswoldEvent GRISWOLD_EVENTS_${track.name}[] PROGMEM = {`,
+    ...chunk(track.events.map((e) => `{${e.time}, ${e.value}}`), 8).map((row) => `  ${row.join(', ')},`),
+    '};',
+    '',
+  ]);
+
+  return `// Light show "${project.name.replace(/\s+/g, ' ')}" generated by Griswold
+//
+// Example sketch:
+//
+//   #include "${getFirmwareHeaderFilename(project)}"
+//
+//   uint32_t showStart;
+//
+//   void setup() {
+//     griswoldBegin();
+//     showStart = millis();  // start the song at the same moment
+//   }
+//
+//   void loop() {
+//     uint32_t showTime = millis() - showStart;
+//     if (showTime > GRISWOLD_DURATION_MS) {  // loop the show
+//       showStart = millis();
+//       griswoldBegin();
+//       showTime = 0;
+//     }
+//     griswoldUpdate(showTime);
+//   }
+
+#pragma once
+#include <Arduino.h>
+
+#define GRISWOLD_DURATION_MS ${durationMs}UL
+#define GRISWOLD_TRACK_COUNT ${tracks.length}
+
+struct GriswoldEvent {
+  uint32_t time;  // ms from the start of the show
+  uint8_t value;  // 0-255 (relays switch on at 128)
+};
+
+struct GriswoldTrack {
+  uint8_t pin;
+  bool pwm;
+  const GriswoldEvent *events;  // in PROGMEM
+  uint16_t count;
+  uint16_t next;  // playback position
+};
+
+${trackTables.join('\n')}
+GriswoldTrack griswoldTracks[GRISWOLD_TRACK_COUNT] = {
+${tracks.map((t) => `  {GRISWOLD_PIN_${t.name}, ${t.pwm}, GRISWOLD_EVENTS_${t.name}, ${t.events.length}, 0},`).join('\n')}
+};
+
+// Set up the pins and rewind every track to the start of the show
+inline void griswoldBegin() {
+  for (GriswoldTrack &track : griswoldTracks) {
+    pinMode(track.pin, OUTPUT);
+    track.next = 0;
+  }
+}
+
+// Apply every event due by showTime (ms); call as often as possible from loop()
+inline void griswoldUpdate(uint32_t showTime) {
+  for (GriswoldTrack &track : griswoldTracks) {
+    while (track.next < track.count) {
+      GriswoldEvent event;
+      memcpy_P(&event, &track.events[track.next], sizeof(event));
+      if (event.time > showTime) break;
+      if (track.pwm) analogWrite(track.pin, event.value);
+      else digitalWrite(track.pin, event.value >= 128 ? HIGH : LOW);
+      track.next++;
+    }
+  }
+}
+`;
+}
+
+/**
+ * Filename the header is saved as (and included by in the example sketch)
+ */
+export function getFirmwareHeaderFilename(project: Project): string {
+  return `${toIdentifier(project.name || 'show').toLowerCase()}.h`;
+}
+
+// Identifiers always follow a GRISWOLD_ prefix, so they may start with a digit
+function toIdentifier(label: string): string {
+  return label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'ACTOR';
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) rows.push(items.slice(i, i + size));
+  return rows;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor } from '../types';
+import { createFseqFile, getFseqFrameCount } from './fseq';
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+const actors = [
+  actor({
+    keyframes: [
+      { id: 'k1', time: 0, value: 0 },
+      { id: 'k2', time: 0.5, value: 1 },
+    ],
+  }),
+  actor({
+    id: 'a2',
+    label: 'Star',
+    kind: 'rgb',
+    keyframes: [{ id: 'k3', time: 0, value: 1, color: { r: 10, g: 20, b: 30 } }],
+  }),
+];
+
+const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// Variable headers as [code, value] from an offset up to the channel data
+function readVariableHeaders(file: Uint8Array, offset: number, end: number): [string, string][] {
+  const view = new DataView(file.buffer);
+  const headers: [string, string][] = [];
+  while (offset + 4 <= end) {
+    const length = view.getUint16(offset, true);
+    if (length < 4) break;
+    headers.push([ascii(file.subarray(offset + 2, offset + 4)), ascii(file.subarray(offset + 4, offset + length - 1))]);
+    offset += length;
+  }
+  return headers;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('createFseqFile', () => {
+  it('writes an uncompressed v2 header and frames', async () => {
+    const file = await createFseqFile(actors, { duration: 1, stepTime: 50, compression: 'none', mediaFilename: 'song.mp3' });
+    const view = new DataView(file.buffer);
+    const frameCount = getFseqFrameCount(actors, { duration: 1, stepTime: 50 });
+
+    expect(frameCount).toBe(21);
+    expect(ascii(file.subarray(0, 4))).toBe('PSEQ');
+    // Two variable headers of 13 bytes after the 32-byte fixed header, padded to 4 bytes
+    expect(view.getUint16(4, true)).toBe(60);
+    expect([view.getUint8(6), view.getUint8(7)]).toEqual([0, 2]);
+    expect(view.getUint16(8, true)).toBe(32);
+    expect(view.getUint32(10, true)).toBe(4);
+    expect(view.getUint32(14, true)).toBe(frameCount);
+    expect(view.getUint8(18)).toBe(50);
+    expect([view.getUint8(20), view.getUint8(21), view.getUint8(22)]).toEqual([0, 0, 0]);
+    expect(readVariableHeaders(file, 32, 60)).toEqual([['sp', 'Griswold'], ['mf', 'song.mp3']]);
+    expect(file.length).toBe(60 + frameCount * 4);
+
+    const frame = (n: number) => [...file.subarray(60 + n * 4, 64 + n * 4)];
+    expect(frame(0)).toEqual([0, 10, 20, 30]);
+    expect(frame(9)).toEqual([0, 10, 20, 30]);
+    expect(frame(10)).toEqual([255, 10, 20, 30]);
+    expect(frame(frameCount - 1)).toEqual([255, 10, 20, 30]);
+  });
+
+  it('runs to the end of the show without a duration', async () => {
+    const file = await createFseqFile(actors, { duration: 0, stepTime: 25, compression: 'none' });
+    const view = new DataView(file.buffer);
+    expect(view.getUint32(14, true)).toBe(21);
+    // One variable header: 32 + 13 bytes, padded to 48
+    expect(view.getUint16(4, true)).toBe(48);
+    expect(file.length).toBe(48 + 21 * 4);
+  });
+
+  it('writes a block index ahead of zlib-compressed frames', async () => {
+    const file = await createFseqFile(actors, { duration: 1, stepTime: 50, compression: 'zlib' });
+    const view = new DataView(file.buffer);
+    const dataOffset = view.getUint16(4, true);
+
+    expect(view.getUint8(20)).toBe(2);
+    expect(view.getUint8(21)).toBe(1);
+    // One 8-byte block entry, then the variable headers
+    expect(view.getUint16(8, true)).toBe(40);
+    expect(view.getUint32(32, true)).toBe(0);
+    expect(view.getUint32(36, true)).toBe(file.length - dataOffset);
+    expect(readVariableHeaders(file, 40, dataOffset)).toEqual([['sp', 'Griswold']]);
+    expect(dataOffset % 4).toBe(0);
+
+    const frames = await inflate(file.subarray(dataOffset));
+    expect(frames.length).toBe(21 * 4);
+    expect([...frames.subarray(40, 44)]).toEqual([255, 10, 20, 30]);
+  });
+
+  it('lays channels out by the output patch', async () => {
+    const controllers = [{ id: 'c1', name: 'Yard', protocol: 'e131' as const, startUniverse: 1, channelCount: 8 }];
+    const patched = [{ ...actors[0], patch: { controllerId: 'c1', address: 5 } }, actors[1]];
+    const file = await createFseqFile(patched, { duration: 0.5, stepTime: 50, compression: 'none', controllers });
+    const view = new DataView(file.buffer);
+    const dataOffset = view.getUint16(4, true);
+
+    // The unpatched actor follows the controller's channels
+    expect(view.getUint32(10, true)).toBe(11);
+    expect([...file.subarray(dataOffset + 10 * 11, dataOffset + 11 * 11)]).toEqual([0, 0, 0, 0, 255, 0, 0, 0, 10, 20, 30]);
+  });
+
+  it('rejects frame steps outside 1-255 ms', async () => {
+    await expect(createFseqFile(actors, { duration: 1, stepTime: 0, compression: 'none' })).rejects.toThrow('Frame step must be 1-255 ms');
+    await expect(createFseqFile(actors, { duration: 1, stepTime: 256, compression: 'none' })).rejects.toThrow('Frame step must be 1-255 ms');
+  });
+});
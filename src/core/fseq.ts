@@ -0,0 +1,193 @@
+import type { Actor, KeyframeLane, OutputController } from '../types';
+import { getActorValueAtTime, getActorColorAtTime } from './evaluate';
+import { getChannelMap, type ChannelAssignment } from './patch';
+
+export type FseqCompression = 'none' | 'zstd' | 'zlib';
+
+export const FSEQ_COMPRESSION_OPTIONS: { value: FseqCompression; label: string }[] = [
+  { value: 'zstd', label: 'zstd' },
+  { value: 'zlib', label: 'zlib' },
+  { value: 'none', label: 'Uncompressed' },
+];
+
+// Frame timings Falcon Player and xLights sequence at
+export const FSEQ_STEP_TIME_OPTIONS: { value: number; label: string }[] = [
+  { value: 25, label: '40 fps (25 ms)' },
+  { value: 50, label: '20 fps (50 ms)' },
+];
+
+export interface FseqOptions {
+  duration: number;   // seconds; 0 runs to the last keyframe or effect
+  stepTime: number;   // milliseconds per frame (1-255)
+  compression: FseqCompression;
+  mediaFilename?: string;  // Song the sequence plays against
+  controllers?: OutputController[];  // Output patch the channels are laid out by
+}
+
+// Header codes and limits from the FSEQ v2 spec
+const FSEQ_MAGIC = 'PSEQ';
+const FSEQ_FIXED_HEADER_SIZE = 32;
+const FSEQ_COMPRESSION_CODES: Record<FseqCompression, number> = { none: 0, zstd: 1, zlib: 2 };
+const FSEQ_MAX_BLOCKS = 255;
+// Uncompressed bytes per compression block, so players can seek without inflating the whole show
+const FSEQ_BLOCK_BYTES = 128 * 1024;
+
+/**
+ * Channels per frame: up to the highest channel any lane uses
+ */
+export function getChannelCount(map: ChannelAssignment[]): number {
+  return map.reduce((count, { start, width }) => Math.max(count, start + width - 1), 0);
+}
+
+/**
+ * Number of frames a sequence will hold
+ */
+export function getFseqFrameCount(actors: Actor[], { duration, stepTime }: Pick<FseqOptions, 'duration' | 'stepTime'>): number {
+  const length = duration > 0 ? duration : getShowLength(actors);
+  return Math.max(1, Math.ceil((length * 1000) / stepTime) + 1);
+}
+
+/**
+ * Render a show as a Falcon Player FSEQ v2 sequence
+ */
+export async function createFseqFile(actors: Actor[], options: FseqOptions): Promise<Uint8Array> {
+  const { stepTime, compression, mediaFilename, controllers } = options;
+  if (!(stepTime >= 1 && stepTime <= 255)) throw new Error(`Frame step must be 1-255 ms (got ${stepTime})`);
+
+  const map = getChannelMap(actors, controllers);
+  const channelCount = getChannelCount(map);
+  const frameCount = getFseqFrameCount(actors, options);
+  const frames = renderFrames(map, channelCount, frameCount, stepTime);
+
+  // Compressed sequences are stored in blocks of whole frames, each compressed on its own
+  const blocks: { firstFrame: number; data: Uint8Array }[] = [];
+  if (compression === 'none') {
+    blocks.push({ firstFrame: 0, data: frames });
+  } else {
+    const frameBytes = Math.max(1, channelCount);
+    const framesPerBlock = Math.max(
+      Math.ceil(frameCount / FSEQ_MAX_BLOCKS),
+      Math.floor(FSEQ_BLOCK_BYTES / frameBytes),
+      1
+    );
+    for (let firstFrame = 0; firstFrame < frameCount; firstFrame += framesPerBlock) {
+      const raw = frames.subarray(firstFrame * channelCount, Math.min(frameCount, firstFrame + framesPerBlock) * channelCount);
+      blocks.push({ firstFrame, data: await compressBlock(raw, compression) });
+    }
+  }
+
+  // Variable headers: two-byte length (including itself and the code), two-character code, data
+  const encoder = new TextEncoder();
+  const variableHeaders = [
+    ['sp', 'Griswold'],
+    ...(mediaFilename ? [['mf', mediaFilename]] : []),
+  ].map(([code, value]) => {
+    const data = encoder.encode(`${value}\0`);
+    const header = new Uint8Array(4 + data.length);
+    new DataView(header.buffer).setUint16(0, header.length, true);
+    header.set(encoder.encode(code), 2);
+    header.set(data, 4);
+    return header;
+  });
+
+  const blockIndexSize = compression === 'none' ? 0 : blocks.length * 8;
+  const variableHeaderOffset = FSEQ_FIXED_HEADER_SIZE + blockIndexSize;
+  const headerSize = variableHeaderOffset + variableHeaders.reduce((size, h) => size + h.length, 0);
+  // Channel data starts on a 4-byte boundary
+  const dataOffset = Math.ceil(headerSize / 4) * 4;
+  const dataSize = blocks.reduce((size, block) => size + block.data.length, 0);
+
+  const file = new Uint8Array(dataOffset + dataSize);
+  const view = new DataView(file.buffer);
+  file.set(encoder.encode(FSEQ_MAGIC), 0);
+  view.setUint16(4, dataOffset, true);
+  view.setUint8(6, 0);  // minor version
+  view.setUint8(7, 2);  // major version
+  view.setUint16(8, variableHeaderOffset, true);
+  view.setUint32(10, channelCount, true);
+  view.setUint32(14, frameCount, true);
+  view.setUint8(18, stepTime);
+  view.setUint8(19, 0);  // flags
+  view.setUint8(20, FSEQ_COMPRESSION_CODES[compression]);
+  view.setUint8(21, compression === 'none' ? 0 : blocks.length);
+  view.setUint8(22, 0);  // sparse ranges
+  view.setUint8(23, 0);  // reserved
+  view.setBigUint64(24, BigInt(Date.now()) * 1000n, true);  // unique id: creation time in microseconds
+
+  let offset = FSEQ_FIXED_HEADER_SIZE;
+  if (compression !== 'none') {
+    for (const block of blocks) {
+      view.setUint32(offset, block.firstFrame, true);
+      view.setUint32(offset + 4, block.data.length, true);
+      offset += 8;
+    }
+  }
+  for (const header of variableHeaders) {
+    file.set(header, offset);
+    offset += header.length;
+  }
+
+  offset = dataOffset;
+  for (const block of blocks) {
+    file.set(block.data, offset);
+    offset += block.data.length;
+  }
+
+  return file;
+}
+
+/**
+ * Sample every lane once per frame into one flat buffer of channel values (0-255)
+ */
+function renderFrames(map: ChannelAssignment[], channelCount: number, frameCount: number, stepTime: number): Uint8Array {
+  const frames = new Uint8Array(frameCount * channelCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    renderChannels(map, (frame * stepTime) / 1000, frames, frame * channelCount);
+  }
+  return frames;
+}
+
+/**
+ * Write every lane's value at a time into a buffer of channel values (0-255), with
+ * channel 1 at `offset`
+ */
+export function renderChannels(map: ChannelAssignment[], time: number, channels: Uint8Array, offset = 0): void {
+  for (const { lane, start, width } of map) {
+    const index = offset + start - 1;
+    if (width === 3) {
+      const { r, g, b } = getActorColorAtTime(lane, time);
+      channels[index] = Math.round(r);
+      channels[index + 1] = Math.round(g);
+      channels[index + 2] = Math.round(b);
+    } else {
+      channels[index] = Math.round(getActorValueAtTime(lane, time) * 255);
+    }
+  }
+}
+
+/**
+ * Time of the last keyframe or effect end across every lane
+ */
+function getShowLength(actors: Actor[]): number {
+  let length = 0;
+  for (const actor of actors) {
+    for (const lane of [actor as KeyframeLane, ...actor.channels]) {
+      for (const kf of lane.keyframes) length = Math.max(length, kf.time);
+      for (const effect of lane.effects ?? []) length = Math.max(length, effect.end);
+    }
+  }
+  return length;
+}
+
+async function compressBlock(data: Uint8Array, compression: Exclude<FseqCompression, 'none'>): Promise<Uint8Array> {
+  if (compression === 'zstd') {
+    // The zstd encoder is WebAssembly, only loaded once someone exports with it
+    const { Zstd } = await import('@hpcc-js/wasm-zstd');
+    const zstd = await Zstd.load();
+    return zstd.compress(data);
+  }
+
+  // 'deflate' streams are zlib-wrapped, which is what FSEQ expects
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,15 @@
+// Show evaluation, cue generation and file handling, free of React and the editor store
+// so headless tools can share them with the editor
+export * from './color';
+export * from './evaluate';
+export * from './constraints';
+export * from './cues';
+export * from './file';
+export * from './patch';
+export * from './power';
+export * from './fseq';
+export * from './xlights';
+export * from './firmware';
+export * from './midi';
+export * from './live';
+export * from './wiring';
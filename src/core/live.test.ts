@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, OutputController } from '../types';
+import { getChannelMap } from './patch';
+import {
+  createLiveFrame,
+  createLivePatchMessage,
+  LIVE_MAX_CHANNELS,
+  liveCuesToChannels,
+  parseLiveFrame,
+  parseLiveMessage,
+  type LiveFrameMessage,
+  type LivePatchMessage,
+} from './live';
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+const controller: OutputController = {
+  id: 'ctl', name: 'Yard', protocol: 'e131', startUniverse: 2, channelCount: 1024,
+};
+
+const actors = [
+  actor({ keyframes: [{ id: 'k1', time: 0, value: 1 }], patch: { controllerId: 'ctl', address: 1 } }),
+  actor({
+    id: 'a2',
+    label: 'Star',
+    kind: 'rgb',
+    keyframes: [{ id: 'k2', time: 0, value: 1, color: { r: 255, g: 128, b: 0 } }],
+    patch: { controllerId: 'ctl', address: 600 },
+  }),
+];
+
+// A patch message as the editor sends it, with one controller changed
+const patchWith = (fields: Record<string, unknown>) => {
+  const patch = createLivePatchMessage(getChannelMap(actors, [controller]), [controller]);
+  return JSON.stringify({ ...patch, controllers: [{ ...patch.controllers[0], ...fields }] });
+};
+
+describe('createLiveFrame', () => {
+  it('lays binary frames out like the JSON cues place them', () => {
+    const map = getChannelMap(actors, [controller]);
+    const patch = createLivePatchMessage(map, [controller]);
+    const frame = parseLiveFrame(createLiveFrame(map, 1.5, 'binary') as Uint8Array);
+    const message = parseLiveMessage(createLiveFrame(map, 1.5, 'json') as string) as LiveFrameMessage;
+
+    expect(frame?.time).toBe(1.5);
+    expect(frame?.channels).toHaveLength(patch.channelCount);
+    expect(message.cues[1]).toMatchObject({ controller: 'Yard', universe: 3, address: 88 });
+    expect(liveCuesToChannels(message.cues, patch)).toEqual(frame?.channels);
+  });
+
+  it('is not a frame without the magic', () => {
+    expect(parseLiveFrame(new TextEncoder().encode('GRIT0000'))).toBeNull();
+    expect(parseLiveFrame(new Uint8Array(4))).toBeNull();
+  });
+});
+
+describe('parseLiveMessage', () => {
+  it('reads the patch and frames the editor sends', () => {
+    const map = getChannelMap(actors, [controller]);
+    const patch = createLivePatchMessage(map, [controller]);
+    expect(parseLiveMessage(JSON.stringify(patch))).toEqual(patch);
+    expect(parseLiveMessage(createLiveFrame(map, 0, 'json') as string)).toMatchObject({ type: 'frame', t: 0 });
+  });
+
+  it('drops messages that are not a patch or frame', () => {
+    expect(parseLiveMessage('not json')).toBeNull();
+    expect(parseLiveMessage('null')).toBeNull();
+    expect(parseLiveMessage('{"type":"hello"}')).toBeNull();
+    expect(parseLiveMessage('{"type":"frame","t":"soon","cues":[]}')).toBeNull();
+    expect(parseLiveMessage('{"type":"frame","t":0,"cues":[null]}')).toBeNull();
+    expect(parseLiveMessage('{"type":"patch","channelCount":8,"controllers":[null]}')).toBeNull();
+  });
+
+  it('drops patches whose counts would not fit a frame', () => {
+    const patch = (channelCount: unknown) => JSON.stringify({ type: 'patch', channelCount, controllers: [] });
+    expect(parseLiveMessage(patch(LIVE_MAX_CHANNELS))).not.toBeNull();
+    expect(parseLiveMessage(patch(LIVE_MAX_CHANNELS + 1))).toBeNull();
+    expect(parseLiveMessage(patch(1e12))).toBeNull();
+    expect(parseLiveMessage(patch(-1))).toBeNull();
+    expect(parseLiveMessage(patch(2.5))).toBeNull();
+    expect(parseLiveMessage(patch('8'))).toBeNull();
+  });
+
+  it('drops controllers with bad channels or universes', () => {
+    expect(parseLiveMessage(patchWith({}))).not.toBeNull();
+    expect(parseLiveMessage(patchWith({ channelCount: 1e12 }))).toBeNull();
+    expect(parseLiveMessage(patchWith({ channelCount: -512 }))).toBeNull();
+    expect(parseLiveMessage(patchWith({ start: 0 }))).toBeNull();
+    expect(parseLiveMessage(patchWith({ start: 1.5 }))).toBeNull();
+    expect(parseLiveMessage(patchWith({ startUniverse: 0 }))).toBeNull();
+    expect(parseLiveMessage(patchWith({ startUniverse: 63999 }))).toBeNull();  // Runs into universe 64000
+    expect(parseLiveMessage(patchWith({ startUniverse: 63999, channelCount: 512 }))).not.toBeNull();
+    expect(parseLiveMessage(patchWith({ name: 7 }))).toBeNull();
+    expect(parseLiveMessage(patchWith({ host: ['10.0.0.2'] }))).toBeNull();
+  });
+
+  it('leaves universes alone on controllers without them', () => {
+    expect(parseLiveMessage(patchWith({ protocol: 'ddp', startUniverse: 70000 }))).not.toBeNull();
+  });
+});
+
+describe('liveCuesToChannels', () => {
+  it('skips cues without a place in the patch', () => {
+    const patch = JSON.parse(patchWith({})) as LivePatchMessage;
+    const channels = liveCuesToChannels([
+      { t: 0, id: 'Tree', state: 1 },
+      { t: 0, id: 'Tree', state: 1, controller: 'Porch', address: 1 },
+      { t: 0, id: 'Tree', state: 1, controller: 'Yard', universe: 99, address: 1 },
+      { t: 0, id: 'Tree', state: 0.5, controller: 'Yard', universe: 2, address: 2 },
+    ], patch);
+    expect(Array.from(channels).flatMap((value, i) => (value > 0 ? [[i + 1, value]] : []))).toEqual([[2, 128]]);
+  });
+});
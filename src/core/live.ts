@@ -0,0 +1,168 @@
+import type { ExportedCue, OutputController } from '../types';
+import { getActorValueAtTime, getActorColorAtTime } from './evaluate';
+import { getChannelCount, renderChannels } from './fseq';
+import {
+  getControllerBases,
+  getOutputAddress,
+  getUniverseRange,
+  usesUniverses,
+  UNIVERSE_SIZE,
+  type ChannelAssignment,
+} from './patch';
+
+// Live output messages: a JSON patch message whenever the layout changes, then one frame per
+// animation frame, either as JSON cues or as a binary frame of raw channel values
+export type LiveFrameFormat = 'json' | 'binary';
+
+export const LIVE_FRAME_FORMAT_OPTIONS: { value: LiveFrameFormat; label: string }[] = [
+  { value: 'binary', label: 'Binary (channel values)' },
+  { value: 'json', label: 'JSON (cues)' },
+];
+
+// Binary frames: "GRIS", the time as a little-endian uint32 in ms, then one byte per channel
+export const LIVE_FRAME_MAGIC = 'GRIS';
+const LIVE_FRAME_HEADER_SIZE = 8;
+// Bridges take messages up to 1 MiB, so a binary frame holds at most this many channels
+export const LIVE_MAX_CHANNELS = (1 << 20) - LIVE_FRAME_HEADER_SIZE;
+// Universes E1.31 can address
+const MAX_UNIVERSE = 63999;
+
+export interface LivePatchMessage {
+  type: 'patch';
+  channelCount: number;  // Channels in every binary frame
+  controllers: (Omit<OutputController, 'id'> & { start: number })[];  // start: first frame channel (1-based)
+}
+
+export interface LiveFrameMessage {
+  type: 'frame';
+  t: number;  // seconds
+  cues: ExportedCue[];
+}
+
+/**
+ * Describe how frame channels map onto controllers, for bridges to route them
+ */
+export function createLivePatchMessage(map: ChannelAssignment[], controllers: OutputController[] = []): LivePatchMessage {
+  const bases = getControllerBases(controllers);
+  return {
+    type: 'patch',
+    channelCount: getChannelCount(map),
+    controllers: controllers.map((c) => ({
+      name: c.name,
+      protocol: c.protocol,
+      startUniverse: c.startUniverse,
+      channelCount: c.channelCount,
+      ...(c.host ? { host: c.host } : {}),
+      start: bases.get(c.id)!,
+    })),
+  };
+}
+
+/**
+ * Every lane's value at a time: JSON in the cue export's shape, or a binary frame laid out
+ * like an FSEQ frame
+ */
+export function createLiveFrame(map: ChannelAssignment[], time: number, format: LiveFrameFormat): string | Uint8Array {
+  if (format === 'binary') {
+    const channelCount = getChannelCount(map);
+    const frame = new Uint8Array(LIVE_FRAME_HEADER_SIZE + channelCount);
+    frame.set(new TextEncoder().encode(LIVE_FRAME_MAGIC), 0);
+    new DataView(frame.buffer).setUint32(4, Math.round(time * 1000), true);
+    renderChannels(map, time, frame, LIVE_FRAME_HEADER_SIZE);
+    return frame;
+  }
+
+  const t = Math.round(time * 1000) / 1000;
+  const message: LiveFrameMessage = {
+    type: 'frame',
+    t,
+    cues: map.map(({ actor, lane, channel, width, controller, address }) => ({
+      t,
+      id: actor.label,
+      state: Math.round(getActorValueAtTime(lane, time) * 1000) / 1000,
+      ...(channel !== undefined ? { channel } : {}),
+      ...(controller && address ? { controller: controller.name, ...getOutputAddress(controller, address) } : {}),
+      ...(width === 3 ? roundColor(getActorColorAtTime(lane, time)) : {}),
+    })),
+  };
+  return JSON.stringify(message);
+}
+
+/**
+ * Time (seconds) and channel values of a binary frame, or null if it isn't one
+ */
+export function parseLiveFrame(data: Uint8Array): { time: number; channels: Uint8Array } | null {
+  if (data.length < LIVE_FRAME_HEADER_SIZE || new TextDecoder().decode(data.subarray(0, 4)) !== LIVE_FRAME_MAGIC) return null;
+  return {
+    time: new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(4, true) / 1000,
+    channels: data.subarray(LIVE_FRAME_HEADER_SIZE),
+  };
+}
+
+/**
+ * A text message from the editor, or null if it isn't a patch or frame a bridge can use.
+ * Anything can connect to a bridge, so every count and address is checked before it sizes
+ * a buffer or a packet.
+ */
+export function parseLiveMessage(text: string): LivePatchMessage | LiveFrameMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(data)) return null;
+
+  if (data.type === 'patch') {
+    const { controllers, channelCount } = data;
+    const isValid = isCount(channelCount) && Array.isArray(controllers) && controllers.every(isLiveController);
+    return isValid ? (data as unknown as LivePatchMessage) : null;
+  }
+  if (data.type === 'frame') {
+    const { cues, t } = data;
+    const isValid = Array.isArray(cues) && cues.every(isObject) && Number.isFinite(t);
+    return isValid ? (data as unknown as LiveFrameMessage) : null;
+  }
+  return null;
+}
+
+/**
+ * Channel values from a JSON frame's cues, placed by their patched controller, universe and
+ * address (cues of unpatched lanes have nowhere to go and are skipped)
+ */
+export function liveCuesToChannels(cues: ExportedCue[], patch: LivePatchMessage): Uint8Array {
+  const channels = new Uint8Array(patch.channelCount);
+  for (const cue of cues) {
+    const controller = patch.controllers.find((c) => c.name === cue.controller);
+    if (!controller || cue.address === undefined) continue;
+    const address = cue.universe !== undefined ? (cue.universe - controller.startUniverse) * UNIVERSE_SIZE + cue.address : cue.address;
+    const index = controller.start + address - 2;
+    const values = cue.r !== undefined ? [cue.r, cue.g ?? 0, cue.b ?? 0] : [Math.round(cue.state * 255)];
+    values.forEach((value, i) => {
+      if (index + i >= 0 && index + i < channels.length) channels[index + i] = value;
+    });
+  }
+  return channels;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= LIVE_MAX_CHANNELS;
+}
+
+function isLiveController(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const { name, protocol, host, start, channelCount, startUniverse } = value;
+  if (typeof name !== 'string' || typeof protocol !== 'string' || (host !== undefined && typeof host !== 'string')) return false;
+  if (!isCount(channelCount) || !isCount(start) || start < 1) return false;
+  if (!Number.isInteger(startUniverse) || (startUniverse as number) < 1) return false;
+  const controller = value as unknown as OutputController;
+  return !usesUniverses(controller.protocol) || getUniverseRange(controller)[1] <= MAX_UNIVERSE;
+}
+
+function roundColor({ r, g, b }: { r: number; g: number; b: number }) {
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+}
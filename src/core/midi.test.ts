@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, BeatGrid, Project } from '../types';
+import { createMidiFile, getMidiNoteName, MIDI_LEVEL_CONTROLLER, parseMidiFile } from './midi';
+
+const project = (beatGrid?: BeatGrid): Project => ({
+  name: 'Show',
+  songFilename: 'song.mp3',
+  canvasSize: { width: 800, height: 600 },
+  beatGrid,
+});
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+const actors = [
+  actor({
+    keyframes: [
+      { id: 'k0', time: 0, value: 0 },
+      { id: 'k1', time: 1, value: 1 },
+      { id: 'k2', time: 3, value: 0 },
+      { id: 'k3', time: 4, value: 0.5 },
+      { id: 'k4', time: 4.5, value: 1 },
+      { id: 'k5', time: 5, value: 0 },
+    ],
+  }),
+  actor({
+    id: 'a2',
+    label: 'Star',
+    interpolation: 'linear',
+    keyframes: [
+      { id: 'k6', time: 0, value: 0 },
+      { id: 'k7', time: 2, value: 1 },
+      { id: 'k8', time: 4, value: 0 },
+    ],
+  }),
+];
+
+// Tempo (FF 51 03) meta events in a file
+function countTempoEvents(data: Uint8Array): number {
+  return data.filter((byte, i) => byte === 0xff && data[i + 1] === 0x51 && data[i + 2] === 0x03).length;
+}
+
+// Controller numbers of the control change messages on channel 1 (B0 cc value)
+function getControllers(data: Uint8Array): Set<number> {
+  return new Set([...data].flatMap((byte, i) => (byte === 0xb0 ? [data[i + 1]] : [])));
+}
+
+describe('createMidiFile', () => {
+  it('writes a format 1 file with a tempo track and a track per actor', () => {
+    const data = createMidiFile(project(), actors, { duration: 5, tickRate: 0.1 });
+    const view = new DataView(data.buffer);
+    expect(new TextDecoder().decode(data.subarray(0, 4))).toBe('MThd');
+    expect(view.getUint32(4)).toBe(6);
+    expect(view.getUint16(8)).toBe(1);
+    expect(view.getUint16(10)).toBe(3);
+    expect(view.getUint16(12)).toBe(480);
+    expect(countTempoEvents(data)).toBe(1);
+  });
+
+  it('sends levels on an undefined controller rather than one numbered like the note', () => {
+    const data = createMidiFile(project(), actors, { duration: 5, tickRate: 0.1 });
+    expect(getControllers(data)).toEqual(new Set([MIDI_LEVEL_CONTROLLER]));
+    expect(getControllers(createMidiFile(project(), actors, { duration: 5, tickRate: 0.1, levelController: 102 }))).toEqual(new Set([102]));
+  });
+
+  it('rejects level controllers outside 0-119', () => {
+    expect(() => createMidiFile(project(), actors, { duration: 5, tickRate: 0.1, levelController: 121 })).toThrow('Level controller must be 0-119');
+  });
+});
+
+describe('parseMidiFile', () => {
+  const grids: [string, BeatGrid | undefined][] = [
+    ['no beat grid', undefined],
+    ['a tempo change', { bpm: 120, offset: 0, beatsPerBar: 4, tempoChanges: [{ time: 2, bpm: 90, beatsPerBar: 3 }] }],
+    ['a pickup before the first downbeat', { bpm: 100, offset: 0.75, beatsPerBar: 4, tempoChanges: [{ time: 3.5, bpm: 140, beatsPerBar: 4 }] }],
+  ];
+
+  it.each(grids)('reads back what was exported with %s', (_, grid) => {
+    const data = createMidiFile(project(grid), actors, { duration: 5, tickRate: 0.1 });
+    const [tree, star] = parseMidiFile(data);
+
+    expect(tree).toEqual({
+      name: 'Tree',
+      note: 36,
+      interpolation: 'step',
+      keyframes: [
+        { time: 1, value: 1 },
+        { time: 3, value: 0 },
+        // Velocities round levels to 1/127
+        { time: 4, value: 0.504 },
+        { time: 4.5, value: 1 },
+        { time: 5, value: 0 },
+      ],
+    });
+
+    // Smooth actors hold the note and move the level on the level controller
+    expect(star).toMatchObject({ name: 'Star', note: 37, interpolation: 'linear' });
+    const valueAt = (time: number) => star.keyframes.find((kf) => kf.time === time)?.value;
+    expect(valueAt(0.1)).toBeCloseTo(0.05, 2);
+    expect(valueAt(1)).toBeCloseTo(0.5, 2);
+    expect(valueAt(2)).toBe(1);
+    expect(valueAt(3)).toBeCloseTo(0.5, 2);
+    expect(star.keyframes[star.keyframes.length - 1]).toEqual({ time: 4, value: 0 });
+  });
+
+  it('reads levels on a chosen controller', () => {
+    const data = createMidiFile(project(), actors, { duration: 5, tickRate: 0.1, levelController: 110 });
+    expect(parseMidiFile(data)[1].interpolation).toBe('step');
+    const star = parseMidiFile(data, 110)[1];
+    expect(star.interpolation).toBe('linear');
+    expect(star.keyframes.find((kf) => kf.time === 2)?.value).toBe(1);
+  });
+
+  it('writes a tempo event per tempo change', () => {
+    const [, changed, pickup] = grids.map(([, grid]) => createMidiFile(project(grid), actors, { duration: 5, tickRate: 0.1 }));
+    expect(countTempoEvents(changed)).toBe(2);
+    expect(countTempoEvents(pickup)).toBe(3);
+  });
+
+  it('names the notes of tracks with more than one pitch', () => {
+    // Format 0: one track playing C3 then D3, with running status
+    const track = [
+      0x00, 0xff, 0x03, 0x04, ...new TextEncoder().encode('Keys'),
+      0x00, 0x90, 60, 127,
+      0x83, 0x60, 62, 64,  // 480 ticks later, running status
+      0x00, 0x80, 60, 0,
+      0x83, 0x60, 0x80, 62, 0,
+      0x00, 0xff, 0x2f, 0x00,
+    ];
+    const data = Uint8Array.from([
+      ...new TextEncoder().encode('MThd'), 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0,
+      ...new TextEncoder().encode('MTrk'), 0, 0, 0, track.length, ...track,
+    ]);
+
+    expect(parseMidiFile(data)).toEqual([
+      { name: `Keys ${getMidiNoteName(60)}`, note: 60, interpolation: 'step', keyframes: [{ time: 0, value: 1 }, { time: 0.5, value: 0 }] },
+      { name: `Keys ${getMidiNoteName(62)}`, note: 62, interpolation: 'step', keyframes: [{ time: 0.5, value: 0.504 }, { time: 1, value: 0 }] },
+    ]);
+  });
+
+  it('rejects files that are not MIDI', () => {
+    expect(() => parseMidiFile(new TextEncoder().encode('RIFF0000'))).toThrow('Not a MIDI file');
+  });
+});
@@ -0,0 +1,370 @@
+import type { Actor, BeatGrid, InterpolationType, Project } from '../types';
+import { generateCues, type CueOptions } from './cues';
+import { isSteppedActor } from './evaluate';
+
+// Ticks per quarter note in exported files
+const MIDI_PPQ = 480;
+// Note of the first actor; later actors count up, wrapping after 119
+const MIDI_FIRST_NOTE = 36;
+const MIDI_LAST_NOTE = 119;
+// Controller smooth actors send their level on: undefined in the MIDI spec, so a DAW or
+// synth receiving the file doesn't act on it (unlike sustain, portamento or effect sends)
+export const MIDI_LEVEL_CONTROLLER = 20;
+// Tempo when the project has no beat grid (the MIDI default)
+const MIDI_DEFAULT_BPM = 120;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Notes of one pitch read from a MIDI file, as keyframes
+export interface MidiNoteTrack {
+  name: string;  // Track name (or the note's name), used to find or create the actor
+  note: number;
+  keyframes: { time: number; value: number }[];  // seconds, 0-1 from velocity or controller (0 at note off)
+  interpolation: InterpolationType;  // Linear when a controller moves the level between notes
+}
+
+// A tempo in effect from a tick on
+interface TempoPoint {
+  tick: number;
+  time: number;          // seconds
+  microsPerBeat: number;
+  beatsPerBar?: number;  // Time signature to write alongside (export only)
+}
+
+export interface MidiOptions extends CueOptions {
+  levelController?: number;  // Controller number smooth actors send their level on (0-119)
+}
+
+interface MidiEvent {
+  tick: number;
+  order: number;  // Tie-break at one tick: note offs before controllers before note ons
+  data: number[];
+}
+
+/**
+ * Note number an actor plays in exported files
+ */
+export function getMidiNote(actorIndex: number): number {
+  return MIDI_FIRST_NOTE + (actorIndex % (MIDI_LAST_NOTE - MIDI_FIRST_NOTE + 1));
+}
+
+/**
+ * Name of a note number, e.g. C3 for 60
+ */
+export function getMidiNoteName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 2}`;
+}
+
+/**
+ * Standard MIDI file (format 1) with a tempo track and one track per actor. Each actor plays
+ * its own note: step actors as note on/off with the level as velocity, smooth actors as a
+ * note held while lit with the level following on the level controller.
+ */
+export function createMidiFile(project: Project, actors: Actor[], options: MidiOptions): Uint8Array {
+  const { levelController = MIDI_LEVEL_CONTROLLER } = options;
+  if (!(Number.isInteger(levelController) && levelController >= 0 && levelController <= 119)) {
+    throw new Error(`Level controller must be 0-119 (got ${levelController})`);
+  }
+  const cues = generateCues(actors, options);
+  const tempoMap = getExportTempoMap(project.beatGrid);
+  const toTicks = (time: number) => Math.round(secondsToTicks(tempoMap, time));
+  const lastCue = cues.reduce((last, cue) => Math.max(last, cue.t), 0);
+  const endTick = toTicks(Math.max(options.duration, lastCue));
+
+  const tempoTrack: MidiEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, textBytes(project.name || 'Griswold')) },
+    ...tempoMap.flatMap((point) => [
+      { tick: point.tick, order: 0, data: metaEvent(0x51, uint24(point.microsPerBeat)) },
+      ...(point.beatsPerBar
+        ? [{ tick: point.tick, order: 0, data: metaEvent(0x58, [point.beatsPerBar, 2, 24, 8]) }]
+        : []),
+    ]),
+  ];
+
+  const actorTracks = actors.map((actor, index) => {
+    const note = getMidiNote(index);
+    const stepped = isSteppedActor(actor);
+    const events: MidiEvent[] = [{ tick: 0, order: 0, data: metaEvent(0x03, textBytes(actor.label)) }];
+    const noteOn = (tick: number, level: number) =>
+      events.push({ tick, order: 2, data: [0x90, note, Math.max(1, Math.round(level * 127))] });
+    const noteOff = (tick: number) => events.push({ tick, order: 0, data: [0x80, note, 0] });
+
+    // Only the main lane plays the note; cues are keyed by label
+    let level = 0;
+    for (const cue of cues) {
+      if (cue.id !== actor.label || cue.channel !== undefined) continue;
+      const tick = toTicks(cue.t);
+      const value = Math.round(cue.state * 127) / 127;
+      if (value === level) continue;
+
+      if (value === 0) {
+        noteOff(tick);
+      } else if (level === 0) {
+        noteOn(tick, value);
+      } else if (stepped) {
+        noteOff(tick);
+        noteOn(tick, value);
+      } else {
+        events.push({ tick, order: 1, data: [0xb0, levelController, Math.round(value * 127)] });
+      }
+      level = value;
+    }
+    if (level > 0) noteOff(Math.max(endTick, events[events.length - 1].tick));
+
+    return events;
+  });
+
+  const tracks = [tempoTrack, ...actorTracks].map(encodeTrack);
+  const header = [
+    ...asciiBytes('MThd'), ...uint32(6),
+    0, 1,  // format 1: simultaneous tracks
+    ...uint16(tracks.length),
+    ...uint16(MIDI_PPQ),
+  ];
+
+  return Uint8Array.from([...header, ...tracks.flat()]);
+}
+
+/**
+ * Read every note of a standard MIDI file as keyframes, one track per pitch of each track.
+ * The level controller moves the level of the notes sounding in its track.
+ */
+export function parseMidiFile(data: Uint8Array, levelController = MIDI_LEVEL_CONTROLLER): MidiNoteTrack[] {
+  const reader = createReader(data);
+  if (reader.ascii(4) !== 'MThd') throw new Error('Not a MIDI file');
+  const headerLength = reader.uint32();
+  reader.uint16();  // format
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  if (division & 0x8000) throw new Error('SMPTE-timed MIDI files are not supported');
+  reader.skip(headerLength - 6);
+
+  // Read the raw events first: tempo changes can sit in any track
+  const rawTracks: {
+    name?: string;
+    notes: { tick: number; note: number; velocity: number }[];
+    controllers: { tick: number; controller: number; value: number }[];
+  }[] = [];
+  const tempos: { tick: number; microsPerBeat: number }[] = [];
+
+  for (let i = 0; i < trackCount && !reader.isDone(); i++) {
+    if (reader.ascii(4) !== 'MTrk') throw new Error(`Track ${i + 1} is damaged`);
+    const length = reader.uint32();
+    const end = reader.position + length;
+    const track: (typeof rawTracks)[number] = { notes: [], controllers: [] };
+    let tick = 0;
+    let runningStatus = 0;
+
+    while (reader.position < end) {
+      tick += reader.varLength();
+      // Running status: a data byte repeats the previous channel message's status
+      const status = reader.peek() & 0x80 ? reader.uint8() : runningStatus;
+      if (status < 0xf0) runningStatus = status;
+      const type = status & 0xf0;
+
+      if (status === 0xff) {
+        const metaType = reader.uint8();
+        const bytes = reader.bytes(reader.varLength());
+        if (metaType === 0x03 && !track.name) track.name = new TextDecoder().decode(bytes).trim();
+        if (metaType === 0x51) tempos.push({ tick, microsPerBeat: (bytes[0] << 16) | (bytes[1] << 8) | bytes[2] });
+      } else if (status === 0xf0 || status === 0xf7) {
+        reader.skip(reader.varLength());
+      } else if (type === 0x80 || type === 0x90) {
+        const note = reader.uint8();
+        const velocity = reader.uint8();
+        track.notes.push({ tick, note, velocity: type === 0x80 ? 0 : velocity });
+      } else if (type === 0xb0) {
+        const controller = reader.uint8();
+        track.controllers.push({ tick, controller, value: reader.uint8() });
+      } else {
+        // Program change and channel pressure carry one data byte, the rest two
+        reader.skip(type === 0xc0 || type === 0xd0 ? 1 : 2);
+      }
+    }
+
+    reader.seek(end);
+    rawTracks.push(track);
+  }
+
+  const tempoMap = getImportTempoMap(tempos, division);
+  const noteTracks: MidiNoteTrack[] = [];
+
+  for (const track of rawTracks) {
+    const pitches = [...new Set(track.notes.map((n) => n.note))].sort((a, b) => a - b);
+    for (const note of pitches) {
+      // The level controller moves the note's level while it sounds (as exported)
+      const levels = [
+        ...track.notes.filter((n) => n.note === note).map((n) => ({ tick: n.tick, value: n.velocity, isNote: true })),
+        ...track.controllers
+          .filter((c) => c.controller === levelController)
+          .map((c) => ({ tick: c.tick, value: c.value, isNote: false })),
+      ].sort((a, b) => a.tick - b.tick || Number(b.isNote) - Number(a.isNote));
+
+      const keyframes: MidiNoteTrack['keyframes'] = [];
+      let isOn = false;
+      let hasControllers = false;
+      for (const event of levels) {
+        if (!event.isNote && !isOn) continue;
+        if (event.isNote) isOn = event.value > 0;
+        else hasControllers = true;
+
+        const time = Math.round(ticksToSeconds(tempoMap, (event.tick * MIDI_PPQ) / division) * 1000) / 1000;
+        const value = Math.round((event.value / 127) * 1000) / 1000;
+        // A note off and the next note on at one time: the later event wins
+        if (keyframes.length > 0 && keyframes[keyframes.length - 1].time === time) keyframes.pop();
+        keyframes.push({ time, value });
+      }
+      // A track with one pitch is one actor; otherwise each pitch gets its own
+      const name = track.name && pitches.length === 1
+        ? track.name
+        : [track.name, getMidiNoteName(note)].filter(Boolean).join(' ');
+      noteTracks.push({ name, note, keyframes, interpolation: hasControllers ? 'linear' : 'step' });
+    }
+  }
+
+  return noteTracks;
+}
+
+/**
+ * Tempo points for a beat grid. A first downbeat after the start of the song gets a
+ * pickup bar of whole beats, so the grid's bars line up with the file's.
+ */
+function getExportTempoMap(grid: BeatGrid | undefined): TempoPoint[] {
+  if (!grid || !(grid.bpm > 0)) {
+    return [{ tick: 0, time: 0, microsPerBeat: Math.round(60e6 / MIDI_DEFAULT_BPM), beatsPerBar: 4 }];
+  }
+
+  const sections = [
+    { time: grid.offset, bpm: grid.bpm, beatsPerBar: grid.beatsPerBar },
+    ...(grid.tempoChanges ?? [])
+      .filter((change) => change.time > grid.offset && change.bpm > 0)
+      .sort((a, b) => a.time - b.time),
+  ];
+
+  if (grid.offset > 0) {
+    const beats = Math.max(1, Math.min(255, Math.round(grid.offset / (60 / grid.bpm))));
+    sections.unshift({ time: 0, bpm: (beats * 60) / grid.offset, beatsPerBar: beats });
+  }
+
+  const points: TempoPoint[] = [];
+  for (const section of sections) {
+    const tick = points.length > 0 ? Math.round(secondsToTicks(points, section.time)) : 0;
+    points.push({ tick, time: section.time, microsPerBeat: Math.round(60e6 / section.bpm), beatsPerBar: section.beatsPerBar });
+  }
+  return points;
+}
+
+function getImportTempoMap(tempos: { tick: number; microsPerBeat: number }[], division: number): TempoPoint[] {
+  const points: TempoPoint[] = [{ tick: 0, time: 0, microsPerBeat: Math.round(60e6 / MIDI_DEFAULT_BPM) }];
+  for (const tempo of [...tempos].sort((a, b) => a.tick - b.tick)) {
+    const previous = points[points.length - 1];
+    const time = previous.time + ((tempo.tick - previous.tick) * previous.microsPerBeat) / 1e6 / division;
+    if (tempo.tick === previous.tick) points.pop();
+    points.push({ tick: tempo.tick, time, microsPerBeat: tempo.microsPerBeat });
+  }
+  // Scale to the exported resolution, so both directions share one conversion
+  return points.map((point) => ({ ...point, tick: (point.tick * MIDI_PPQ) / division }));
+}
+
+function secondsToTicks(points: TempoPoint[], time: number): number {
+  const point = [...points].reverse().find((p) => p.time <= time) ?? points[0];
+  return point.tick + ((time - point.time) * 1e6 * MIDI_PPQ) / point.microsPerBeat;
+}
+
+function ticksToSeconds(points: TempoPoint[], tick: number): number {
+  const point = [...points].reverse().find((p) => p.tick <= tick) ?? points[0];
+  return point.time + ((tick - point.tick) * point.microsPerBeat) / 1e6 / MIDI_PPQ;
+}
+
+function encodeTrack(events: MidiEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const bytes: number[] = [];
+  let tick = 0;
+  for (const event of sorted) {
+    bytes.push(...varLength(event.tick - tick), ...event.data);
+    tick = event.tick;
+  }
+  bytes.push(0, ...metaEvent(0x2f, []));  // end of track
+  return [...asciiBytes('MTrk'), ...uint32(bytes.length), ...bytes];
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...varLength(data.length), ...data];
+}
+
+function varLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let rest = value >> 7; rest > 0; rest >>= 7) bytes.unshift((rest & 0x7f) | 0x80);
+  return bytes;
+}
+
+function textBytes(text: string): number[] {
+  return [...new TextEncoder().encode(text)];
+}
+
+function asciiBytes(text: string): number[] {
+  return [...text].map((c) => c.charCodeAt(0));
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function uint24(value: number): number[] {
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// Big-endian cursor over a MIDI file, failing cleanly on truncated data
+function createReader(data: Uint8Array) {
+  let position = 0;
+
+  const ensure = (length: number) => {
+    if (position + length > data.length) throw new Error('MIDI file ends unexpectedly');
+  };
+  const uint8 = () => {
+    ensure(1);
+    return data[position++];
+  };
+  const uint16 = () => (uint8() << 8) | uint8();
+  const bytes = (length: number) => {
+    ensure(length);
+    position += length;
+    return data.subarray(position - length, position);
+  };
+
+  return {
+    get position() {
+      return position;
+    },
+    isDone: () => position >= data.length,
+    peek: () => {
+      ensure(1);
+      return data[position];
+    },
+    uint8,
+    uint16,
+    uint32: () => ((uint16() << 16) | uint16()) >>> 0,
+    varLength: () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        const byte = uint8();
+        value = (value << 7) | (byte & 0x7f);
+        if (!(byte & 0x80)) break;
+      }
+      return value;
+    },
+    ascii: (length: number) => String.fromCharCode(...bytes(length)),
+    bytes,
+    skip: (length: number) => {
+      ensure(length);
+      position += length;
+    },
+    seek: (to: number) => {
+      position = Math.min(to, data.length);
+    },
+  };
+}
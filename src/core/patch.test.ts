@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, ActorChannel, ActorPatch, OutputController } from '../types';
+import { autoPatch, formatOutputRange, getChannelMap, getOutputAddress, getPatchConflicts } from './patch';
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+const controller = (fields: Partial<OutputController> = {}): OutputController => ({
+  id: 'ctl',
+  name: 'Yard',
+  protocol: 'e131',
+  startUniverse: 1,
+  channelCount: 1024,
+  ...fields,
+});
+
+const dimmer: ActorChannel = { id: 'c1', name: 'Dimmer', type: 'dimmer', keyframes: [], interpolation: 'step' };
+
+const patched = (id: string, address: number, fields: Partial<Actor> = {}) =>
+  actor({ id, label: id, patch: { controllerId: 'ctl', address }, ...fields });
+
+describe('getOutputAddress', () => {
+  it('splits channels into universes on controllers that use them', () => {
+    expect(getOutputAddress(controller({ startUniverse: 3 }), 513)).toEqual({ universe: 4, address: 1 });
+    expect(getOutputAddress(controller({ protocol: 'ddp' }), 513)).toEqual({ address: 513 });
+    expect(formatOutputRange(controller(), 511, 3)).toBe('U1.511-U2.1');
+    expect(formatOutputRange(controller(), 2, 3)).toBe('U1.2-4');
+    expect(formatOutputRange(controller({ protocol: 'pins' }), 5)).toBe('Pin 5');
+  });
+});
+
+describe('getChannelMap', () => {
+  it('places patched actors at their address and the rest after every controller', () => {
+    const yard = controller({ channelCount: 512 });
+    const porch = controller({ id: 'porch', name: 'Porch', startUniverse: 2, channelCount: 100 });
+    const map = getChannelMap([
+      actor({ id: 'loose', label: 'Loose' }),
+      patched('rgb', 10, { kind: 'rgb', channels: [dimmer] }),
+      actor({ id: 'star', label: 'Star', patch: { controllerId: 'porch', address: 1 } }),
+    ], [yard, porch]);
+    expect(map.map(({ actor, channel, start, width, address }) => [actor.id, channel, start, width, address])).toEqual([
+      ['loose', undefined, 613, 1, undefined],
+      ['rgb', undefined, 10, 3, 10],
+      ['rgb', 'Dimmer', 13, 1, 13],
+      ['star', undefined, 513, 1, 1],
+    ]);
+  });
+
+  it('lays unpatched actors past actors patched beyond their controller', () => {
+    const map = getChannelMap([patched('wide', 1023, { channels: [dimmer, { ...dimmer, id: 'c2' }] }), actor()], [controller()]);
+    expect(map[map.length - 1].start).toBe(1026);
+  });
+});
+
+describe('getPatchConflicts', () => {
+  it('finds actors sharing channels', () => {
+    const conflicts = getPatchConflicts([patched('A', 1, { kind: 'rgb' }), patched('B', 3), patched('C', 4)], [controller()]);
+    expect(conflicts).toEqual([
+      { kind: 'overlap', message: 'A and B share channel 3 on Yard', actorIds: ['A', 'B'], controllerIds: ['ctl'] },
+    ]);
+  });
+
+  it('finds actors off the end of their controller or without one', () => {
+    const conflicts = getPatchConflicts([
+      patched('A', 1023, { kind: 'rgb' }),
+      patched('B', 0),
+      actor({ id: 'C', label: 'C', patch: { controllerId: 'gone', address: 1 } }),
+    ], [controller()]);
+    expect(conflicts.map((c) => [c.kind, c.message])).toEqual([
+      ['overflow', 'A needs channels 1023-1025 but Yard only has 1024'],
+      ['invalid-address', 'B has an invalid address (0) on Yard'],
+      ['missing-controller', 'C is patched to a controller that no longer exists'],
+    ]);
+  });
+
+  it('finds network controllers listening for the same universes', () => {
+    const conflicts = getPatchConflicts([], [
+      controller(),
+      controller({ id: 'b', name: 'Roof', startUniverse: 2 }),
+      controller({ id: 'c', name: 'Garage', startUniverse: 2, host: '10.0.0.9' }),
+      controller({ id: 'd', name: 'Tree', protocol: 'ddp', host: '10.0.0.5' }),
+      controller({ id: 'e', name: 'Arch', protocol: 'ddp', host: ' 10.0.0.5' }),
+    ]);
+    expect(conflicts.map((c) => c.message)).toEqual([
+      'Yard and Roof both use universe 2',
+      'Tree and Arch are both DDP controllers at the same address',
+    ]);
+  });
+
+  it('keeps up with big shows', () => {
+    const actors = Array.from({ length: 20_000 }, (_, i) => patched(`a${i}`, i + 1));
+    expect(getPatchConflicts(actors, [controller({ channelCount: 20_000 })])).toEqual([]);
+  });
+});
+
+describe('autoPatch', () => {
+  const addresses = (patches: Map<string, ActorPatch>) => Object.fromEntries([...patches].map(([id, p]) => [id, p.address]));
+
+  it('packs unpatched actors into the free channels in list order', () => {
+    const actors = [patched('A', 2), actor({ id: 'B' }), actor({ id: 'C', kind: 'rgb' }), actor({ id: 'D' })];
+    expect(addresses(autoPatch(actors, [controller()], controller()))).toEqual({ B: 1, C: 3, D: 6 });
+  });
+
+  it('keeps lanes inside a universe and leaves out actors that do not fit', () => {
+    const actors = [patched('A', 1, { channels: Array(509).fill(dimmer) }), actor({ id: 'B', kind: 'rgb' }), actor({ id: 'C' })];
+    // B would straddle channels 511-513, so it starts the second universe and C fills the gap
+    expect(addresses(autoPatch(actors, [controller()], controller()))).toEqual({ B: 513, C: 511 });
+    expect(autoPatch([actor({ kind: 'rgb' })], [], controller({ channelCount: 2 })).size).toBe(0);
+  });
+
+  it('moves actors patched to a controller that no longer exists', () => {
+    const lost = actor({ patch: { controllerId: 'gone', address: 7 } });
+    expect(addresses(autoPatch([lost], [controller()], controller()))).toEqual({ a1: 1 });
+  });
+});
@@ -0,0 +1,260 @@
+import type { Actor, ActorPatch, KeyframeLane, OutputController, OutputProtocol } from '../types';
+
+// Channels in one DMX universe
+export const UNIVERSE_SIZE = 512;
+
+// Output channels of one keyframe lane: one for values, three (r, g, b) for colors
+export interface ChannelAssignment {
+  actor: Actor;
+  lane: KeyframeLane;
+  channel?: string;  // Channel lane name, absent for the actor's main keyframes
+  start: number;     // 1-based first channel across all controllers (the sequence channel)
+  width: 1 | 3;
+  controller?: OutputController;  // Absent for unpatched actors
+  address?: number;  // 1-based first channel on the controller
+}
+
+export type PatchConflictKind = 'overlap' | 'overflow' | 'invalid-address' | 'missing-controller' | 'universe-overlap';
+
+export interface PatchConflict {
+  kind: PatchConflictKind;
+  message: string;
+  actorIds: string[];
+  controllerIds: string[];
+}
+
+/**
+ * Whether a protocol numbers its channels in 512-channel universes
+ */
+export function usesUniverses(protocol: OutputProtocol): boolean {
+  return protocol === 'e131' || protocol === 'artnet' || protocol === 'dmx';
+}
+
+/**
+ * Universes a controller spans, first and last
+ */
+export function getUniverseRange(controller: OutputController): [number, number] {
+  const count = Math.max(1, Math.ceil(controller.channelCount / UNIVERSE_SIZE));
+  return [controller.startUniverse, controller.startUniverse + count - 1];
+}
+
+/**
+ * A channel on a controller as its universe and address within it (just the address on
+ * controllers without universes)
+ */
+export function getOutputAddress(controller: OutputController, address: number): { universe?: number; address: number } {
+  if (!usesUniverses(controller.protocol)) return { address };
+  return {
+    universe: controller.startUniverse + Math.floor((address - 1) / UNIVERSE_SIZE),
+    address: ((address - 1) % UNIVERSE_SIZE) + 1,
+  };
+}
+
+/**
+ * Short form of a patched range for lists, e.g. "U2.17", "U1.1-3" or "Pin 5"
+ */
+export function formatOutputRange(controller: OutputController, address: number, width = 1): string {
+  const format = (channel: number) => {
+    if (controller.protocol === 'pins') return `Pin ${channel}`;
+    const output = getOutputAddress(controller, channel);
+    return output.universe !== undefined ? `U${output.universe}.${output.address}` : `Ch ${output.address}`;
+  };
+  if (width <= 1) return format(address);
+  const first = getOutputAddress(controller, address);
+  const last = getOutputAddress(controller, address + width - 1);
+  return `${format(address)}-${first.universe === last.universe ? last.address : format(address + width - 1)}`;
+}
+
+/**
+ * An actor's keyframe lanes in output order: the main lane, then its channels
+ */
+export function getActorLanes(actor: Actor): { lane: KeyframeLane; channel?: string; width: 1 | 3 }[] {
+  return [
+    { lane: actor as KeyframeLane, width: actor.kind === 'rgb' ? 3 : 1 },
+    ...actor.channels.map((channel) => ({
+      lane: channel,
+      channel: channel.name,
+      width: channel.type === 'color' ? 3 as const : 1 as const,
+    })),
+  ];
+}
+
+/**
+ * Channels an actor takes up
+ */
+export function getActorFootprint(actor: Actor): number {
+  return getActorLanes(actor).reduce((total, { width }) => total + width, 0);
+}
+
+/**
+ * First sequence channel of each controller: controllers follow each other in list order
+ */
+export function getControllerBases(controllers: OutputController[]): Map<string, number> {
+  const bases = new Map<string, number>();
+  let next = 1;
+  for (const controller of controllers) {
+    bases.set(controller.id, next);
+    next += Math.max(0, controller.channelCount);
+  }
+  return bases;
+}
+
+/**
+ * Lay every actor's lanes out on sequence channels. Patched actors sit at their address on
+ * their controller; the rest follow each other after the last patched channel.
+ */
+export function getChannelMap(actors: Actor[], controllers: OutputController[] = []): ChannelAssignment[] {
+  const bases = getControllerBases(controllers);
+  const byId = new Map(controllers.map((c) => [c.id, c]));
+  const isPatched = (actor: Actor) => !!actor.patch && byId.has(actor.patch.controllerId) && actor.patch.address >= 1;
+
+  // Unpatched actors start after every controller and every patched actor
+  let next = 1 + controllers.reduce((total, c) => total + Math.max(0, c.channelCount), 0);
+  for (const actor of actors) {
+    if (!isPatched(actor)) continue;
+    const start = bases.get(actor.patch!.controllerId)! + actor.patch!.address - 1;
+    next = Math.max(next, start + getActorFootprint(actor));
+  }
+
+  const assignments: ChannelAssignment[] = [];
+  for (const actor of actors) {
+    const controller = isPatched(actor) ? byId.get(actor.patch!.controllerId)! : undefined;
+    let start = controller ? bases.get(controller.id)! + actor.patch!.address - 1 : next;
+    let address = actor.patch?.address ?? 0;
+
+    for (const { lane, channel, width } of getActorLanes(actor)) {
+      assignments.push({
+        actor,
+        lane,
+        ...(channel !== undefined ? { channel } : {}),
+        start,
+        width,
+        ...(controller ? { controller, address } : {}),
+      });
+      start += width;
+      address += width;
+    }
+    if (!controller) next = start;
+  }
+
+  return assignments;
+}
+
+/**
+ * Everything wrong with a patch: actors sharing channels, running off the end of their
+ * controller or patched to one that no longer exists, and network controllers whose
+ * universes collide
+ */
+export function getPatchConflicts(actors: Actor[], controllers: OutputController[]): PatchConflict[] {
+  const conflicts: PatchConflict[] = [];
+  const byId = new Map(controllers.map((c) => [c.id, c]));
+  const ranges = new Map<string, { actor: Actor; from: number; to: number }[]>();
+
+  for (const actor of actors) {
+    if (!actor.patch) continue;
+    const { controllerId, address } = actor.patch;
+    const controller = byId.get(controllerId);
+    if (!controller) {
+      conflicts.push({
+        kind: 'missing-controller',
+        message: `${actor.label} is patched to a controller that no longer exists`,
+        actorIds: [actor.id],
+        controllerIds: [],
+      });
+      continue;
+    }
+    if (!Number.isInteger(address) || address < 1) {
+      conflicts.push({
+        kind: 'invalid-address',
+        message: `${actor.label} has an invalid address (${address}) on ${controller.name}`,
+        actorIds: [actor.id],
+        controllerIds: [controller.id],
+      });
+      continue;
+    }
+
+    const to = address + getActorFootprint(actor) - 1;
+    if (to > controller.channelCount) {
+      conflicts.push({
+        kind: 'overflow',
+        message: `${actor.label} needs ${describeRange(controller, address, to)} but ${controller.name} only has ${controller.channelCount}`,
+        actorIds: [actor.id],
+        controllerIds: [controller.id],
+      });
+    }
+    const patched = ranges.get(controllerId);
+    if (patched) patched.push({ actor, from: address, to });
+    else ranges.set(controllerId, [{ actor, from: address, to }]);
+  }
+
+  for (const [controllerId, patched] of ranges) {
+    const controller = byId.get(controllerId)!;
+    const sorted = [...patched].sort((a, b) => a.from - b.from);
+    sorted.forEach((a, i) => {
+      for (const b of sorted.slice(i + 1)) {
+        if (b.from > a.to) break;
+        conflicts.push({
+          kind: 'overlap',
+          message: `${a.actor.label} and ${b.actor.label} share ${describeRange(controller, b.from, Math.min(a.to, b.to))} on ${controller.name}`,
+          actorIds: [a.actor.id, b.actor.id],
+          controllerIds: [controllerId],
+        });
+      }
+    });
+  }
+
+  // Two network controllers listening for the same universes (or DDP on the same host)
+  // would both light up from each other's data
+  controllers.forEach((a, i) => {
+    for (const b of controllers.slice(i + 1)) {
+      if (a.protocol !== b.protocol || !['e131', 'artnet', 'ddp'].includes(a.protocol)) continue;
+      if ((a.host ?? '').trim() !== (b.host ?? '').trim()) continue;
+      const [aFirst, aLast] = getUniverseRange(a);
+      const [bFirst, bLast] = getUniverseRange(b);
+      if (a.protocol !== 'ddp' && (bFirst > aLast || aFirst > bLast)) continue;
+      conflicts.push({
+        kind: 'universe-overlap',
+        message: a.protocol === 'ddp'
+          ? `${a.name} and ${b.name} are both DDP controllers at the same address`
+          : `${a.name} and ${b.name} both use universe ${Math.max(aFirst, bFirst)}${Math.min(aLast, bLast) > Math.max(aFirst, bFirst) ? `-${Math.min(aLast, bLast)}` : ''}`,
+        actorIds: [],
+        controllerIds: [a.id, b.id],
+      });
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Addresses for actors on a controller, packed into its first free channels in list order.
+ * Lanes don't straddle a universe boundary, and actors that don't fit are left out.
+ */
+export function autoPatch(actors: Actor[], controllers: OutputController[], controller: OutputController): Map<string, ActorPatch> {
+  const taken = actors
+    .filter((a) => a.patch?.controllerId === controller.id && a.patch.address >= 1)
+    .map((a) => [a.patch!.address, a.patch!.address + getActorFootprint(a) - 1] as const);
+  const isFree = (from: number, to: number) => taken.every(([a, b]) => to < a || from > b);
+  const patches = new Map<string, ActorPatch>();
+
+  for (const actor of actors) {
+    if (actor.patch && controllers.some((c) => c.id === actor.patch!.controllerId)) continue;
+    const footprint = getActorFootprint(actor);
+    for (let address = 1; address + footprint - 1 <= controller.channelCount; address++) {
+      const to = address + footprint - 1;
+      const straddles = usesUniverses(controller.protocol) && footprint <= UNIVERSE_SIZE &&
+        Math.floor((address - 1) / UNIVERSE_SIZE) !== Math.floor((to - 1) / UNIVERSE_SIZE);
+      if (straddles || !isFree(address, to)) continue;
+      patches.set(actor.id, { controllerId: controller.id, address });
+      taken.push([address, to]);
+      break;
+    }
+  }
+
+  return patches;
+}
+
+function describeRange(controller: OutputController, from: number, to: number): string {
+  const noun = controller.protocol === 'pins' ? 'pin' : 'channel';
+  return from === to ? `${noun} ${from}` : `${noun}s ${from}-${to}`;
+}
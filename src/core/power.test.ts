@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, PowerCircuit } from '../types';
+import { getActorLoadAtTime, getCircuitLoads, getPowerOverloads, POWER_SAMPLE_STEP } from './power';
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+const porch: PowerCircuit = { id: 'c1', name: 'Porch', maxWatts: 150 };
+
+// On at full from 1s to 2s
+const flash = (id: string, watts: number) => actor({
+  id,
+  keyframes: [
+    { id: `${id}-dark`, time: 0, value: 0 },
+    { id: `${id}-on`, time: 1, value: 1 },
+    { id: `${id}-off`, time: 2, value: 0 },
+  ],
+  power: { watts, circuitId: 'c1' },
+});
+
+describe('getActorLoadAtTime', () => {
+  it('scales the rated draw by the output level', () => {
+    const lamp = actor({ keyframes: [{ id: 'k1', time: 0, value: 0.5 }], power: { watts: 60 } });
+    expect(getActorLoadAtTime(lamp, 1)).toBe(30);
+    expect(getActorLoadAtTime({ ...lamp, power: undefined }, 1)).toBe(0);
+  });
+
+  it('draws the lit share of an RGB prop', () => {
+    const rgb = (color: { r: number; g: number; b: number }) =>
+      actor({ kind: 'rgb', keyframes: [{ id: 'k1', time: 0, value: 1, color }], power: { watts: 90 } });
+    expect(getActorLoadAtTime(rgb({ r: 255, g: 255, b: 255 }), 0)).toBe(90);
+    expect(getActorLoadAtTime(rgb({ r: 255, g: 0, b: 0 }), 0)).toBe(30);
+    expect(getActorLoadAtTime(rgb({ r: 0, g: 0, b: 0 }), 0)).toBe(0);
+  });
+});
+
+describe('getCircuitLoads', () => {
+  it('sums the actors plugged into each circuit', () => {
+    const unplugged = { ...flash('a3', 500), power: { watts: 500 } };
+    const [load] = getCircuitLoads([flash('a1', 100), flash('a2', 80), unplugged], [porch], 3);
+    expect(load.watts).toHaveLength(3 / POWER_SAMPLE_STEP + 1);
+    expect(load.watts[Math.round(1.5 / POWER_SAMPLE_STEP)]).toBe(180);
+    expect(load.peak).toBe(180);
+  });
+
+  it('samples just the start without a length', () => {
+    const lamp = actor({ keyframes: [{ id: 'k1', time: 0, value: 1 }], power: { watts: 100, circuitId: 'c1' } });
+    expect(getCircuitLoads([lamp], [porch], 0)[0].watts).toEqual([100]);
+    expect(getCircuitLoads([lamp], [porch], NaN)[0].watts).toEqual([100]);
+  });
+});
+
+describe('getPowerOverloads', () => {
+  it('reports each stretch over the limit with its peak', () => {
+    const overloads = getPowerOverloads(getCircuitLoads([flash('a1', 100), flash('a2', 80)], [porch], 3));
+    expect(overloads).toEqual([
+      { circuitId: 'c1', start: 1, end: 2, peak: 180, message: 'Porch: 180W of 150W from 1.00s to 2.00s' },
+    ]);
+  });
+
+  it('closes a stretch that runs to the end of the show', () => {
+    const [overload] = getPowerOverloads([{ circuit: porch, watts: [0, 200, 300], peak: 300 }]);
+    expect(overload).toMatchObject({ start: POWER_SAMPLE_STEP, end: 3 * POWER_SAMPLE_STEP, peak: 300 });
+  });
+});
@@ -0,0 +1,84 @@
+import type { Actor, PowerCircuit } from '../types';
+import { getActorOutputAtTime } from './evaluate';
+
+// Seconds between power samples (strobes faster than this are caught only now and then)
+export const POWER_SAMPLE_STEP = 0.05;
+
+export interface CircuitLoad {
+  circuit: PowerCircuit;
+  watts: number[];  // Load at each sample, POWER_SAMPLE_STEP apart from t=0
+  peak: number;
+}
+
+export interface PowerOverload {
+  circuitId: string;
+  start: number;  // seconds
+  end: number;    // seconds
+  peak: number;   // watts
+  message: string;
+}
+
+/**
+ * Watts an actor draws at a time: its output level times its rated draw. RGB props only
+ * light some of their emitters for colors other than white, so they draw that share.
+ */
+export function getActorLoadAtTime(actor: Actor, time: number): number {
+  if (!actor.power?.watts) return 0;
+  const { value, color } = getActorOutputAtTime(actor, time);
+  let level = value;
+  if (actor.kind === 'rgb' && color) {
+    const brightest = Math.max(color.r, color.g, color.b);
+    level *= brightest > 0 ? (color.r + color.g + color.b) / (3 * brightest) : 0;
+  }
+  return actor.power.watts * Math.max(0, Math.min(1, level));
+}
+
+/**
+ * Each circuit's load over the show, summed from the actors plugged into it
+ */
+export function getCircuitLoads(actors: Actor[], circuits: PowerCircuit[], duration: number): CircuitLoad[] {
+  // Just t=0 without a length to sample over
+  const sampleCount = duration > 0 ? Math.floor(duration / POWER_SAMPLE_STEP) + 1 : 1;
+  return circuits.map((circuit) => {
+    const watts = new Array<number>(sampleCount).fill(0);
+    for (const actor of actors) {
+      if (actor.power?.circuitId !== circuit.id || !actor.power.watts) continue;
+      for (let i = 0; i < sampleCount; i++) {
+        watts[i] += getActorLoadAtTime(actor, i * POWER_SAMPLE_STEP);
+      }
+    }
+    return { circuit, watts, peak: watts.reduce((max, load) => Math.max(max, load), 0) };
+  });
+}
+
+/**
+ * Stretches of the show where a circuit draws more than its limit
+ */
+export function getPowerOverloads(loads: CircuitLoad[]): PowerOverload[] {
+  const overloads: PowerOverload[] = [];
+  for (const { circuit, watts } of loads) {
+    let start = -1;
+    let peak = 0;
+    watts.forEach((load, i) => {
+      const isOver = load > circuit.maxWatts;
+      if (isOver) {
+        if (start < 0) start = i;
+        peak = Math.max(peak, load);
+      }
+      if (start >= 0 && (!isOver || i === watts.length - 1)) {
+        const from = start * POWER_SAMPLE_STEP;
+        const to = (isOver ? i + 1 : i) * POWER_SAMPLE_STEP;
+        overloads.push({
+          circuitId: circuit.id,
+          start: from,
+          end: to,
+          peak,
+          message: `${circuit.name}: ${Math.round(peak)}W of ${circuit.maxWatts}W from ${from.toFixed(2)}s to ${to.toFixed(2)}s`,
+        });
+        start = -1;
+        peak = 0;
+      }
+    });
+  }
+  return overloads.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, ActorChannel, TestModeState } from '../types';
+import { getActorColorAtTime, getActorValueAtTime } from './evaluate';
+import { getChaseIndex, getTestActors, isLitByTest } from './wiring';
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Tree',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'linear',
+  channels: [],
+  ...fields,
+});
+
+const test = (fields: Partial<TestModeState> = {}): TestModeState => ({
+  pattern: 'all-on',
+  rate: 2,
+  actorId: null,
+  time: 0,
+  ...fields,
+});
+
+const actors = ['a1', 'a2', 'a3'].map((id) => actor({ id }));
+
+// Which of the actors a test lights, as 0/1 flags in timeline order
+const lit = (state: TestModeState) => actors.map((a, i) => Number(isLitByTest(state, a, i, actors.length)));
+
+describe('isLitByTest', () => {
+  it('lights everything, nothing or one actor', () => {
+    expect(lit(test())).toEqual([1, 1, 1]);
+    expect(lit(test({ pattern: 'all-off' }))).toEqual([0, 0, 0]);
+    expect(lit(test({ pattern: 'solo', actorId: 'a2' }))).toEqual([0, 1, 0]);
+  });
+
+  it('chases through the actors at the rate', () => {
+    expect(lit(test({ pattern: 'chase', time: 0.6 }))).toEqual([0, 1, 0]);
+    expect(getChaseIndex(test({ time: 1.6 }), actors.length)).toBe(0);
+    expect(isLitByTest(test({ pattern: 'chase' }), actors[0], 0, 0)).toBe(false);
+  });
+
+  it('blinks every actor, or just the chosen one', () => {
+    expect(lit(test({ pattern: 'blink', time: 0.1 }))).toEqual([1, 1, 1]);
+    expect(lit(test({ pattern: 'blink', time: 0.3 }))).toEqual([0, 0, 0]);
+    expect(lit(test({ pattern: 'blink', time: 0.1, actorId: 'a3' }))).toEqual([0, 0, 1]);
+  });
+});
+
+describe('getTestActors', () => {
+  const channel = (fields: Partial<ActorChannel>): ActorChannel => ({
+    id: 'c1', name: 'Channel', type: 'generic', keyframes: [], interpolation: 'linear', ...fields,
+  });
+
+  it('holds lit actors full on and white, whatever their keyframes say', () => {
+    const rgb = actor({
+      kind: 'rgb',
+      keyframes: [{ id: 'k1', time: 0, value: 0.2, color: { r: 255, g: 0, b: 0 } }],
+      channels: [
+        channel({ id: 'dim', type: 'dimmer', keyframes: [{ id: 'k2', time: 0, value: 0.1 }] }),
+        channel({ id: 'pan', type: 'pan', keyframes: [{ id: 'k3', time: 0, value: 0.7 }] }),
+      ],
+    });
+    const [held] = getTestActors([rgb], test());
+    expect(getActorValueAtTime(held, 30)).toBe(1);
+    expect(getActorColorAtTime(held, 30)).toEqual({ r: 255, g: 255, b: 255 });
+    expect(held.channels.map((c) => getActorValueAtTime(c, 30))).toEqual([1, 0]);
+  });
+
+  it('holds dark actors off and drops their effect clips', () => {
+    const strobing = {
+      ...actor({ channels: [channel({ type: 'color' })] }),
+      effects: [{ id: 'e1', type: 'strobe' as const, start: 0, end: 10, rate: 5, dutyCycle: 0.5, phase: 0, seed: 1, low: 0, high: 1 }],
+    };
+    const [held] = getTestActors([strobing], test({ pattern: 'all-off' }));
+    expect(getActorValueAtTime(held, 0)).toBe(0);
+    expect(getActorColorAtTime(held.channels[0], 0)).toEqual({ r: 0, g: 0, b: 0 });
+  });
+});
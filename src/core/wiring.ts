@@ -0,0 +1,50 @@
+import type { Actor, ActorChannel, KeyframeLane, RGBColor, TestModeState } from '../types';
+
+const WHITE: RGBColor = { r: 255, g: 255, b: 255 };
+const BLACK: RGBColor = { r: 0, g: 0, b: 0 };
+
+/**
+ * Whether a channel test lights an actor (by its timeline index) right now
+ */
+export function isLitByTest(test: TestModeState, actor: Actor, index: number, actorCount: number): boolean {
+  switch (test.pattern) {
+    case 'all-on':
+      return true;
+    case 'all-off':
+      return false;
+    case 'solo':
+      return actor.id === test.actorId;
+    case 'chase':
+      return actorCount > 0 && getChaseIndex(test, actorCount) === index;
+    case 'blink':
+      return (test.actorId === null || actor.id === test.actorId) && Math.floor(test.time * test.rate * 2) % 2 === 0;
+  }
+}
+
+/**
+ * Timeline index of the actor a chase test is on
+ */
+export function getChaseIndex(test: TestModeState, actorCount: number): number {
+  return Math.floor(test.time * test.rate) % actorCount;
+}
+
+/**
+ * Stand-ins for the actors holding their test level, to evaluate and output like any show
+ * (at any time). Lit actors go full on, and white where they have a color; dimmer and color
+ * channels follow, every other channel rests at 0.
+ */
+export function getTestActors(actors: Actor[], test: TestModeState): Actor[] {
+  return actors.map((actor, index) => {
+    const lit = isLitByTest(test, actor, index, actors.length);
+    const hold = (isColor: boolean, value: number): Pick<KeyframeLane, 'keyframes' | 'interpolation' | 'effects'> => ({
+      keyframes: [{ id: 'test', time: 0, value, ...(isColor ? { color: value > 0 ? WHITE : BLACK } : {}) }],
+      interpolation: 'step',
+      effects: [],
+    });
+    const holdChannel = (channel: ActorChannel): ActorChannel => ({
+      ...channel,
+      ...hold(channel.type === 'color', (channel.type === 'dimmer' || channel.type === 'color') && lit ? 1 : 0),
+    });
+    return { ...actor, ...hold(actor.kind === 'rgb', lit ? 1 : 0), channels: actor.channels.map(holdChannel) };
+  });
+}
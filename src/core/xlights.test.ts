@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { Actor, EffectClip, OutputController, Project } from '../types';
+import { createXlightsLayout, createXlightsSequence } from './xlights';
+
+const project = (controllers?: OutputController[]): Project => ({
+  name: 'Show',
+  songFilename: 'song.mp3',
+  canvasSize: { width: 800, height: 600 },
+  controllers,
+});
+
+const actor = (fields: Partial<Actor> = {}): Actor => ({
+  id: 'a1',
+  label: 'Porch',
+  shapes: [],
+  keyframes: [],
+  interpolation: 'step',
+  channels: [],
+  ...fields,
+});
+
+const strobe = (fields: Partial<EffectClip> = {}): EffectClip => ({
+  id: 'e1', type: 'strobe', start: 1, end: 2, rate: 2, dutyCycle: 0.5, phase: 0, seed: 1, low: 0, high: 1,
+  ...fields,
+});
+
+// [start, end, startLevel, endLevel] of every On effect on a model, in order
+function getOnEffects(xml: string, model: string): number[][] {
+  const layer = xml.split(`<Element type="model" name="${model}">`)[1]?.split('</Element>')[0] ?? '';
+  const settings = [...xml.matchAll(/<Effect>E_TEXTCTRL_Eff_On_End=(\d+),E_TEXTCTRL_Eff_On_Start=(\d+)<\/Effect>/g)];
+  return [...layer.matchAll(/ref="(\d+)".*startTime="(\d+)" endTime="(\d+)"/g)].map(([, ref, start, end]) => {
+    const [, endLevel, startLevel] = settings[Number(ref)];
+    return [Number(start), Number(end), Number(startLevel), Number(endLevel)];
+  });
+}
+
+describe('createXlightsSequence', () => {
+  it('holds step segments and ramps linear ones', () => {
+    const lamp = actor({
+      keyframes: [
+        { id: 'k0', time: 0, value: 0 },
+        { id: 'k1', time: 1, value: 1 },
+        { id: 'k2', time: 2, value: 0.5, interpolation: 'linear' },
+        { id: 'k3', time: 3, value: 0 },
+      ],
+    });
+    const xml = createXlightsSequence(project(), [lamp], { duration: 4, stepTime: 50 });
+    expect(getOnEffects(xml, 'Porch')).toEqual([[1000, 2000, 100, 100], [2000, 3000, 50, 0]]);
+    expect(xml).toContain('<sequenceDuration>4.000</sequenceDuration>');
+  });
+
+  it('samples effect clips every frame', () => {
+    const lamp = { ...actor({ keyframes: [{ id: 'k1', time: 0, value: 0.2 }] }), effects: [strobe()] };
+    const xml = createXlightsSequence(project(), [lamp], { duration: 3, stepTime: 50 });
+    // Two flashes a second, on for half of each
+    expect(getOnEffects(xml, 'Porch')).toEqual([
+      [0, 1000, 20, 20],
+      [1000, 1250, 100, 100],
+      [1500, 1750, 100, 100],
+      [2000, 3000, 20, 20],
+    ]);
+  });
+
+  it('runs to the last keyframe or clip of any lane without a duration', () => {
+    const lamp = actor({
+      keyframes: [{ id: 'k1', time: 1, value: 1 }],
+      channels: [{ id: 'c1', name: 'Dimmer', type: 'dimmer', keyframes: [], interpolation: 'step', effects: [strobe({ end: 5 })] }],
+    });
+    expect(createXlightsSequence(project(), [lamp], { duration: 0, stepTime: 50 })).toContain('<sequenceDuration>5.000</sequenceDuration>');
+  });
+
+  it('plays channel lanes on models of their own', () => {
+    const lamp = actor({
+      keyframes: [{ id: 'k1', time: 0, value: 1 }],
+      channels: [{ id: 'c1', name: 'Dimmer', type: 'dimmer', keyframes: [{ id: 'k2', time: 1, value: 0.5 }], interpolation: 'step' }],
+    });
+    const xml = createXlightsSequence(project(), [lamp], { duration: 2, stepTime: 50 });
+    expect(xml).toContain('<Element collapsed="0" type="model" name="Porch Dimmer" visible="1"/>');
+    expect(getOnEffects(xml, 'Porch')).toEqual([[0, 2000, 100, 100]]);
+    // The first value holds from the start
+    expect(getOnEffects(xml, 'Porch Dimmer')).toEqual([[0, 1000, 50, 50], [1000, 2000, 50, 50]]);
+  });
+});
+
+describe('createXlightsLayout', () => {
+  it('wires each lane to its channels in the patch', () => {
+    const controller: OutputController = { id: 'ctl', name: 'Yard', protocol: 'e131', startUniverse: 1, channelCount: 512 };
+    const lamp = actor({
+      kind: 'rgb',
+      channels: [{ id: 'c1', name: 'Dimmer', type: 'dimmer', keyframes: [], interpolation: 'step' }],
+      patch: { controllerId: 'ctl', address: 10 },
+    });
+    const xml = createXlightsLayout(project([controller]), [lamp, actor({ id: 'a2', label: 'Star' })]);
+    const models = [...xml.matchAll(/name="([^"]+)".*StringType="([^"]+)".*StartChannel="(\d+)"/g)].map((m) => m.slice(1));
+    expect(models).toEqual([
+      ['Porch', 'RGB Nodes', '10'],
+      ['Porch Dimmer', 'Single Color White', '13'],
+      // Unpatched actors follow the controllers
+      ['Star', 'Single Color White', '513'],
+    ]);
+  });
+});
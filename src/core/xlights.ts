@@ -0,0 +1,261 @@
+import type { Actor, KeyframeLane, Polygon, Project, RGBColor } from '../types';
+import { getColorBrightness, parseHexColor, rgbToHex, scaleColorToBrightness } from './color';
+import { getActorValueAtTime, getActorColorAtTime, getSegmentCurve } from './evaluate';
+import { getChannelMap, type ChannelAssignment } from './patch';
+
+export interface XlightsOptions {
+  duration: number;  // seconds; 0 runs to the last keyframe
+  stepTime: number;  // milliseconds per frame, effect times are snapped to it
+}
+
+// One On effect: a constant level, or a ramp when start and end differ
+interface OnEffect {
+  start: number;       // ms
+  end: number;         // ms
+  startLevel: number;  // 0-100
+  endLevel: number;    // 0-100
+  color: string;       // palette hex
+}
+
+// xLights file version the output is written against
+const XLIGHTS_VERSION = '2024.01';
+// Eased curves and color fades become this many linear ramps per segment
+const RAMP_PIECES = 8;
+
+/**
+ * xLights sequence (.xsq) playing each keyframe lane as On effects against the song, one
+ * model per actor and per channel lane
+ */
+export function createXlightsSequence(project: Project, actors: Actor[], { duration, stepTime }: XlightsOptions): string {
+  const length = duration > 0 ? duration : getLastLaneTime(actors);
+  const lanes = getChannelMap(actors, project.controllers);
+  const palettes: string[] = [];
+  const settings: string[] = [];
+  const indexOf = (list: string[], entry: string) => {
+    if (!list.includes(entry)) list.push(entry);
+    return list.indexOf(entry);
+  };
+
+  let nextId = 1;
+  const elements = lanes.map((lane) => {
+    const effects = getOnEffects(lane, length * 1000, stepTime).map((effect) => {
+      const ref = indexOf(settings, `E_TEXTCTRL_Eff_On_End=${effect.endLevel},E_TEXTCTRL_Eff_On_Start=${effect.startLevel}`);
+      const palette = indexOf(palettes, `C_BUTTON_Palette1=${effect.color.toUpperCase()},C_CHECKBOX_Palette1=1`);
+      return `        <Effect ref="${ref}" name="On" id="${nextId++}" startTime="${effect.start}" endTime="${effect.end}" palette="${palette}"/>`;
+    });
+    return [
+      `    <Element type="model" name="${escapeXml(getModelName(lane))}">`,
+      '      <EffectLayer>',
+      ...effects,
+      '      </EffectLayer>',
+      '    </Element>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xsequence BaseChannel="0" ChanCtrlBasic="0" ChanCtrlColor="0" FixedPointTiming="1" ModelBlending="true">',
+    '  <head>',
+    `    <version>${XLIGHTS_VERSION}</version>`,
+    '    <author>Griswold</author>',
+    `    <song>${escapeXml(project.name)}</song>`,
+    `    <sequenceTiming>${stepTime} ms</sequenceTiming>`,
+    `    <sequenceType>${project.songFilename ? 'Media' : 'Animation'}</sequenceType>`,
+    `    <mediaFile>${escapeXml(project.songFilename)}</mediaFile>`,
+    `    <sequenceDuration>${length.toFixed(3)}</sequenceDuration>`,
+    '  </head>',
+    `  <nextid>${nextId}</nextid>`,
+    '  <ColorPalettes>',
+    ...palettes.map((palette) => `    <ColorPalette>${palette}</ColorPalette>`),
+    '  </ColorPalettes>',
+    '  <EffectDB>',
+    ...settings.map((setting) => `    <Effect>${setting}</Effect>`),
+    '  </EffectDB>',
+    '  <DisplayElements>',
+    ...lanes.map((lane) => `    <Element collapsed="0" type="model" name="${escapeXml(getModelName(lane))}" visible="1"/>`),
+    '  </DisplayElements>',
+    '  <ElementEffects>',
+    ...elements,
+    '  </ElementEffects>',
+    '</xsequence>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * xLights layout (xlights_rgbeffects.xml) with one poly line model per keyframe lane, tracing
+ * the actor's shapes and wired to the same start channels as the FSEQ export (so the
+ * project's patch). Channel lanes are models of their own, named after actor and channel.
+ */
+export function createXlightsLayout(project: Project, actors: Actor[]): string {
+  const { width, height } = project.canvasSize;
+
+  const models = getChannelMap(actors, project.controllers).map((lane) => {
+    const { actor } = lane;
+    // Canvas y runs down, xLights world y runs up from the middle of the floor
+    const points = actor.shapes
+      .flatMap((shape) => getOutline(shape.geometry))
+      .map(([x, y]) => [x - width / 2, height - y] as const);
+    const [originX, originY] = points[0] ?? [0, 0];
+    const pointData = (points.length > 1 ? points : [[originX, originY], [originX + 1, originY]])
+      .map(([x, y]) => `${round(x - originX)},${round(y - originY)},0`)
+      .join(',');
+
+    const attributes: Record<string, string | number> = {
+      name: getModelName(lane),
+      DisplayAs: 'Poly Line',
+      StringType: lane.width === 3 ? 'RGB Nodes' : 'Single Color White',
+      parm1: 1,  // strings
+      parm2: 1,  // nodes: the whole actor is one light
+      parm3: 1,  // lights per node
+      StartChannel: lane.start,
+      NumPoints: Math.max(2, points.length),
+      PointData: pointData,
+      WorldPosX: round(originX),
+      WorldPosY: round(originY),
+      WorldPosZ: 0,
+      ScaleX: 1,
+      ScaleY: 1,
+      ScaleZ: 1,
+      Antialias: 1,
+      PixelSize: 2,
+      Transparency: 0,
+      LayoutGroup: 'Default',
+    };
+    const attributeList = Object.entries(attributes)
+      .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+      .join(' ');
+    return `    <model ${attributeList}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xrgb>',
+    '  <models>',
+    ...models,
+    '  </models>',
+    '</xrgb>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Break a keyframe lane into On effects: held segments become one effect, linear ones a
+ * ramp, and eased curves or color fades a run of short ramps. Effect clips are sampled
+ * every frame, like the cue export ticks them.
+ */
+function getOnEffects({ actor, lane, channel, width }: ChannelAssignment, lengthMs: number, stepTime: number): OnEffect[] {
+  const isRgb = width === 3;
+  // Single color channel lanes show white, the main lane the color of the actor's shapes
+  const shapeColor = parseHexColor((channel === undefined && actor.shapes[0]?.onColor) || '#ffffff');
+  const { keyframes } = lane;
+  const clips = lane.effects ?? [];
+  if (keyframes.length === 0 && clips.length === 0) return [];
+
+  // Level (0-100) and full-brightness palette color the lane shows at a time
+  const sample = (time: number): { level: number; color: RGBColor } => {
+    if (!isRgb) return { level: getActorValueAtTime(lane, time) * 100, color: shapeColor };
+    const color = getActorColorAtTime(lane, time);
+    return { level: getColorBrightness(color) * 100, color: scaleColorToBrightness(color, 1) };
+  };
+
+  // Keyframe times and clip edges split the show into segments; the first and last values
+  // hold to the ends
+  const bounds = [...new Set([
+    0,
+    ...keyframes.map((kf) => kf.time * 1000),
+    ...clips.flatMap((clip) => [clip.start * 1000, clip.end * 1000]),
+    lengthMs,
+  ])].sort((a, b) => a - b);
+  const effects: OnEffect[] = [];
+  let next = 0;  // First keyframe after the segment's start
+
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const from = bounds[i];
+    const to = Math.min(bounds[i + 1], lengthMs);
+    while (next < keyframes.length && keyframes[next].time * 1000 <= from) next++;
+    if (to <= from) continue;
+
+    // Inside a clip: one held level per frame, merged while it doesn't change
+    if (clips.some((clip) => from >= clip.start * 1000 && from < clip.end * 1000)) {
+      for (let start = snapToFrame(from, stepTime); start < snapToFrame(to, stepTime); start += stepTime) {
+        const state = sample(Math.max(start, from) / 1000);
+        const level = Math.round(state.level);
+        const color = rgbToHex(state.color);
+        const last = effects[effects.length - 1];
+        const isSame = last && last.end === start && last.startLevel === level && last.endLevel === level && last.color === color;
+        if (isSame) last.end = start + stepTime;
+        else if (level > 0) effects.push({ start, end: start + stepTime, startLevel: level, endLevel: level, color });
+      }
+      continue;
+    }
+
+    // Before the first keyframe and after the last one the value holds
+    const keyframe = keyframes[next - 1];
+    const following = keyframes[next];
+    const curve = keyframe && following ? getSegmentCurve(lane, keyframe) : null;
+    const isHeld = !curve || curve.interpolation === 'step';
+    const isSameColor = !isRgb || !following || rgbToHex(sample(from / 1000).color) === rgbToHex(sample((to - 1) / 1000).color);
+    const pieces = isHeld ? 1 : curve.interpolation === 'linear' && isSameColor ? 1 : RAMP_PIECES;
+
+    for (let p = 0; p < pieces; p++) {
+      const start = snapToFrame(from + ((to - from) * p) / pieces, stepTime);
+      const end = snapToFrame(from + ((to - from) * (p + 1)) / pieces, stepTime);
+      if (end <= start) continue;
+
+      const startState = sample(start / 1000);
+      // Held segments keep their level right up to the next keyframe
+      const endLevel = isHeld ? startState.level : sample(Math.min(end, to - 1) / 1000).level;
+      if (startState.level <= 0 && endLevel <= 0) continue;
+
+      effects.push({
+        start,
+        end,
+        startLevel: Math.round(startState.level),
+        endLevel: Math.round(endLevel),
+        color: rgbToHex(startState.color),
+      });
+    }
+  }
+
+  return effects;
+}
+
+// Model a lane plays on: the actor's label, followed by the channel name for channel lanes
+function getModelName({ actor, channel }: ChannelAssignment): string {
+  return channel !== undefined ? `${actor.label} ${channel}` : actor.label;
+}
+
+function getOutline(geometry: Polygon): [number, number][] {
+  if (geometry.type === 'rectangle') {
+    const { x, y, width, height } = geometry;
+    return [[x, y], [x + width, y], [x + width, y + height], [x, y + height], [x, y]];
+  }
+  return geometry.points.length > 2 ? [...geometry.points, geometry.points[0]] : geometry.points;
+}
+
+// Last keyframe or clip end on any lane
+function getLastLaneTime(actors: Actor[]): number {
+  const lanes: KeyframeLane[] = actors.flatMap((actor) => [actor, ...actor.channels]);
+  return lanes.reduce((last, lane) => Math.max(
+    lane.keyframes.reduce((t, kf) => Math.max(t, kf.time), last),
+    (lane.effects ?? []).reduce((t, clip) => Math.max(t, clip.end), last),
+  ), 0);
+}
+
+function snapToFrame(ms: number, stepTime: number): number {
+  return Math.round(ms / stepTime) * stepTime;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,57 @@
+import type { Actor, OutputController } from '../types';
+import { createLiveFrame, createLivePatchMessage, getChannelMap, type LiveFrameFormat } from '../core';
+
+export type LiveOutputStatus = 'connecting' | 'connected' | 'closed' | 'error';
+
+export interface LiveOutput {
+  send: (actors: Actor[], controllers: OutputController[] | undefined, time: number) => void;
+  close: () => void;
+}
+
+// Frames are dropped rather than queued once this much is waiting to go out, so a slow
+// bridge falls behind by a few frames instead of seconds
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+/**
+ * Open a WebSocket to a live output bridge. Each `send` streams one frame, preceded by the
+ * patch message whenever the channel layout has changed since the last one.
+ */
+export function connectLiveOutput(
+  url: string,
+  format: LiveFrameFormat,
+  onStatus: (status: LiveOutputStatus, message?: string) => void
+): LiveOutput {
+  const socket = new WebSocket(url);
+  socket.binaryType = 'arraybuffer';
+  let lastPatch = '';
+  let failed = false;
+
+  onStatus('connecting');
+  socket.onopen = () => onStatus('connected');
+  socket.onerror = () => {
+    failed = true;
+    onStatus('error', `Could not connect to ${url}`);
+  };
+  // An error is followed by a close, which shouldn't hide it
+  socket.onclose = () => {
+    if (!failed) onStatus('closed');
+  };
+
+  return {
+    send: (actors, controllers, time) => {
+      if (socket.readyState !== WebSocket.OPEN || socket.bufferedAmount > MAX_BUFFERED_BYTES) return;
+      const map = getChannelMap(actors, controllers);
+      const patch = JSON.stringify(createLivePatchMessage(map, controllers));
+      if (patch !== lastPatch) {
+        socket.send(patch);
+        lastPatch = patch;
+      }
+      const frame = createLiveFrame(map, time, format);
+      socket.send(typeof frame === 'string' ? frame : (frame as Uint8Array<ArrayBuffer>));
+    },
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+}
@@ -1,13 +1,15 @@
 import { useEffect, useCallback, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Toolbar from '../components/Toolbar';
+import TestModeBanner from '../components/TestModeBanner';
 import CanvasPanel from '../components/canvas/CanvasPanel';
 import TimelinePanel from '../components/timeline/TimelinePanel';
-import { useProjectStore } from '../store';
-import { GRIS_FILE_VERSION } from '../types';
-import type { GrisFile } from '../types';
+import { useProjectStore, getSavedHistory } from '../store';
+import { createGrisFile } from '../core';
 
 const LOCAL_STORAGE_KEY = 'griswold-autosave';
+const HISTORY_STORAGE_KEY = 'griswold-autosave-history';
+const MAX_AUTOSAVE_SIZE = 4 * 1024 * 1024;  // localStorage limit is ~5MB
 const SPLIT_STORAGE_KEY = 'griswold-split-position';
 
 export default function EditorPage() {
@@ -17,12 +19,19 @@ export default function EditorPage() {
     actors, 
     backgrounds, 
     markers,
+    historyLabel,
     playback,
     play,
     pause,
     seek,
+    ui,
     setTool,
     addMarker,
+    moveKeyframes,
+    deleteKeyframes,
+    copyKeyframes,
+    pasteKeyframes,
+    selectKeyframes,
   } = useProjectStore();
 
   // Splitter state - percentage of height for the canvas panel
@@ -76,29 +85,34 @@ export default function EditorPage() {
   useEffect(() => {
     const timeoutId = setTimeout(() => {
       try {
-        const data: GrisFile = {
-          version: GRIS_FILE_VERSION,
-          project,
-          actors,
-          backgrounds,
-          markers,
-        };
-        const json = JSON.stringify(data);
+        const json = JSON.stringify(createGrisFile(project, actors, backgrounds, markers));
         
         // Check size before saving (localStorage limit ~5MB)
-        if (json.length > 4 * 1024 * 1024) {
+        if (json.length > MAX_AUTOSAVE_SIZE) {
           console.warn('Project too large for autosave (>4MB)');
           return;
         }
         
         localStorage.setItem(LOCAL_STORAGE_KEY, json);
+
+        // Undo history goes alongside, dropping the oldest entries until it fits in what's left
+        const budget = MAX_AUTOSAVE_SIZE - json.length;
+        let history = JSON.stringify(getSavedHistory());
+        for (let maxEntries = 50; history.length > budget && maxEntries > 0; maxEntries = Math.floor(maxEntries / 2)) {
+          history = JSON.stringify(getSavedHistory(maxEntries));
+        }
+        if (history.length <= budget) {
+          localStorage.setItem(HISTORY_STORAGE_KEY, history);
+        } else {
+          localStorage.removeItem(HISTORY_STORAGE_KEY);
+        }
       } catch (err) {
         console.error('Autosave failed:', err);
       }
     }, 1000); // 1 second debounce
 
     return () => clearTimeout(timeoutId);
-  }, [project, actors, backgrounds, markers]);
+  }, [project, actors, backgrounds, markers, historyLabel]);
 
   // Global keyboard shortcuts
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -121,6 +135,42 @@ export default function EditorPage() {
       return;
     }
 
+    const selectedKeyframes = ui.selectedKeyframes;
+
+    // Copy / cut / paste keyframes: Ctrl+C, Ctrl+X, Ctrl+V (pastes at the playhead)
+    if ((e.ctrlKey || e.metaKey) && (e.key === 'c' || e.key === 'x') && selectedKeyframes.length > 0) {
+      e.preventDefault();
+      copyKeyframes(selectedKeyframes);
+      if (e.key === 'x') deleteKeyframes(selectedKeyframes);
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
+      e.preventDefault();
+      pasteKeyframes(playback.currentTime, ui.selectedActorId ?? undefined);
+      return;
+    }
+
+    // Delete selected keyframes: Delete or Backspace
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selectedKeyframes.length > 0) {
+      e.preventDefault();
+      deleteKeyframes(selectedKeyframes);
+      return;
+    }
+
+    // Nudge selected keyframes: Alt+Left/Right (Shift for bigger steps)
+    if (e.altKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight') && selectedKeyframes.length > 0) {
+      e.preventDefault();
+      const step = e.shiftKey ? 0.1 : 0.01;
+      moveKeyframes(selectedKeyframes, e.key === 'ArrowLeft' ? -step : step);
+      return;
+    }
+
+    // Clear keyframe selection: Escape
+    if (e.key === 'Escape' && selectedKeyframes.length > 0) {
+      selectKeyframes([]);
+      return;
+    }
+
     // Play/Pause: Space
     if (e.key === ' ' || e.code === 'Space') {
       e.preventDefault();
@@ -182,7 +232,10 @@ export default function EditorPage() {
       setTool('polygon');
       return;
     }
-  }, [undo, redo, playback.isPlaying, playback.currentTime, playback.duration, play, pause, seek, setTool, addMarker]);
+  }, [
+    undo, redo, playback.isPlaying, playback.currentTime, playback.duration, play, pause, seek, setTool, addMarker,
+    ui.selectedKeyframes, ui.selectedActorId, moveKeyframes, deleteKeyframes, copyKeyframes, pasteKeyframes, selectKeyframes,
+  ]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -219,6 +272,7 @@ export default function EditorPage() {
     <div className="h-screen flex flex-col bg-[var(--color-bg-primary)]">
       {/* Toolbar */}
       <Toolbar onHome={() => navigate('/')} />
+      <TestModeBanner />
 
       {/* Main content area - split between canvas and timeline */}
       <div 
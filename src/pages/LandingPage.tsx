@@ -1,10 +1,10 @@
 import { useNavigate } from 'react-router-dom';
-import { useProjectStore } from '../store';
-import { migrateGrisFile } from '../types';
-import type { GrisFile } from '../types';
+import { useProjectStore, restoreSavedHistory } from '../store';
+import { parseGrisFile } from '../core';
 import { useEffect, useState } from 'react';
 
 const LOCAL_STORAGE_KEY = 'griswold-autosave';
+const HISTORY_STORAGE_KEY = 'griswold-autosave-history';
 
 export default function LandingPage() {
   const navigate = useNavigate();
@@ -30,10 +30,8 @@ export default function LandingPage() {
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const rawData = JSON.parse(text);
-        // Migrate from older versions if needed
-        const data: GrisFile = migrateGrisFile(rawData);
+        // Migrates from older versions if needed
+        const data = parseGrisFile(await file.text());
         loadProject(data.project, data.actors, data.backgrounds, data.markers);
         navigate('/editor');
       } catch (err) {
@@ -44,14 +42,26 @@ export default function LandingPage() {
     input.click();
   };
 
+  // The undo history is a bonus: if it can't be read, the project opens without it
+  const restoreHistory = () => {
+    const history = localStorage.getItem(HISTORY_STORAGE_KEY);
+    if (!history) return;
+    try {
+      if (!restoreSavedHistory(JSON.parse(history))) localStorage.removeItem(HISTORY_STORAGE_KEY);
+    } catch (err) {
+      console.error('Failed to restore undo history:', err);
+      localStorage.removeItem(HISTORY_STORAGE_KEY);
+    }
+  };
+
   const handleRestoreAutosave = () => {
     try {
       const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
       if (saved) {
-        const rawData = JSON.parse(saved);
-        // Migrate from older versions if needed
-        const data: GrisFile = migrateGrisFile(rawData);
+        // Migrates from older versions if needed
+        const data = parseGrisFile(saved);
         loadProject(data.project, data.actors, data.backgrounds, data.markers);
+        restoreHistory();
         navigate('/editor');
       }
     } catch (err) {
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GRIS_FILE_VERSION, type KeyframeLane } from '../types';
+import { getSavedHistory, restoreSavedHistory, useProjectStore, withTransaction } from '.';
+
+const store = () => useProjectStore.getState();
+const history = () => useProjectStore.temporal.getState();
+
+beforeEach(() => {
+  store().cancelTransaction();
+  store().resetProject();
+  history().clear();
+});
+
+describe('addKeyframes', () => {
+  it('places keyframes in time order in one history step', () => {
+    const id = store().addActor('Tree');
+    store().addKeyframe(id, { time: 1, value: 1 });
+    history().clear();
+
+    store().addKeyframes(id, [
+      { time: 2, value: 0.5 },
+      { time: 1, value: 0 },
+      { time: 0, value: 0.2 },
+      { time: 2, value: 0.8 },
+    ]);
+    // The keyframe at 1 is replaced, and the later of the two at 2 wins
+    expect(store().actors[0].keyframes.map((k) => [k.time, k.value])).toEqual([[0, 0.2], [1, 0], [2, 0.8]]);
+    expect(history().pastStates).toHaveLength(1);
+    expect(store().historyLabel).toBe('Add 4 keyframes to Tree');
+  });
+});
+
+describe('bakeEffect', () => {
+  it('bakes strobes to a step at each edge of their flashes', () => {
+    const id = store().addActor('Tree');
+    // Three flashes a second, on for a quarter of each
+    const effectId = store().addEffect(id, 'strobe', 1, 2);
+    store().updateEffect(id, effectId, { rate: 3, dutyCycle: 0.25, phase: 0.5 });
+    store().bakeEffect(id, effectId);
+
+    const keyframes = store().actors[0].keyframes;
+    expect(keyframes.filter((k) => k.interpolation === 'step').map((k) => [k.time, k.value])).toEqual([
+      [1, 0],
+      [1.167, 1], [1.25, 0],
+      [1.5, 1], [1.583, 0],
+      [1.833, 1], [1.917, 0],
+    ]);
+    expect((store().actors[0] as KeyframeLane).effects).toEqual([]);
+  });
+});
+
+describe('moveKeyframes', () => {
+  it('moves big selections without pushing any keyframe before zero', () => {
+    const id = store().addActor('Tree');
+    store().addKeyframes(id, Array.from({ length: 200_000 }, (_, i) => ({ time: 1 + i / 100, value: i % 2 })));
+    const refs = store().actors[0].keyframes.map((k) => ({ actorId: id, keyframeId: k.id }));
+
+    store().moveKeyframes(refs, -5);
+    expect(store().actors[0].keyframes[0].time).toBe(0);
+
+    store().copyKeyframes(refs);
+    expect(store().keyframeClipboard).toHaveLength(200_000);
+    expect(store().keyframeClipboard[0].keyframe.time).toBe(0);
+  });
+});
+
+describe('transactions', () => {
+  it('record a drag as one undo step', () => {
+    const id = store().addActor('Tree');
+    const keyframeId = store().addKeyframe(id, { time: 1, value: 1 });
+    history().clear();
+
+    store().beginTransaction();
+    for (const time of [1.1, 1.2, 1.3]) store().updateKeyframe(id, keyframeId, { time });
+    store().commitTransaction();
+    expect(history().pastStates).toHaveLength(1);
+    expect(store().historyLabel).toBe('Move keyframe on Tree');
+
+    history().undo();
+    expect(store().actors[0].keyframes[0].time).toBe(1);
+  });
+
+  it('join nested transactions to the outermost one', () => {
+    withTransaction('Build the yard', () => {
+      store().addActor('Tree');
+      withTransaction('Add star', () => store().addActor('Star'));
+    });
+    expect(history().pastStates).toHaveLength(1);
+    expect(store().historyLabel).toBe('Build the yard');
+  });
+
+  it('put everything back when cancelled', () => {
+    const id = store().addActor('Tree');
+    history().clear();
+
+    store().beginTransaction();
+    store().addKeyframe(id, { time: 1, value: 1 });
+    store().cancelTransaction();
+    expect(store().actors[0].keyframes).toEqual([]);
+    expect(history().pastStates).toHaveLength(0);
+
+    // Tracking resumes once the transaction is over
+    store().addKeyframe(id, { time: 2, value: 1 });
+    expect(history().pastStates).toHaveLength(1);
+  });
+
+  it('roll back a transaction that throws', () => {
+    expect(() => withTransaction('Import', () => {
+      store().addActor('Tree');
+      throw new Error('Bad file');
+    })).toThrow('Bad file');
+    expect(store().actors).toEqual([]);
+    expect(history().pastStates).toHaveLength(0);
+  });
+
+  it('leave history alone when nothing changed', () => {
+    store().beginTransaction();
+    store().commitTransaction();
+    // Closing with none open does nothing
+    store().commitTransaction();
+    store().cancelTransaction();
+    expect(history().pastStates).toHaveLength(0);
+  });
+});
+
+describe('saved history', () => {
+  it('restores undo and redo steps with their labels', () => {
+    store().addBackground('data:image/png;base64,AAAA', 10, 10);
+    store().addActor('Tree');
+    store().addActor('Star');
+    history().undo();
+    const saved = JSON.parse(JSON.stringify(getSavedHistory()));
+    // Only the snapshot from before the background was added keeps its own backgrounds
+    expect(saved.past.map((snapshot: object) => 'backgrounds' in snapshot)).toEqual([true, false]);
+
+    history().clear();
+    expect(restoreSavedHistory(saved)).toBe(true);
+    expect(history().pastStates).toHaveLength(2);
+    expect(history().futureStates).toHaveLength(1);
+    expect(store().historyLabel).toBe('Add Tree');
+
+    history().redo();
+    expect(store().actors.map((a) => a.label)).toEqual(['Tree', 'Star']);
+    expect(store().historyLabel).toBe('Add Star');
+    expect(store().backgrounds).toHaveLength(1);
+  });
+
+  it('keeps only the steps nearest the current one', () => {
+    for (const label of ['A', 'B', 'C']) store().addActor(label);
+    const saved = getSavedHistory(2);
+    expect(saved.past.map((snapshot) => snapshot.actors.length)).toEqual([1, 2]);
+    expect(getSavedHistory(0).past).toEqual([]);
+  });
+
+  it('ignores damaged or outdated history', () => {
+    store().addActor('Tree');
+    const saved = getSavedHistory();
+    history().clear();
+    expect(restoreSavedHistory(null)).toBe(false);
+    expect(restoreSavedHistory('history')).toBe(false);
+    expect(restoreSavedHistory({ ...saved, past: 'lost' })).toBe(false);
+    expect(restoreSavedHistory({ ...saved, future: [null] })).toBe(false);
+    expect(restoreSavedHistory({ ...saved, version: GRIS_FILE_VERSION - 1 })).toBe(false);
+    expect(history().pastStates).toHaveLength(0);
+  });
+});
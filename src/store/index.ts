@@ -9,8 +9,24 @@ import type {
   KeyFrame,
   Shape,
   InterpolationType,
-  Marker
+  ColorSpace,
+  ActorKind,
+  ActorChannel,
+  ChannelType,
+  KeyframeLane,
+  EffectClip,
+  EffectType,
+  KeyframeRef,
+  Marker,
+  OutputController,
+  ActorPatch,
+  PowerCircuit,
+  ActorPower,
+  TestModeState
 } from '../types';
+import { GRIS_FILE_VERSION } from '../types';
+import { getNearestBeatTime } from '../utils/time';
+import { getActorValueAtTime, getActorColorAtTime, getEffectValue, scaleColorToBrightness } from '../core';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============================================================================
@@ -30,9 +46,18 @@ interface ProjectState {
   // UI state (not tracked for undo)
   ui: UIState;
   
+  // Channel test driving the actors instead of the timeline (runtime only)
+  testMode: TestModeState | null;
+  
   // Audio data (runtime only, not persisted)
   audioBuffer: AudioBuffer | null;
   audioFile: File | null;
+  
+  // Copied keyframes, times relative to the earliest one (runtime only)
+  keyframeClipboard: { actorId: string; channelId?: string; keyframe: KeyFrame }[];
+  
+  // Name of the change that produced the tracked state, shown in the undo history
+  historyLabel: string;
 }
 
 interface ProjectActions {
@@ -46,8 +71,20 @@ interface ProjectActions {
   removeMarker: (id: string) => void;
   updateMarker: (id: string, updates: Partial<Marker>) => void;
   
+  // Output patch actions
+  addController: (controller: Omit<OutputController, 'id'>) => string;
+  removeController: (id: string) => void;
+  updateController: (id: string, updates: Partial<Omit<OutputController, 'id'>>) => void;
+  setActorPatch: (actorId: string, patch: ActorPatch | undefined) => void;
+  
+  // Power budget actions
+  addCircuit: (circuit: Omit<PowerCircuit, 'id'>) => string;
+  removeCircuit: (id: string) => void;
+  updateCircuit: (id: string, updates: Partial<Omit<PowerCircuit, 'id'>>) => void;
+  setActorPower: (actorId: string, power: ActorPower | undefined) => void;
+  
   // Actor actions
-  addActor: (label: string) => string;
+  addActor: (label: string, kind?: ActorKind) => string;
   removeActor: (id: string) => void;
   updateActor: (id: string, updates: Partial<Actor>) => void;
   addActorShape: (actorId: string, shape: Shape) => void;
@@ -57,9 +94,25 @@ interface ProjectActions {
   reorderActors: (fromIndex: number, toIndex: number) => void;
   
   // Keyframe actions
-  addKeyframe: (actorId: string, keyframe: KeyFrame) => void;
-  removeKeyframe: (actorId: string, time: number) => void;
-  updateKeyframe: (actorId: string, time: number, value: number) => void;
+  addKeyframe: (actorId: string, keyframe: Omit<KeyFrame, 'id'>, channelId?: string) => string;
+  addKeyframes: (actorId: string, keyframes: Omit<KeyFrame, 'id'>[], channelId?: string) => void;
+  removeKeyframe: (actorId: string, keyframeId: string, channelId?: string) => void;
+  updateKeyframe: (actorId: string, keyframeId: string, updates: Partial<Omit<KeyFrame, 'id'>>, channelId?: string) => void;
+  moveKeyframes: (refs: KeyframeRef[], delta: number) => void;
+  deleteKeyframes: (refs: KeyframeRef[]) => void;
+  copyKeyframes: (refs: KeyframeRef[]) => void;
+  pasteKeyframes: (time: number, targetActorId?: string) => void;
+  
+  // Channel actions
+  addChannel: (actorId: string, name: string, type: ChannelType) => string;
+  removeChannel: (actorId: string, channelId: string) => void;
+  updateChannel: (actorId: string, channelId: string, updates: Partial<Omit<ActorChannel, 'id'>>) => void;
+  
+  // Effect clip actions
+  addEffect: (actorId: string, type: EffectType, start: number, end: number, channelId?: string) => string;
+  removeEffect: (actorId: string, effectId: string, channelId?: string) => void;
+  updateEffect: (actorId: string, effectId: string, updates: Partial<Omit<EffectClip, 'id'>>, channelId?: string) => void;
+  bakeEffect: (actorId: string, effectId: string, channelId?: string) => void;
   
   // Background actions
   addBackground: (dataUrl: string, width: number, height: number) => string;
@@ -72,13 +125,27 @@ interface ProjectActions {
   pause: () => void;
   seek: (time: number) => void;
   
+  // Channel test actions
+  startTestMode: (test?: Partial<Omit<TestModeState, 'time'>>) => void;
+  setTestMode: (updates: Partial<TestModeState>) => void;
+  stopTestMode: () => void;
+  
   // UI actions
   setUI: (ui: Partial<UIState>) => void;
   selectActor: (id: string | null) => void;
+  toggleActorSelection: (id: string) => void;
+  selectKeyframes: (refs: KeyframeRef[]) => void;
+  toggleKeyframeSelection: (ref: KeyframeRef) => void;
   selectBackground: (id: string | null) => void;
   setTool: (tool: UIState['tool']) => void;
   setZoom: (zoom: number) => void;
   
+  // Transaction actions: everything between begin and commit is one undo step
+  // (named `label` in the history, or after its last action)
+  beginTransaction: (label?: string) => void;
+  commitTransaction: () => void;
+  cancelTransaction: () => void;
+  
   // Audio actions
   setAudioBuffer: (buffer: AudioBuffer | null) => void;
   setAudioFile: (file: File | null) => void;
@@ -102,16 +169,43 @@ const initialPlayback: PlaybackState = {
   duration: 0,
 };
 
+const initialTestMode: TestModeState = {
+  pattern: 'chase',
+  rate: 1,
+  actorId: null,
+  time: 0,
+};
+
 const initialUI: UIState = {
   selectedActorId: null,
+  selectedActorIds: [],
+  selectedKeyframes: [],
   selectedBackgroundId: null,
   zoom: 100, // 100 pixels per second
   scrollX: 0,
   scrollY: 0,
   tool: 'select',
   backgroundOpacity: 1, // Full opacity by default
+  snap: {
+    enabled: true,
+    targets: ['beats', 'markers', 'keyframes', 'playhead'],
+    gridSize: 0.5,
+    beatDivision: 1,
+  },
+  timeDisplay: 'clock',
 };
 
+// Undo history depth (in snapshots)
+const HISTORY_LIMIT = 100;
+
+// The part of the state undo/redo tracks
+type TrackedState = Pick<ProjectState, 'project' | 'actors' | 'backgrounds' | 'markers' | 'historyLabel'>;
+
+// Tracked state from before the open transaction (nested transactions join the outermost one)
+let transactionStart: TrackedState | null = null;
+let transactionLabel: string | undefined;
+let transactionDepth = 0;
+
 const initialState: ProjectState = {
   project: initialProject,
   actors: [],
@@ -119,17 +213,196 @@ const initialState: ProjectState = {
   markers: [],
   playback: initialPlayback,
   ui: initialUI,
+  testMode: null,
   audioBuffer: null,
   audioFile: null,
+  keyframeClipboard: [],
+  historyLabel: 'New project',
 };
 
+// ============================================================================
+// Undo History
+// ============================================================================
+
+// Undo history saved with the autosave. Snapshots leave out `backgrounds` when they
+// match the saved project's, since background images are by far the largest part.
+export interface SavedHistory {
+  version: number;
+  past: SavedHistoryState[];
+  future: SavedHistoryState[];
+  historyLabel: string;
+}
+
+type SavedHistoryState = Omit<TrackedState, 'backgrounds'> & { backgrounds?: CanvasBackground[] };
+
+/**
+ * Undo history for the autosave, keeping at most `maxEntries` states on each side of the current one
+ */
+export function getSavedHistory(maxEntries = HISTORY_LIMIT): SavedHistory {
+  const { pastStates, futureStates } = useProjectStore.temporal.getState();
+  const { backgrounds, historyLabel } = useProjectStore.getState();
+  const save = (snapshot: Partial<TrackedState>): SavedHistoryState => {
+    const { backgrounds: snapshotBackgrounds, ...rest } = snapshot as TrackedState;
+    return snapshotBackgrounds === backgrounds ? rest : { ...rest, backgrounds: snapshotBackgrounds };
+  };
+  // Both lists end with the states nearest the current one
+  const nearest = (states: Partial<TrackedState>[]) => (maxEntries > 0 ? states.slice(-maxEntries).map(save) : []);
+  return {
+    version: GRIS_FILE_VERSION,
+    past: nearest(pastStates),
+    future: nearest(futureStates),
+    historyLabel,
+  };
+}
+
+/**
+ * Restore saved undo history on top of the project it was saved with. Returns false,
+ * leaving the history empty, when the data isn't usable history.
+ */
+export function restoreSavedHistory(data: unknown): boolean {
+  const saved = data as Partial<SavedHistory> | null;
+  const isSnapshotList = (list: unknown): list is SavedHistoryState[] =>
+    Array.isArray(list) && list.every((snapshot) => typeof snapshot === 'object' && snapshot !== null);
+  // Anything else is a damaged or foreign key, not worth failing the restore over
+  if (typeof saved !== 'object' || saved === null || !isSnapshotList(saved.past) || !isSnapshotList(saved.future)) return false;
+  // Snapshots from another file format version can't be migrated
+  if (saved.version !== GRIS_FILE_VERSION) return false;
+  const { backgrounds } = useProjectStore.getState();
+  const restore = (snapshot: SavedHistoryState): TrackedState => ({
+    ...snapshot,
+    backgrounds: snapshot.backgrounds ?? backgrounds,
+  });
+  if (typeof saved.historyLabel === 'string') useProjectStore.setState({ historyLabel: saved.historyLabel });
+  useProjectStore.temporal.setState({
+    pastStates: saved.past.map(restore),
+    futureStates: saved.future.map(restore),
+  });
+  return true;
+}
+
+// How each action that edits tracked state reads in the undo history
+// (described from the state before the action runs)
+const HISTORY_LABELS: {
+  [K in keyof ProjectActions]?: (state: ProjectState, ...args: Parameters<ProjectActions[K]>) => string;
+} = {
+  setProject: (_, updates) =>
+    'beatGrid' in updates ? 'Edit tempo' : Object.keys(updates).join() === 'name' ? 'Rename project' : 'Edit project settings',
+  resetProject: () => 'New project',
+  loadProject: () => 'Open project',
+  addMarker: () => 'Add marker',
+  removeMarker: () => 'Remove marker',
+  updateMarker: (_, __, updates) => ('time' in updates ? 'Move marker' : 'Edit marker'),
+  addController: (_, controller) => `Add controller ${controller.name}`,
+  removeController: (state, id) => `Remove controller ${getControllerName(state, id)}`,
+  updateController: (state, id, updates) =>
+    Object.keys(updates).join() === 'name'
+      ? `Rename controller ${getControllerName(state, id)} to ${updates.name}`
+      : `Edit controller ${getControllerName(state, id)}`,
+  setActorPatch: (state, actorId, patch) =>
+    patch ? `Patch ${getActorName(state, actorId)} to ${getControllerName(state, patch.controllerId)}` : `Unpatch ${getActorName(state, actorId)}`,
+  addCircuit: (_, circuit) => `Add circuit ${circuit.name}`,
+  removeCircuit: (state, id) => `Remove circuit ${getCircuitName(state, id)}`,
+  updateCircuit: (state, id, updates) =>
+    Object.keys(updates).join() === 'name'
+      ? `Rename circuit ${getCircuitName(state, id)} to ${updates.name}`
+      : `Edit circuit ${getCircuitName(state, id)}`,
+  setActorPower: (state, actorId) => `Set power of ${getActorName(state, actorId)}`,
+  addActor: (_, label) => `Add ${label}`,
+  removeActor: (state, id) => `Remove ${getActorName(state, id)}`,
+  updateActor: (state, id, updates) =>
+    Object.keys(updates).join() === 'label'
+      ? `Rename ${getActorName(state, id)} to ${updates.label}`
+      : Object.keys(updates).join() === 'constraints'
+        ? `Set output constraints of ${getActorName(state, id)}`
+        : `Edit ${getActorName(state, id)}`,
+  addActorShape: (state, actorId) => `Add shape to ${getActorName(state, actorId)}`,
+  removeActorShape: (state, actorId) => `Remove shape from ${getActorName(state, actorId)}`,
+  clearActorShapes: (state, actorId) => `Clear shapes on ${getActorName(state, actorId)}`,
+  updateActorShapeColors: (state, actorId) => `Change colors on ${getActorName(state, actorId)}`,
+  reorderActors: (state, fromIndex) => `Reorder ${state.actors[fromIndex]?.label ?? 'actors'}`,
+  addKeyframe: (state, actorId, _, channelId) => `Add keyframe to ${getLaneName(state, actorId, channelId)}`,
+  addKeyframes: (state, actorId, keyframes, channelId) =>
+    `Add ${pluralize(keyframes.length, 'keyframe')} to ${getLaneName(state, actorId, channelId)}`,
+  removeKeyframe: (state, actorId, _, channelId) => `Delete keyframe on ${getLaneName(state, actorId, channelId)}`,
+  updateKeyframe: (state, actorId, _, updates, channelId) =>
+    `${'time' in updates ? 'Move' : 'Edit'} keyframe on ${getLaneName(state, actorId, channelId)}`,
+  moveKeyframes: (state, refs) => `Move ${describeKeyframes(state, refs)}`,
+  deleteKeyframes: (state, refs) => `Delete ${describeKeyframes(state, refs)}`,
+  pasteKeyframes: (state) => `Paste ${pluralize(state.keyframeClipboard.length, 'keyframe')}`,
+  addChannel: (state, actorId, name) => `Add channel ${name} to ${getActorName(state, actorId)}`,
+  removeChannel: (state, actorId, channelId) => `Remove channel from ${getLaneName(state, actorId, channelId)}`,
+  updateChannel: (state, actorId, channelId) => `Edit channel ${getLaneName(state, actorId, channelId)}`,
+  addEffect: (state, actorId, type, _, __, channelId) => `Add ${type} effect to ${getLaneName(state, actorId, channelId)}`,
+  removeEffect: (state, actorId, _, channelId) => `Remove effect from ${getLaneName(state, actorId, channelId)}`,
+  updateEffect: (state, actorId, _, updates, channelId) =>
+    `${'start' in updates || 'end' in updates ? 'Move' : 'Edit'} effect on ${getLaneName(state, actorId, channelId)}`,
+  bakeEffect: (state, actorId, _, channelId) => `Bake effect on ${getLaneName(state, actorId, channelId)}`,
+  addBackground: () => 'Add background image',
+  removeBackground: () => 'Remove background image',
+  updateBackground: () => 'Edit background image',
+};
+
+/**
+ * Wrap the store's actions so each change to tracked state carries its history label
+ */
+function withHistoryLabels(
+  get: () => ProjectStore,
+  set: (partial: Partial<ProjectState>) => void,
+  store: ProjectStore
+): ProjectStore {
+  const labelled = { ...store };
+  for (const name of Object.keys(HISTORY_LABELS) as (keyof ProjectActions)[]) {
+    const describe = HISTORY_LABELS[name] as (state: ProjectState, ...args: unknown[]) => string;
+    const action = store[name] as (...args: unknown[]) => unknown;
+    Object.assign(labelled, {
+      [name]: (...args: unknown[]) => {
+        const before = get();
+        const label = describe(before, ...args);
+        const result = action(...args);
+        if (!isSameTrackedState(before, get())) set({ historyLabel: label });
+        return result;
+      },
+    });
+  }
+  return labelled;
+}
+
+function getActorName(state: ProjectState, actorId: string): string {
+  return state.actors.find((a) => a.id === actorId)?.label ?? 'actor';
+}
+
+function getControllerName(state: ProjectState, id: string): string {
+  return state.project.controllers?.find((c) => c.id === id)?.name ?? 'controller';
+}
+
+function getCircuitName(state: ProjectState, id: string): string {
+  return state.project.circuits?.find((c) => c.id === id)?.name ?? 'circuit';
+}
+
+// Actor label, followed by the channel name for channel lanes
+function getLaneName(state: ProjectState, actorId: string, channelId: string | undefined): string {
+  const channel = channelId ? state.actors.find((a) => a.id === actorId)?.channels.find((c) => c.id === channelId) : undefined;
+  return channel ? `${getActorName(state, actorId)} ${channel.name}` : getActorName(state, actorId);
+}
+
+// "3 keyframes on Porch Left", or "... on 2 actors" when they span several
+function describeKeyframes(state: ProjectState, refs: KeyframeRef[]): string {
+  const actorIds = [...new Set(refs.map((r) => r.actorId))];
+  const target = actorIds.length === 1 ? getActorName(state, actorIds[0]) : pluralize(actorIds.length, 'actor');
+  return `${pluralize(refs.length, 'keyframe')} on ${target}`;
+}
+
+function pluralize(count: number, noun: string): string {
+  return count === 1 ? noun : `${count} ${noun}s`;
+}
+
 // ============================================================================
 // Store Creation with Temporal (Undo/Redo)
 // ============================================================================
 
 export const useProjectStore = create<ProjectStore>()(
   temporal(
-    (set, get) => ({
+    (set, get) => withHistoryLabels(get, set, {
       ...initialState,
 
       // Project actions
@@ -152,6 +425,7 @@ export const useProjectStore = create<ProjectStore>()(
           backgrounds,
           markers,
           ui: { ...initialUI },
+          testMode: null,
         }),
 
       // Marker actions
@@ -175,8 +449,68 @@ export const useProjectStore = create<ProjectStore>()(
             .sort((a, b) => a.time - b.time),
         })),
 
+      // Output patch actions
+      addController: (controller) => {
+        const id = uuidv4();
+        set((state) => ({
+          project: { ...state.project, controllers: [...(state.project.controllers ?? []), { ...controller, id }] },
+        }));
+        return id;
+      },
+
+      // Actors patched to the controller become unpatched
+      removeController: (id) =>
+        set((state) => ({
+          project: { ...state.project, controllers: (state.project.controllers ?? []).filter((c) => c.id !== id) },
+          actors: state.actors.map((a) => (a.patch?.controllerId === id ? { ...a, patch: undefined } : a)),
+        })),
+
+      updateController: (id, updates) =>
+        set((state) => ({
+          project: {
+            ...state.project,
+            controllers: (state.project.controllers ?? []).map((c) => (c.id === id ? { ...c, ...updates } : c)),
+          },
+        })),
+
+      setActorPatch: (actorId, patch) =>
+        set((state) => ({
+          actors: state.actors.map((a) => (a.id === actorId ? { ...a, patch } : a)),
+        })),
+
+      // Power budget actions
+      addCircuit: (circuit) => {
+        const id = uuidv4();
+        set((state) => ({
+          project: { ...state.project, circuits: [...(state.project.circuits ?? []), { ...circuit, id }] },
+        }));
+        return id;
+      },
+
+      // Actors plugged into the circuit keep their wattage but no longer count against a circuit
+      removeCircuit: (id) =>
+        set((state) => ({
+          project: { ...state.project, circuits: (state.project.circuits ?? []).filter((c) => c.id !== id) },
+          actors: state.actors.map((a) =>
+            a.power?.circuitId === id ? { ...a, power: { watts: a.power.watts } } : a
+          ),
+        })),
+
+      updateCircuit: (id, updates) =>
+        set((state) => ({
+          project: {
+            ...state.project,
+            circuits: (state.project.circuits ?? []).map((c) => (c.id === id ? { ...c, ...updates } : c)),
+          },
+        })),
+
+      setActorPower: (actorId, power) =>
+        set((state) => ({
+          actors: state.actors.map((a) => (a.id === actorId ? { ...a, power } : a)),
+        })),
+
       // Actor actions
-      addActor: (label) => {
+      addActor: (label, kind = 'scalar') => {
         const id = uuidv4();
         set((state) => ({
           actors: [
@@ -187,6 +521,8 @@ export const useProjectStore = create<ProjectStore>()(
               shapes: [],  // Array of shapes (supports multiple/disconnected)
               keyframes: [],
               interpolation: 'step' as InterpolationType,
+              channels: [],
+              ...(kind === 'rgb' ? { kind, colorSpace: 'rgb' as ColorSpace } : {}),
             },
           ],
         }));
@@ -196,9 +532,14 @@ export const useProjectStore = create<ProjectStore>()(
       removeActor: (id) =>
         set((state) => ({
           actors: state.actors.filter((a) => a.id !== id),
-          ui: state.ui.selectedActorId === id 
-            ? { ...state.ui, selectedActorId: null }
-            : state.ui,
+          ui: {
+            ...state.ui,
+            selectedActorId: state.ui.selectedActorId === id ? null : state.ui.selectedActorId,
+            selectedActorIds: state.ui.selectedActorIds.filter((a) => a !== id),
+            selectedKeyframes: state.ui.selectedKeyframes.filter((r) => r.actorId !== id),
+          },
+          // A test aimed at the removed actor lets go of it (blink goes back to every actor)
+          testMode: state.testMode?.actorId === id ? { ...state.testMode, actorId: null } : state.testMode,
         })),
 
       updateActor: (id, updates) =>
@@ -251,41 +592,222 @@ export const useProjectStore = create<ProjectStore>()(
           return { actors: newActors };
         }),
 
-      // Keyframe actions
-      addKeyframe: (actorId, keyframe) =>
+      // Keyframe actions (channelId targets one of the actor's channel lanes)
+      addKeyframe: (actorId, keyframe, channelId) => {
+        const id = uuidv4();
+        set((state) => ({
+          actors: updateActorKeyframes(state.actors, actorId, channelId, (keyframes) =>
+            // Replaces any existing keyframe at the same time
+            placeKeyframes(keyframes, [{ ...keyframe, id }])
+          ),
+        }));
+        return id;
+      },
+
+      // Many keyframes in one go, sorting the lane once; a later keyframe at the same time wins
+      addKeyframes: (actorId, keyframes, channelId) => {
+        const placed = [...new Map(keyframes.map((k) => [k.time, { ...k, id: uuidv4() }])).values()];
         set((state) => ({
-          actors: state.actors.map((a) => {
-            if (a.id !== actorId) return a;
-            // Remove any existing keyframe at the same time, then add new one
-            const filtered = a.keyframes.filter((k) => k.time !== keyframe.time);
-            const newKeyframes = [...filtered, keyframe].sort((x, y) => x.time - y.time);
-            return { ...a, keyframes: newKeyframes };
+          actors: updateActorKeyframes(state.actors, actorId, channelId, (existing) => placeKeyframes(existing, placed)),
+        }));
+      },
+
+      removeKeyframe: (actorId, keyframeId, channelId) =>
+        set((state) => ({
+          actors: updateActorKeyframes(state.actors, actorId, channelId, (keyframes) =>
+            keyframes.filter((k) => k.id !== keyframeId)
+          ),
+        })),
+
+      // Retiming a keyframe replaces any other keyframe it lands on
+      updateKeyframe: (actorId, keyframeId, updates, channelId) =>
+        set((state) => ({
+          actors: updateActorKeyframes(state.actors, actorId, channelId, (keyframes) => {
+            const keyframe = keyframes.find((k) => k.id === keyframeId);
+            if (!keyframe) return keyframes;
+            return placeKeyframes(keyframes.filter((k) => k.id !== keyframeId), [{ ...keyframe, ...updates }]);
           }),
         })),
 
-      removeKeyframe: (actorId, time) =>
+      // Move a group of keyframes by the same amount
+      moveKeyframes: (refs, delta) =>
+        set((state) => {
+          const lanes = groupRefsByLane(refs);
+          const times = lanes.flatMap(({ actorId, channelId, ids }) =>
+            (findLane(state.actors, actorId, channelId)?.keyframes ?? []).filter((k) => ids.has(k.id)).map((k) => k.time)
+          );
+          if (times.length === 0) return {};
+          // Never push the earliest keyframe before zero
+          const shift = Math.max(delta, -times.reduce((min, t) => Math.min(min, t), Infinity));
+          let actors = state.actors;
+          for (const { actorId, channelId, ids } of lanes) {
+            actors = updateActorKeyframes(actors, actorId, channelId, (keyframes) => {
+              const moved = keyframes.filter((k) => ids.has(k.id)).map((k) => ({ ...k, time: k.time + shift }));
+              return placeKeyframes(keyframes.filter((k) => !ids.has(k.id)), moved);
+            });
+          }
+          return { actors };
+        }),
+
+      deleteKeyframes: (refs) =>
+        set((state) => {
+          let actors = state.actors;
+          for (const { actorId, channelId, ids } of groupRefsByLane(refs)) {
+            actors = updateActorKeyframes(actors, actorId, channelId, (keyframes) =>
+              keyframes.filter((k) => !ids.has(k.id))
+            );
+          }
+          return { actors, ui: { ...state.ui, selectedKeyframes: [] } };
+        }),
+
+      copyKeyframes: (refs) =>
+        set((state) => {
+          const copied: ProjectState['keyframeClipboard'] = [];
+          for (const { actorId, channelId, ids } of groupRefsByLane(refs)) {
+            for (const keyframe of findLane(state.actors, actorId, channelId)?.keyframes ?? []) {
+              if (ids.has(keyframe.id)) copied.push({ actorId, channelId, keyframe });
+            }
+          }
+          if (copied.length === 0) return {};
+          // Clipboard times are relative to the earliest copied keyframe
+          const start = copied.reduce((min, c) => Math.min(min, c.keyframe.time), Infinity);
+          return {
+            keyframeClipboard: copied.map((c) => ({ ...c, keyframe: { ...c.keyframe, time: c.keyframe.time - start } })),
+          };
+        }),
+
+      // Paste at a time, onto the original lanes - or onto another actor when everything came from one lane
+      pasteKeyframes: (time, targetActorId) =>
+        set((state) => {
+          const clipboard = state.keyframeClipboard;
+          if (clipboard.length === 0) return {};
+
+          const source = clipboard[0];
+          const singleLane = clipboard.every((c) => c.actorId === source.actorId && c.channelId === source.channelId);
+          const target = singleLane && targetActorId ? state.actors.find((a) => a.id === targetActorId) : undefined;
+          // A copied channel lane lands on the target's channel of the same name, if it has one
+          const sourceChannel = findLane(state.actors, source.actorId, source.channelId) as ActorChannel | undefined;
+          const targetChannelId = source.channelId
+            ? target?.channels.find((c) => c.name === sourceChannel?.name && c.type === sourceChannel?.type)?.id
+            : undefined;
+
+          let actors = state.actors;
+          const selectedKeyframes: KeyframeRef[] = [];
+          for (const entry of clipboard) {
+            const actorId = target ? target.id : entry.actorId;
+            const channelId = target ? targetChannelId : entry.channelId;
+            if (!findLane(actors, actorId, channelId)) continue;
+            // Every paste makes new keyframes
+            const keyframe = { ...entry.keyframe, id: uuidv4(), time: time + entry.keyframe.time };
+            actors = updateActorKeyframes(actors, actorId, channelId, (keyframes) => placeKeyframes(keyframes, [keyframe]));
+            selectedKeyframes.push({ actorId, channelId, keyframeId: keyframe.id });
+          }
+          return { actors, ui: { ...state.ui, selectedKeyframes } };
+        }),
+
+      // Channel actions
+      addChannel: (actorId, name, type) => {
+        const id = uuidv4();
         set((state) => ({
           actors: state.actors.map((a) =>
             a.id === actorId
-              ? { ...a, keyframes: a.keyframes.filter((k) => k.time !== time) }
+              ? {
+                  ...a,
+                  channels: [
+                    ...a.channels,
+                    {
+                      id,
+                      name,
+                      type,
+                      keyframes: [],
+                      // Color and position lanes glide by default, the rest snap
+                      interpolation: (type === 'dimmer' || type === 'strobe' || type === 'generic'
+                        ? 'step'
+                        : 'linear') as InterpolationType,
+                    },
+                  ],
+                }
+              : a
+          ),
+        }));
+        return id;
+      },
+
+      removeChannel: (actorId, channelId) =>
+        set((state) => ({
+          actors: state.actors.map((a) =>
+            a.id === actorId
+              ? { ...a, channels: a.channels.filter((c) => c.id !== channelId) }
               : a
           ),
         })),
 
-      updateKeyframe: (actorId, time, value) =>
+      updateChannel: (actorId, channelId, updates) =>
         set((state) => ({
           actors: state.actors.map((a) =>
             a.id === actorId
               ? {
                   ...a,
-                  keyframes: a.keyframes.map((k) =>
-                    k.time === time ? { ...k, value } : k
-                  ),
+                  channels: a.channels.map((c) => (c.id === channelId ? { ...c, ...updates } : c)),
                 }
               : a
           ),
         })),
 
+      // Effect clip actions
+      addEffect: (actorId, type, start, end, channelId) => {
+        const id = uuidv4();
+        const clip: EffectClip = {
+          id,
+          type,
+          start,
+          end,
+          ...EFFECT_DEFAULTS[type],
+          phase: 0,
+          seed: Math.floor(Math.random() * 100000),
+          low: 0,
+          high: 1,
+        };
+        set((state) => ({
+          actors: updateActorLane(state.actors, actorId, channelId, (lane) => ({
+            effects: [...(lane.effects ?? []), clip],
+          })),
+        }));
+        return id;
+      },
+
+      removeEffect: (actorId, effectId, channelId) =>
+        set((state) => ({
+          actors: updateActorLane(state.actors, actorId, channelId, (lane) => ({
+            effects: (lane.effects ?? []).filter((e) => e.id !== effectId),
+          })),
+        })),
+
+      updateEffect: (actorId, effectId, updates, channelId) =>
+        set((state) => ({
+          actors: updateActorLane(state.actors, actorId, channelId, (lane) => ({
+            effects: (lane.effects ?? []).map((e) => (e.id === effectId ? { ...e, ...updates } : e)),
+          })),
+        })),
+
+      // Replace a clip with keyframes that reproduce it on the lane
+      bakeEffect: (actorId, effectId, channelId) =>
+        set((state) => {
+          const actor = state.actors.find((a) => a.id === actorId);
+          const channel = actor?.channels.find((c) => c.id === channelId);
+          const isColor = channel ? channel.type === 'color' : actor?.kind === 'rgb';
+          return {
+            actors: updateActorLane(state.actors, actorId, channelId, (lane) => {
+              const clip = lane.effects?.find((e) => e.id === effectId);
+              if (!clip) return {};
+              return {
+                keyframes: bakeEffectKeyframes(lane, clip, isColor),
+                effects: lane.effects?.filter((e) => e.id !== effectId),
+              };
+            }),
+          };
+        }),
+
       // Background actions
       addBackground: (dataUrl, width, height) => {
         const id = uuidv4();
@@ -342,9 +864,11 @@ export const useProjectStore = create<ProjectStore>()(
           playback: { ...state.playback, ...updates },
         })),
 
+      // Playing the show ends any channel test
       play: () =>
         set((state) => ({
           playback: { ...state.playback, isPlaying: true },
+          testMode: null,
         })),
 
       pause: () =>
@@ -360,6 +884,20 @@ export const useProjectStore = create<ProjectStore>()(
           },
         })),
 
+      // Channel test actions (the timeline stops while a test drives the actors)
+      startTestMode: (test = {}) =>
+        set((state) => ({
+          testMode: { ...initialTestMode, ...test },
+          playback: { ...state.playback, isPlaying: false },
+        })),
+
+      setTestMode: (updates) =>
+        set((state) => ({
+          testMode: state.testMode && { ...state.testMode, ...updates },
+        })),
+
+      stopTestMode: () => set({ testMode: null }),
+
       // UI actions
       setUI: (updates) =>
         set((state) => ({
@@ -368,12 +906,49 @@ export const useProjectStore = create<ProjectStore>()(
 
       selectActor: (id) =>
         set((state) => ({
-          ui: { ...state.ui, selectedActorId: id, selectedBackgroundId: null },
+          ui: { ...state.ui, selectedActorId: id, selectedActorIds: id ? [id] : [], selectedBackgroundId: null },
+        })),
+
+      selectKeyframes: (refs) =>
+        set((state) => ({
+          ui: { ...state.ui, selectedKeyframes: refs },
         })),
 
+      toggleKeyframeSelection: (ref) =>
+        set((state) => {
+          const matches = (r: KeyframeRef) =>
+            r.actorId === ref.actorId && r.channelId === ref.channelId && r.keyframeId === ref.keyframeId;
+          const selected = state.ui.selectedKeyframes.some(matches);
+          return {
+            ui: {
+              ...state.ui,
+              selectedKeyframes: selected
+                ? state.ui.selectedKeyframes.filter((r) => !matches(r))
+                : [...state.ui.selectedKeyframes, ref],
+            },
+          };
+        }),
+
+      // Add or remove an actor from the group selection
+      toggleActorSelection: (id) =>
+        set((state) => {
+          const selected = state.ui.selectedActorIds.includes(id);
+          const selectedActorIds = selected
+            ? state.ui.selectedActorIds.filter((a) => a !== id)
+            : [...state.ui.selectedActorIds, id];
+          return {
+            ui: {
+              ...state.ui,
+              selectedActorIds,
+              selectedActorId: selected ? selectedActorIds[selectedActorIds.length - 1] ?? null : id,
+              selectedBackgroundId: null,
+            },
+          };
+        }),
+
       selectBackground: (id) =>
         set((state) => ({
-          ui: { ...state.ui, selectedBackgroundId: id, selectedActorId: null },
+          ui: { ...state.ui, selectedBackgroundId: id, selectedActorId: null, selectedActorIds: [] },
         })),
 
       setTool: (tool) =>
@@ -386,93 +961,265 @@ export const useProjectStore = create<ProjectStore>()(
           ui: { ...state.ui, zoom: Math.max(10, Math.min(500, zoom)) },
         })),
 
+      // Transaction actions
+      beginTransaction: (label) => {
+        if (transactionDepth++ > 0) return;
+        transactionStart = getTrackedState(get());
+        transactionLabel = label;
+        useProjectStore.temporal.getState().pause();
+      },
+
+      // Record the transaction as a single step, if it changed anything
+      commitTransaction: () => {
+        if (transactionDepth === 0 || --transactionDepth > 0) return;
+        const before = transactionStart;
+        transactionStart = null;
+        useProjectStore.temporal.getState().resume();
+        if (!before || isSameTrackedState(before, get())) return;
+        if (transactionLabel) set({ historyLabel: transactionLabel });
+        useProjectStore.temporal.setState((t) => ({
+          pastStates: [...t.pastStates, before].slice(-HISTORY_LIMIT),
+          futureStates: [],
+        }));
+      },
+
+      // Roll back to where the outermost transaction began, ending it
+      cancelTransaction: () => {
+        if (transactionDepth === 0) return;
+        const before = transactionStart;
+        transactionDepth = 0;
+        transactionStart = null;
+        if (before) set(before);
+        useProjectStore.temporal.getState().resume();
+      },
+
       // Audio actions
       setAudioBuffer: (buffer) => set({ audioBuffer: buffer }),
       setAudioFile: (file) => set({ audioFile: file }),
     }),
     {
       // Temporal options - only track certain state for undo/redo
-      partialize: (state) => ({
-        project: state.project,
-        actors: state.actors,
-        backgrounds: state.backgrounds,
-        markers: state.markers,
-      }),
-      limit: 100, // Keep last 100 states
+      partialize: (state) => getTrackedState(state),
+      // Playback and UI changes don't touch tracked state, so they don't add history
+      equality: isSameTrackedState,
+      limit: HISTORY_LIMIT,
     }
   )
 );
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
+/**
+ * Run several store actions as one transaction, rolling them back if one throws
+ */
+export function withTransaction(label: string, run: () => void) {
+  const { beginTransaction, commitTransaction, cancelTransaction } = useProjectStore.getState();
+  beginTransaction(label);
+  try {
+    run();
+  } catch (err) {
+    cancelTransaction();
+    throw err;
+  }
+  commitTransaction();
+}
+
+// Starting rate and duty cycle for new effect clips
+const EFFECT_DEFAULTS: Record<EffectType, { rate: number; dutyCycle: number }> = {
+  chase: { rate: 1, dutyCycle: 0.25 },
+  strobe: { rate: 10, dutyCycle: 0.5 },
+  twinkle: { rate: 8, dutyCycle: 0.3 },
+  pulse: { rate: 1, dutyCycle: 0.5 },
+  fade: { rate: 1, dutyCycle: 1 },
+};
+
+function getTrackedState(state: ProjectState): TrackedState {
+  const { project, actors, backgrounds, markers, historyLabel } = state;
+  return { project, actors, backgrounds, markers, historyLabel };
+}
+
+// Only the data counts as a change - relabelling the current state adds no history
+function isSameTrackedState(a: TrackedState, b: TrackedState): boolean {
+  return a.project === b.project && a.actors === b.actors &&
+    a.backgrounds === b.backgrounds && a.markers === b.markers;
+}
 
 /**
- * Get the interpolated value of an actor at a given time
+ * Apply an edit to an actor's main lane, or to one of its channels
  */
-export function getActorValueAtTime(actor: Actor, time: number): number {
-  const { keyframes, interpolation } = actor;
-  
-  if (keyframes.length === 0) return 0;
-  
-  // Find surrounding keyframes
-  let before: KeyFrame | null = null;
-  let after: KeyFrame | null = null;
-  
-  for (const kf of keyframes) {
-    if (kf.time <= time) {
-      before = kf;
+function updateActorLane(
+  actors: Actor[],
+  actorId: string,
+  channelId: string | undefined,
+  update: (lane: KeyframeLane) => Partial<KeyframeLane>
+): Actor[] {
+  return actors.map((a) => {
+    if (a.id !== actorId) return a;
+    if (!channelId) return { ...a, ...update(a) };
+    return {
+      ...a,
+      channels: a.channels.map((c) => (c.id === channelId ? { ...c, ...update(c) } : c)),
+    };
+  });
+}
+
+function findLane(actors: Actor[], actorId: string, channelId: string | undefined): KeyframeLane | undefined {
+  const actor = actors.find((a) => a.id === actorId);
+  return channelId ? actor?.channels.find((c) => c.id === channelId) : actor;
+}
+
+/**
+ * Group keyframe references by the lane they live on
+ */
+function groupRefsByLane(refs: KeyframeRef[]): { actorId: string; channelId?: string; ids: Set<string> }[] {
+  const lanes = new Map<string, { actorId: string; channelId?: string; ids: Set<string> }>();
+  for (const ref of refs) {
+    const key = `${ref.actorId}/${ref.channelId ?? ''}`;
+    const lane = lanes.get(key) ?? { actorId: ref.actorId, channelId: ref.channelId, ids: new Set<string>() };
+    lane.ids.add(ref.keyframeId);
+    lanes.set(key, lane);
+  }
+  return [...lanes.values()];
+}
+
+/**
+ * Add keyframes to a lane, replacing any existing keyframes at the same times
+ */
+function placeKeyframes(keyframes: KeyFrame[], placed: KeyFrame[]): KeyFrame[] {
+  const times = new Set(placed.map((k) => k.time));
+  return [...keyframes.filter((k) => !times.has(k.time)), ...placed].sort((a, b) => a.time - b.time);
+}
+
+function updateActorKeyframes(
+  actors: Actor[],
+  actorId: string,
+  channelId: string | undefined,
+  update: (keyframes: KeyFrame[]) => KeyFrame[]
+): Actor[] {
+  return updateActorLane(actors, actorId, channelId, (lane) => ({ keyframes: update(lane.keyframes) }));
+}
+
+/**
+ * Bake an effect clip into keyframes, replacing the lane's keyframes inside the clip.
+ * Strobes bake to a step at each edge of their flashes, everything else to a linear curve.
+ */
+function bakeEffectKeyframes(lane: KeyframeLane, clip: EffectClip, isColor: boolean): KeyFrame[] {
+  const base: KeyframeLane = { ...lane, effects: [] };
+  const round = (t: number) => Math.round(t * 1000) / 1000;
+
+  const toKeyframe = (time: number, value: number, curve?: InterpolationType): KeyFrame => ({
+    id: uuidv4(),
+    time: round(time),
+    value,
+    ...(curve ? { interpolation: curve } : {}),
+    ...(isColor ? { color: scaleColorToBrightness(getActorColorAtTime(base, time), value) } : {}),
+  });
+
+  const baked: KeyFrame[] = [];
+  if (clip.type === 'strobe') {
+    // Edges closer than a millisecond land on the same time, the later one wins
+    for (const { time, value } of getStrobeEdges(clip)) {
+      const keyframe = toKeyframe(time, round(value), 'step');
+      if (baked.length > 0 && baked[baked.length - 1].time === keyframe.time) baked.pop();
+      baked.push(keyframe);
     }
-    if (kf.time >= time && !after) {
-      after = kf;
+  } else {
+    const interval = 0.05;
+    const sampleCount = Math.max(1, Math.ceil((clip.end - clip.start) / interval));
+    const values: number[] = [];
+    for (let i = 0; i < sampleCount; i++) {
+      values.push(round(getEffectValue(clip, clip.start + i * interval)));
     }
+
+    // Drop samples in the middle of flat runs
+    values.forEach((value, i) => {
+      const flat = i > 0 && i < values.length - 1 && value === values[i - 1] && value === values[i + 1];
+      if (!flat) baked.push(toKeyframe(clip.start + i * interval, value, 'linear'));
+    });
   }
-  
-  // If no keyframe before, use the first keyframe's value
-  if (!before) return after?.value ?? 0;
-  
-  // If no keyframe after, use the last keyframe's value
-  if (!after) return before.value;
-  
-  // If same keyframe, return its value
-  if (before.time === after.time) return before.value;
-  
-  // Apply interpolation based on actor's interpolation type
-  switch (interpolation) {
-    case 'linear': {
-      const t = (time - before.time) / (after.time - before.time);
-      return before.value + t * (after.value - before.value);
-    }
-    case 'step':
-    default:
-      // Step: hold previous value until next keyframe
-      return before.value;
+
+  // Hold the original curve up to the clip and hand back to it afterwards
+  const outside = lane.keyframes.filter((k) => k.time < clip.start || k.time >= clip.end);
+  if (clip.start > 0.001 && !outside.some((k) => k.time === round(clip.start - 0.001))) {
+    outside.push(toKeyframe(clip.start - 0.001, getActorValueAtTime(base, clip.start)));
   }
+  if (!outside.some((k) => k.time === round(clip.end))) {
+    outside.push(toKeyframe(clip.end, getActorValueAtTime(base, clip.end)));
+  }
+
+  return [...outside, ...baked].sort((a, b) => a.time - b.time);
 }
 
 /**
- * Interpolate between two colors based on a value 0-1
+ * A strobe clip's level at its start and at every switch inside it
  */
-export function interpolateColor(offColor: string, onColor: string, value: number): string {
-  // Parse hex colors
-  const parseHex = (hex: string) => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result
-      ? {
-          r: parseInt(result[1], 16),
-          g: parseInt(result[2], 16),
-          b: parseInt(result[3], 16),
-        }
-      : { r: 0, g: 0, b: 0 };
-  };
+function getStrobeEdges(clip: EffectClip): { time: number; value: number }[] {
+  const { start, end, rate, dutyCycle, phase, low, high } = clip;
+  const edges = [{ time: start, value: getEffectValue(clip, start) }];
+  if (!(rate > 0) || dutyCycle <= 0 || dutyCycle >= 1 || low === high) return edges;
 
-  const off = parseHex(offColor);
-  const on = parseHex(onColor);
+  // Flash n switches on (n - phase) / rate into the clip and off a duty cycle later
+  for (let n = Math.floor(phase); ; n++) {
+    const on = start + (n - phase) / rate;
+    const off = on + dutyCycle / rate;
+    if (on >= end) break;
+    if (on > start) edges.push({ time: on, value: high });
+    if (off > start && off < end) edges.push({ time: off, value: low });
+  }
+  return edges;
+}
 
-  const r = Math.round(off.r + (on.r - off.r) * value);
-  const g = Math.round(off.g + (on.g - off.g) * value);
-  const b = Math.round(off.b + (on.b - off.b) * value);
+// ============================================================================
+// Snapping
+// ============================================================================
 
-  return `rgb(${r}, ${g}, ${b})`;
-}
+// How close (in pixels) a time has to be to a target to snap to it
+export const SNAP_DISTANCE_PX = 8;
 
+/**
+ * Snap a time to the nearest enabled target within `threshold` seconds (unchanged if none is close).
+ * Keyframes of `excludeActorId` and the marker `excludeMarkerId` are skipped so nothing snaps to itself.
+ */
+export function snapTime(
+  time: number,
+  state: Pick<ProjectStore, 'ui' | 'project' | 'markers' | 'actors' | 'playback'>,
+  threshold: number,
+  options: { excludeActorId?: string; excludeMarkerId?: string; excludePlayhead?: boolean } = {}
+): number {
+  const { snap } = state.ui;
+  if (!snap.enabled) return time;
+
+  const candidates: number[] = [];
+  const targets = new Set(snap.targets);
+
+  if (targets.has('grid') && snap.gridSize > 0) {
+    candidates.push(Math.round(time / snap.gridSize) * snap.gridSize);
+  }
+  const { beatGrid } = state.project;
+  if (targets.has('beats') && beatGrid && beatGrid.bpm > 0) {
+    candidates.push(getNearestBeatTime(time, beatGrid, snap.beatDivision));
+  }
+  if (targets.has('markers')) {
+    candidates.push(...state.markers.filter((m) => m.id !== options.excludeMarkerId).map((m) => m.time));
+  }
+  if (targets.has('keyframes')) {
+    for (const actor of state.actors) {
+      if (actor.id === options.excludeActorId) continue;
+      for (const lane of [actor, ...actor.channels]) {
+        candidates.push(...lane.keyframes.map((k) => k.time));
+      }
+    }
+  }
+  if (targets.has('playhead') && !options.excludePlayhead) {
+    candidates.push(state.playback.currentTime);
+  }
+
+  let best = time;
+  let bestDistance = threshold;
+  for (const candidate of candidates) {
+    const distance = Math.abs(candidate - time);
+    if (candidate >= 0 && distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -27,44 +27,169 @@ export interface Shape {
   onColor: string;   // Color when state = 1
 }
 
+// ============================================================================
+// Color
+// ============================================================================
+
+export interface RGBColor {
+  r: number;  // 0-255
+  g: number;  // 0-255
+  b: number;  // 0-255
+}
+
+// How color keyframes blend: channel-wise, or around the hue wheel
+export type ColorSpace = 'rgb' | 'hsv';
+
+export const COLOR_SPACE_OPTIONS: { value: ColorSpace; label: string }[] = [
+  { value: 'rgb', label: 'RGB' },
+  { value: 'hsv', label: 'HSV' },
+];
+
 // ============================================================================
 // Keyframes (sparse storage)
 // ============================================================================
 
 export interface KeyFrame {
+  id: string;
   time: number;  // seconds
   value: number; // 0-1
+  interpolation?: InterpolationType;  // Curve into the next keyframe (falls back to the actor's)
+  bezier?: BezierCurve;               // Curve used when interpolation = 'bezier'
+  color?: RGBColor;                   // Full color on RGB actors (value holds its brightness)
 }
 
 // ============================================================================
 // Interpolation Types
 // ============================================================================
 
-export type InterpolationType = 'step' | 'linear';
+export type InterpolationType =
+  | 'step'
+  | 'linear'
+  | 'easeIn'
+  | 'easeOut'
+  | 'easeInOut'
+  | 'exponential'
+  | 'bezier';
 
 export const INTERPOLATION_OPTIONS: { value: InterpolationType; label: string }[] = [
   { value: 'step', label: 'Step' },
   { value: 'linear', label: 'Linear' },
+  { value: 'easeIn', label: 'Ease In' },
+  { value: 'easeOut', label: 'Ease Out' },
+  { value: 'easeInOut', label: 'Ease In/Out' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'bezier', label: 'Custom' },
+];
+
+// Control points [x1, y1, x2, y2] of a CSS-style cubic-bezier timing curve
+export type BezierCurve = [number, number, number, number];
+
+export const DEFAULT_BEZIER: BezierCurve = [0.42, 0, 0.58, 1];
+
+// ============================================================================
+// Effect Clips (procedural patterns placed on a track)
+// ============================================================================
+
+export type EffectType = 'chase' | 'strobe' | 'twinkle' | 'pulse' | 'fade';
+
+export const EFFECT_TYPE_OPTIONS: { value: EffectType; label: string; color: string }[] = [
+  { value: 'chase', label: 'Chase', color: '#4a9eff' },
+  { value: 'strobe', label: 'Strobe', color: '#e8e6e3' },
+  { value: 'twinkle', label: 'Twinkle', color: '#eab308' },
+  { value: 'pulse', label: 'Pulse', color: '#a855f7' },
+  { value: 'fade', label: 'Fade', color: '#22c55e' },
 ];
 
+export interface EffectClip {
+  id: string;
+  type: EffectType;
+  start: number;      // seconds
+  end: number;        // seconds
+  rate: number;       // cycles per second (ignored by fade)
+  dutyCycle: number;  // 0-1, share of each cycle spent on (twinkle: chance to sparkle)
+  phase: number;      // 0-1, offset into the cycle
+  seed: number;       // random seed (twinkle)
+  low: number;        // 0-1, output at the bottom of the pattern (fade: start value)
+  high: number;       // 0-1, output at the top of the pattern (fade: end value)
+}
+
+// ============================================================================
+// Channels (named parameter lanes for multi-channel fixtures)
+// ============================================================================
+
+export type ChannelType = 'dimmer' | 'color' | 'strobe' | 'pan' | 'tilt' | 'generic';
+
+export const CHANNEL_TYPE_OPTIONS: { value: ChannelType; label: string }[] = [
+  { value: 'dimmer', label: 'Dimmer' },
+  { value: 'color', label: 'Color' },
+  { value: 'strobe', label: 'Strobe' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'tilt', label: 'Tilt' },
+  { value: 'generic', label: 'Generic' },
+];
+
+// Anything with its own keyframes and curve: an actor's main lane or one of its channels
+export interface KeyframeLane {
+  keyframes: KeyFrame[];
+  interpolation: InterpolationType;
+  bezier?: BezierCurve;
+  colorSpace?: ColorSpace;
+  effects?: EffectClip[];  // Override the keyframes while active (later clips win)
+}
+
+export interface ActorChannel extends KeyframeLane {
+  id: string;
+  name: string;
+  type: ChannelType;  // 'color' channels keyframe full colors
+}
+
 // ============================================================================
 // Actor
 // ============================================================================
 
+// Scalar actors blend their shapes' off/on colors; RGB actors keyframe full colors
+export type ActorKind = 'scalar' | 'rgb';
+
 export interface Actor {
   id: string;
   label: string;
   shapes: Shape[];  // Array of shapes (supports disconnected polygons)
   keyframes: KeyFrame[];
   interpolation: InterpolationType;
+  bezier?: BezierCurve;  // Curve used when interpolation = 'bezier'
+  kind?: ActorKind;      // Defaults to 'scalar'
+  colorSpace?: ColorSpace;  // Blend space for RGB actors (defaults to 'rgb')
+  channels: ActorChannel[];  // Extra parameter lanes (pan/tilt, strobe, ...) besides the main keyframes
+  patch?: ActorPatch;  // Physical output the actor is wired to (unpatched actors are laid out after the patch)
+  constraints?: OutputConstraints;  // Limits of the prop behind the main lane (relays)
+  power?: ActorPower;  // What the prop draws at full output, and the circuit feeding it
 }
 
+// What a prop like a mechanical relay can follow: on/off at a threshold, held for a minimum
+// time, switched no faster than a maximum rate (unset or 0 means no limit)
+export interface OutputConstraints {
+  binary?: boolean;        // Export only full on and off
+  threshold?: number;      // 0-1, level at or above which the prop is on (defaults to 0.5)
+  minOnTime?: number;      // seconds the prop stays on once switched on
+  minOffTime?: number;     // seconds the prop stays off once switched off
+  maxSwitchRate?: number;  // switches per second
+}
+
+// Legacy Actor type for migration (v5 format, before the output patch)
+export type ActorV5 = Actor & { startChannel?: number; outputPin?: number };
+
+// Legacy KeyFrame type for migration (v4 and earlier, before keyframe ids)
+export type KeyFrameV4 = Omit<KeyFrame, 'id'> & { id?: string };
+
+// Legacy Actor type for migration (v3 format, before channel lanes)
+export type ActorV3 = Omit<Actor, 'channels'>;
+
 // Legacy Actor type for migration (v1 format)
 export interface ActorV1 {
   id: string;
   label: string;
   shape: Shape | null;
-  keyframes: KeyFrame[];
+  keyframes: KeyFrameV4[];
   interpolation: InterpolationType;
 }
 
@@ -90,6 +215,59 @@ export interface Project {
   name: string;
   songFilename: string;
   canvasSize: { width: number; height: number };
+  beatGrid?: BeatGrid;  // Detected (or hand-tuned) tempo of the song
+  duration?: number;    // seconds, length of the song when the file was saved (for headless export)
+  controllers?: OutputController[];  // Output patch, in channel order
+  circuits?: PowerCircuit[];  // Breakers the props are plugged into
+}
+
+// ============================================================================
+// Output Patch
+// ============================================================================
+
+// How a controller is driven: over the network (E1.31, Art-Net, DDP), a USB DMX
+// interface, or the digital pins of a microcontroller
+export type OutputProtocol = 'e131' | 'artnet' | 'ddp' | 'dmx' | 'pins';
+
+export const OUTPUT_PROTOCOL_OPTIONS: { value: OutputProtocol; label: string }[] = [
+  { value: 'e131', label: 'E1.31 (sACN)' },
+  { value: 'artnet', label: 'Art-Net' },
+  { value: 'ddp', label: 'DDP' },
+  { value: 'dmx', label: 'USB DMX' },
+  { value: 'pins', label: 'Microcontroller pins' },
+];
+
+export interface OutputController {
+  id: string;
+  name: string;
+  protocol: OutputProtocol;
+  startUniverse: number;  // First universe (E1.31, Art-Net and DMX; 512 channels each)
+  channelCount: number;   // Channels (or pins) the controller drives
+  host?: string;          // IP address or hostname of network controllers
+}
+
+// Where an actor's lanes start on a controller; its channels follow the main lane
+export interface ActorPatch {
+  controllerId: string;
+  address: number;  // 1-based channel on the controller (the pin number on pin controllers)
+}
+
+// ============================================================================
+// Beat Grid
+// ============================================================================
+
+export interface BeatGrid {
+  bpm: number;
+  offset: number;       // seconds, time of the first downbeat
+  beatsPerBar: number;  // time signature numerator (beats are quarter notes)
+  tempoChanges?: TempoChange[];
+}
+
+// A new tempo and/or time signature, starting a fresh bar at `time`
+export interface TempoChange {
+  time: number;         // seconds
+  bpm: number;
+  beatsPerBar: number;
 }
 
 // ============================================================================
@@ -102,18 +280,90 @@ export interface PlaybackState {
   duration: number;
 }
 
+// ============================================================================
+// Power Budget
+// ============================================================================
+
+export interface PowerCircuit {
+  id: string;
+  name: string;
+  maxWatts: number;  // Load the breaker carries without tripping
+}
+
+export interface ActorPower {
+  watts: number;       // Draw at full output, scaled by the actor's level
+  circuitId?: string;  // Circuit the prop is plugged into
+}
+
+// ============================================================================
+// Channel Test
+// ============================================================================
+
+// Wiring check patterns that drive actors directly, ignoring the timeline
+export type TestPattern = 'chase' | 'all-on' | 'all-off' | 'solo' | 'blink';
+
+export const TEST_PATTERN_OPTIONS: { value: TestPattern; label: string }[] = [
+  { value: 'chase', label: 'Chase' },
+  { value: 'all-on', label: 'All on' },
+  { value: 'all-off', label: 'All off' },
+  { value: 'solo', label: 'Solo' },
+  { value: 'blink', label: 'Blink' },
+];
+
+export interface TestModeState {
+  pattern: TestPattern;
+  rate: number;            // chase steps or blinks per second
+  actorId: string | null;  // actor lit by solo, and the only one blinking when set
+  time: number;            // seconds since the test started
+}
+
 // ============================================================================
 // UI State
 // ============================================================================
 
 export interface UIState {
   selectedActorId: string | null;
+  selectedActorIds: string[];  // Group selection for multi-actor tools (includes selectedActorId)
+  selectedKeyframes: KeyframeRef[];
   selectedBackgroundId: string | null;
   zoom: number;  // pixels per second
   scrollX: number;
   scrollY: number;
   tool: 'select' | 'rectangle' | 'polygon';
   backgroundOpacity: number;  // 0-1, controls opacity of all background images
+  snap: SnapSettings;
+  timeDisplay: TimeDisplay;
+}
+
+// A keyframe addressed by its lane (actor, optionally one of its channels) and id
+export interface KeyframeRef {
+  actorId: string;
+  channelId?: string;
+  keyframeId: string;
+}
+
+// How times are shown in the ruler and transport: mm:ss.ms or bars:beats:ticks
+export type TimeDisplay = 'clock' | 'musical';
+
+// ============================================================================
+// Snapping
+// ============================================================================
+
+export type SnapTarget = 'grid' | 'beats' | 'markers' | 'keyframes' | 'playhead';
+
+export const SNAP_TARGET_OPTIONS: { value: SnapTarget; label: string }[] = [
+  { value: 'grid', label: 'Time grid' },
+  { value: 'beats', label: 'Beats' },
+  { value: 'markers', label: 'Markers' },
+  { value: 'keyframes', label: 'Other actors\' keyframes' },
+  { value: 'playhead', label: 'Playhead' },
+];
+
+export interface SnapSettings {
+  enabled: boolean;
+  targets: SnapTarget[];
+  gridSize: number;      // seconds between time grid lines
+  beatDivision: number;  // snap points per beat (1 = beats, 2 = eighths, 4 = sixteenths)
 }
 
 // ============================================================================
@@ -135,10 +385,19 @@ export interface ExportedCue {
   t: number;
   id: string;
   state: number;
+  channel?: string;  // Channel lane name, absent for the actor's main keyframes
+  // Where the lane is patched, only present for patched actors
+  controller?: string;  // Controller name
+  universe?: number;    // Universe on E1.31, Art-Net and DMX controllers
+  address?: number;     // 1-based channel in the universe (or on the controller, or the pin)
+  // Color channels (0-255), only present for RGB actors
+  r?: number;
+  g?: number;
+  b?: number;
 }
 
 // Current version of the file format
-export const GRIS_FILE_VERSION = 3;
+export const GRIS_FILE_VERSION = 6;
 
 export interface GrisFile {
   version: number;
@@ -159,42 +418,15 @@ export interface GrisFileV1 {
 export interface GrisFileV2 {
   version: number;
   project: Project;
-  actors: Actor[];
+  actors: ActorV3[];
   backgrounds: CanvasBackground[];
   // No markers field
 }
 
-// Migration function: converts any version to current
-export function migrateGrisFile(data: unknown): GrisFile {
-  const file = data as GrisFileV1 & GrisFileV2 & { version?: number; markers?: Marker[] };
-  
-  // Handle v1 (shape → shapes)
-  if (!file.version || file.version === 1) {
-    return {
-      version: GRIS_FILE_VERSION,
-      project: file.project,
-      backgrounds: file.backgrounds || [],
-      markers: [],
-      actors: (file.actors || []).map((actor: ActorV1) => ({
-        id: actor.id,
-        label: actor.label,
-        shapes: actor.shape ? [actor.shape] : [],
-        keyframes: actor.keyframes || [],
-        interpolation: actor.interpolation || 'step',
-      })),
-    };
-  }
-  
-  // Handle v2 (add empty markers array)
-  if (file.version === 2) {
-    return {
-      ...file,
-      version: GRIS_FILE_VERSION,
-      markers: file.markers || [],
-    } as GrisFile;
-  }
-  
-  // Already current version
-  return file as unknown as GrisFile;
+export interface GrisFileV3 {
+  version: number;
+  project: Project;
+  actors: ActorV3[];  // No channels field
+  backgrounds: CanvasBackground[];
+  markers: Marker[];
 }
-
@@ -0,0 +1,135 @@
+import type { BeatGrid } from '../types';
+
+// Ticks per beat in bars:beats:ticks readouts
+export const PPQ = 480;
+
+// A stretch of the song at one tempo and time signature
+interface TempoSection {
+  start: number;        // seconds
+  bpm: number;
+  beatsPerBar: number;
+  firstBar: number;     // 0-based index of the bar starting at `start`
+}
+
+/**
+ * Format seconds as m:ss.d (or m:ss.dd with two decimals)
+ */
+export function formatTime(seconds: number, decimals: 1 | 2 = 1): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const fraction = Math.floor((seconds % 1) * Math.pow(10, decimals));
+  return `${mins}:${secs.toString().padStart(2, '0')}.${fraction.toString().padStart(decimals, '0')}`;
+}
+
+/**
+ * Format seconds as bars:beats:ticks (1-based bars and beats)
+ */
+export function formatMusicalTime(seconds: number, grid: BeatGrid): string {
+  const { bar, beat, tick } = toMusicalTime(seconds, grid);
+  return `${bar}:${beat}:${tick.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Position of a time in the bar/beat grid (1-based bars and beats; bars before the offset are <= 0)
+ */
+export function toMusicalTime(seconds: number, grid: BeatGrid): { bar: number; beat: number; tick: number } {
+  const section = getSectionAt(getTempoSections(grid), seconds);
+  const beats = (seconds - section.start) / (60 / section.bpm);
+  const wholeBeats = Math.floor(beats + 1e-9);
+  const beatInBar = ((wholeBeats % section.beatsPerBar) + section.beatsPerBar) % section.beatsPerBar;
+
+  return {
+    bar: section.firstBar + Math.floor(wholeBeats / section.beatsPerBar) + 1,
+    beat: beatInBar + 1,
+    tick: Math.min(PPQ - 1, Math.max(0, Math.floor((beats - wholeBeats) * PPQ))),
+  };
+}
+
+/**
+ * Times of every beat in a range, with their 1-based bar number and whether they start the bar
+ */
+export function getBeatTimes(
+  grid: BeatGrid,
+  from: number,
+  to: number
+): { time: number; bar: number; isDownbeat: boolean }[] {
+  const sections = getTempoSections(grid);
+  const beats: { time: number; bar: number; isDownbeat: boolean }[] = [];
+
+  sections.forEach((section, i) => {
+    const beatLength = 60 / section.bpm;
+    if (!(beatLength > 0)) return;
+    // The first section also runs backwards from the offset to the start of the song
+    const sectionStart = i === 0 ? 0 : section.start;
+    const nextStart = sections[i + 1]?.start ?? Infinity;
+
+    const first = Math.ceil((Math.max(from, sectionStart) - section.start) / beatLength - 1e-9);
+    for (let n = first; ; n++) {
+      const time = section.start + n * beatLength;
+      if (time > to || time >= nextStart - 1e-9) break;
+      const beatInBar = ((n % section.beatsPerBar) + section.beatsPerBar) % section.beatsPerBar;
+      beats.push({
+        time,
+        bar: section.firstBar + Math.floor(n / section.beatsPerBar) + 1,
+        isDownbeat: beatInBar === 0,
+      });
+    }
+  });
+
+  return beats;
+}
+
+/**
+ * Nearest beat subdivision to a time (`division` points per beat)
+ */
+export function getNearestBeatTime(seconds: number, grid: BeatGrid, division: number): number {
+  const sections = getTempoSections(grid);
+  const section = getSectionAt(sections, seconds);
+  const step = 60 / section.bpm / Math.max(1, division);
+  const nearest = section.start + Math.round((seconds - section.start) / step) * step;
+
+  // The following section's first beat may be closer than this section's grid
+  const next = sections[sections.indexOf(section) + 1];
+  if (next && Math.abs(next.start - seconds) < Math.abs(nearest - seconds)) return next.start;
+  return nearest;
+}
+
+/**
+ * Tempo and time signature in effect at a time
+ */
+export function getTempoAt(seconds: number, grid: BeatGrid): { bpm: number; beatsPerBar: number } {
+  const { bpm, beatsPerBar } = getSectionAt(getTempoSections(grid), seconds);
+  return { bpm, beatsPerBar };
+}
+
+function getTempoSections(grid: BeatGrid): TempoSection[] {
+  const sections: TempoSection[] = [
+    { start: grid.offset, bpm: grid.bpm, beatsPerBar: grid.beatsPerBar, firstBar: 0 },
+  ];
+  const changes = (grid.tempoChanges ?? [])
+    .filter((change) => change.time > grid.offset && change.bpm > 0)
+    .sort((a, b) => a.time - b.time);
+
+  for (const change of changes) {
+    const previous = sections[sections.length - 1];
+    if (change.time <= previous.start) continue;
+    // A partial bar before the change still counts as a bar
+    const bars = (change.time - previous.start) / ((60 / previous.bpm) * previous.beatsPerBar);
+    sections.push({
+      start: change.time,
+      bpm: change.bpm,
+      beatsPerBar: change.beatsPerBar,
+      firstBar: previous.firstBar + Math.ceil(bars - 1e-6),
+    });
+  }
+
+  return sections;
+}
+
+function getSectionAt(sections: TempoSection[], seconds: number): TempoSection {
+  let current = sections[0];
+  for (const section of sections) {
+    if (section.start <= seconds + 1e-9) current = section;
+  }
+  return current;
+}
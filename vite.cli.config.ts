@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+
+// Bundles the headless cue compiler (cli/griswold.ts) and the live output bridge
+// (cli/bridge.ts) into Node scripts
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: true,
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        griswold: 'cli/griswold.ts',
+        'griswold-bridge': 'cli/bridge.ts',
+      },
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+})